@@ -0,0 +1,239 @@
+/**
+ * Tests for payload compression (t-138).
+ *
+ * t-138: buildEnvelope() compresses the plaintext before encryption above a
+ * threshold and marks it in the signed payload.compression field,
+ * processEnvelope() decompresses transparently up to a size limit, and clients
+ * only compress for contacts that advertise 2.4.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions } from '../client.js';
+import { buildEnvelope, processEnvelope, sealGroupPayload, MAX_SUPPORTED_VERSION } from '../messaging.js';
+import type { CompressOptions } from '../compression.js';
+import { sign } from '../crypto.js';
+import { signablePayload } from '../wire.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { WireEnvelope } from '../types.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+const flush = () => new Promise((r) => setImmediate(r));
+
+/** A JSON payload that compresses well: a long, repetitive transcript. */
+const transcript = { lines: Array.from({ length: 200 }, (_, i) => `line ${i}: the tool returned the same output again`) };
+
+describe('t-138: Payload compression', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  function envelopeToBob(payload: Record<string, unknown>, compress?: CompressOptions): WireEnvelope {
+    return buildEnvelope({
+      sender: 'alice',
+      recipient: 'bob',
+      payload,
+      senderPrivateKey: aliceKp.privateKey,
+      recipientPublicKeyBase64: bobKp.publicKeyBase64,
+      forwardSecret: true,
+      ...(compress && { compress }),
+    });
+  }
+
+  function processAsBob(envelope: WireEnvelope, maxDecompressedBytes?: number) {
+    return processEnvelope({
+      envelope,
+      recipientPrivateKey: bobKp.privateKey,
+      senderPublicKeyBase64: aliceKp.publicKeyBase64,
+      ...(maxDecompressedBytes !== undefined && { maxDecompressedBytes }),
+    });
+  }
+
+  function resign(envelope: WireEnvelope): WireEnvelope {
+    envelope.signature = sign(Buffer.from(signablePayload(envelope)), aliceKp.privateKey).toString('base64');
+    return envelope;
+  }
+
+  it('step 1: gzip and brotli payloads round-trip and shrink the ciphertext', () => {
+    const plain = envelopeToBob(transcript);
+    for (const algorithm of ['gzip', 'br'] as const) {
+      const envelope = envelopeToBob(transcript, { algorithm, threshold: 1024 });
+      assert.equal(envelope.version, '2.1', 'compression keeps the encryption scheme');
+      assert.equal(envelope.payload.compression, algorithm);
+      assert.ok((envelope.payload.ciphertext as string).length < (plain.payload.ciphertext as string).length / 4);
+      assert.deepEqual(processAsBob(envelope).payload, transcript);
+    }
+    assert.equal(plain.payload.compression, undefined);
+  });
+
+  it('step 2: small or incompressible payloads are sent as-is', () => {
+    const small = envelopeToBob({ text: 'hi' }, { algorithm: 'gzip', threshold: 1024 });
+    assert.equal(small.payload.compression, undefined);
+
+    const random = { blob: generateKeyPairSync('ed25519').privateKey.export({ type: 'pkcs8', format: 'der' }).toString('base64') };
+    const incompressible = envelopeToBob(random, { algorithm: 'gzip', threshold: 0 });
+    assert.equal(incompressible.payload.compression, undefined);
+    assert.deepEqual(processAsBob(incompressible).payload, random);
+  });
+
+  it('step 3: decompression stops at the size limit', () => {
+    const bomb = { data: 'a'.repeat(2 * 1024 * 1024) };
+    const envelope = envelopeToBob(bomb, { algorithm: 'gzip', threshold: 0 });
+    assert.ok((envelope.payload.ciphertext as string).length < 20_000);
+    assert.throws(() => processAsBob(envelope, 64 * 1024), /exceeds 65536 bytes/);
+    assert.deepEqual(processAsBob(envelope).payload, bomb, 'within the default 4 MB limit');
+  });
+
+  it('step 4: the compression field is authenticated and validated', () => {
+    const envelope = envelopeToBob(transcript, { algorithm: 'gzip', threshold: 0 });
+    assert.throws(() => processAsBob({ ...envelope, payload: { ...envelope.payload, compression: 'br' } }), /Invalid signature/);
+    envelope.payload.compression = 'zstd';
+    assert.throws(() => processAsBob(resign(envelope)), /Unsupported payload compression: zstd/);
+  });
+
+  it('step 5: a sender-key group payload is compressed once for the fan-out', () => {
+    const sealed = sealGroupPayload(transcript, undefined, { algorithm: 'gzip', threshold: 1024 });
+    assert.equal(sealed.compression, 'gzip');
+    const envelope = buildEnvelope({
+      sender: 'alice',
+      recipient: 'bob',
+      payload: {},
+      senderPrivateKey: aliceKp.privateKey,
+      recipientPublicKeyBase64: bobKp.publicKeyBase64,
+      type: 'group',
+      groupId: 'g1',
+      senderKey: sealed,
+    });
+    assert.equal(envelope.payload.compression, 'gzip');
+    assert.deepEqual(processAsBob(envelope).payload, transcript);
+  });
+
+  /** Alice and Bob wired to deliver straight into each other. */
+  async function createPair(aliceOptions: Partial<A2ANetworkInternalOptions> = {}) {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-compress-'));
+    dirs.push(dir);
+    const sent: WireEnvelope[] = [];
+    const received: unknown[] = [];
+    const nets: Record<string, A2ANetwork> = {};
+    const deliver = async (_endpoint: string, envelope: WireEnvelope) => {
+      sent.push(envelope);
+      const target = nets[envelope.recipient]!;
+      if (envelope.type === 'receipt') target.receiveReceipt(envelope);
+      else received.push(target.receiveMessage(envelope)?.payload);
+      return true;
+    };
+    const make = (name: string, kp: ReturnType<typeof genKeypair>, peer: string, peerKp: ReturnType<typeof genKeypair>, extra: Partial<A2ANetworkInternalOptions>) => {
+      const net = new A2ANetwork({
+        username: name,
+        privateKey: kp.privateKeyDer,
+        endpoint: `https://${name}.example.com/inbox`,
+        relayUrl: 'https://relay.example.com',
+        relayAPI: createMockRelayAPI({
+          getContacts: async () => ({ ok: true, status: 200, data: [contactOf(peer, peerKp.publicKeyBase64)] }),
+        }),
+        deliverFn: deliver,
+        dataDir: join(dir, name),
+        ...extra,
+      } as A2ANetworkInternalOptions);
+      nets[name] = net;
+      networks.push(net);
+      return net;
+    };
+    const alice = make('alice', aliceKp, 'bob', bobKp, aliceOptions);
+    make('bob', bobKp, 'alice', aliceKp, {});
+    for (const net of Object.values(nets)) await net.start();
+    return { alice, sent, received };
+  }
+
+  it('step 6: clients compress only once the contact advertises 2.4', async () => {
+    const { alice, sent, received } = await createPair({ compression: 'br' });
+
+    await alice.send('bob', transcript);
+    await flush();
+    assert.equal(sent[0]!.payload.compression, undefined, "Bob's support is not known yet");
+
+    assert.equal(alice.getCachedContact('bob')!.maxVersion, MAX_SUPPORTED_VERSION);
+    await alice.send('bob', transcript);
+    const second = sent.filter((e) => e.type === 'direct')[1]!;
+    assert.equal(second.payload.compression, 'br');
+    assert.deepEqual(received, [transcript, transcript]);
+  });
+
+  it('step 7: compression is off by default and options are validated', async () => {
+    const { alice, sent } = await createPair();
+    await alice.send('bob', transcript);
+    await flush();
+    await alice.send('bob', transcript);
+    assert.ok(sent.every((e) => e.payload.compression === undefined));
+
+    const base = {
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI(),
+    };
+    assert.throws(() => new A2ANetwork({ ...base, compression: 'zstd' } as unknown as A2ANetworkInternalOptions), /Invalid compression: 'zstd'/);
+    assert.throws(() => new A2ANetwork({ ...base, maxDecompressedBytes: -1 }), /maxDecompressedBytes must be >= 0/);
+  });
+});
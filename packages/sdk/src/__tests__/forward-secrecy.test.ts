@@ -0,0 +1,239 @@
+/**
+ * Tests for forward-secret envelopes (t-133).
+ *
+ * t-133: Version 2.1 envelopes use a per-message ephemeral X25519 sender key,
+ * processEnvelope accepts 2.0 and 2.1, and clients upgrade to 2.1 once a
+ * contact advertises support.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, createPrivateKey } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions } from '../client.js';
+import { buildEnvelope, processEnvelope, decodePublicKeyRaw, MAX_SUPPORTED_VERSION } from '../messaging.js';
+import { deriveSharedKey, decrypt, ed25519PrivToX25519, ed25519PubToX25519, getEd25519RawKeys, sign } from '../crypto.js';
+import { parseVersion, isAtLeastVersion, signablePayload } from '../wire.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { WireEnvelope } from '../types.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+const flush = () => new Promise((r) => setImmediate(r));
+
+describe('t-133: Forward-secret envelopes', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  function envelopeToBob(forwardSecret: boolean): WireEnvelope {
+    return buildEnvelope({
+      sender: 'alice',
+      recipient: 'bob',
+      payload: { text: 'secret' },
+      senderPrivateKey: aliceKp.privateKey,
+      recipientPublicKeyBase64: bobKp.publicKeyBase64,
+      forwardSecret,
+    });
+  }
+
+  function processAsBob(envelope: WireEnvelope) {
+    return processEnvelope({ envelope, recipientPrivateKey: bobKp.privateKey, senderPublicKeyBase64: aliceKp.publicKeyBase64 });
+  }
+
+  /** The static-static key both parties (and anyone holding Alice's long-term key) can derive. */
+  function staticKey(): Buffer {
+    const aliceX = ed25519PrivToX25519(getEd25519RawKeys(aliceKp.privateKey).seed);
+    const bobX = ed25519PubToX25519(decodePublicKeyRaw(bobKp.publicKeyBase64));
+    return deriveSharedKey(aliceX, bobX, 'alice', 'bob');
+  }
+
+  function tryDecrypt(envelope: WireEnvelope, key: Buffer): string {
+    return decrypt(
+      Buffer.from(envelope.payload.ciphertext!, 'base64'),
+      Buffer.from(envelope.payload.nonce!, 'base64'),
+      key,
+      envelope.messageId,
+    ).toString();
+  }
+
+  it('step 1: 2.1 envelopes carry a fresh ephemeral key and decrypt', () => {
+    const first = envelopeToBob(true);
+    const second = envelopeToBob(true);
+
+    assert.equal(first.version, '2.1');
+    assert.equal(Buffer.from(first.payload.ephemeralKey as string, 'base64').length, 32);
+    assert.notEqual(first.payload.ephemeralKey, second.payload.ephemeralKey, 'one key per message');
+    assert.deepEqual(processAsBob(first).payload, { text: 'secret' });
+  });
+
+  it("step 2: the sender's long-term key no longer decrypts what it sent", () => {
+    const legacy = envelopeToBob(false);
+    assert.equal(legacy.version, '2.0');
+    assert.equal(legacy.payload.ephemeralKey, undefined);
+    assert.equal(tryDecrypt(legacy, staticKey()), JSON.stringify({ text: 'secret' }));
+
+    assert.throws(() => tryDecrypt(envelopeToBob(true), staticKey()));
+  });
+
+  it('step 3: every envelope advertises the highest supported version', () => {
+    assert.equal(envelopeToBob(false).payload.maxVersion, MAX_SUPPORTED_VERSION);
+    assert.equal(envelopeToBob(true).payload.maxVersion, MAX_SUPPORTED_VERSION);
+  });
+
+  it('step 4: a 2.1 envelope without an ephemeral key is rejected', () => {
+    const envelope = envelopeToBob(true);
+    delete envelope.payload.ephemeralKey;
+    envelope.signature = sign(Buffer.from(signablePayload(envelope)), aliceKp.privateKey).toString('base64');
+    assert.throws(() => processAsBob(envelope), /ephemeral key/);
+  });
+
+  it('step 5: parseVersion / isAtLeastVersion understand the minor version', () => {
+    assert.deepEqual(parseVersion('2.1'), { major: 2, minor: 1 });
+    assert.deepEqual(parseVersion('2'), { major: 2, minor: 0 });
+    assert.equal(parseVersion('abc'), null);
+    assert.equal(isAtLeastVersion('2.1', '2.1'), true);
+    assert.equal(isAtLeastVersion('2.3', '2.1'), true);
+    assert.equal(isAtLeastVersion('2.0', '2.1'), false);
+    assert.equal(isAtLeastVersion('3.1', '2.1'), false, 'different major');
+  });
+
+  /** Alice and Bob wired to deliver straight into each other. */
+  async function createPair(aliceOptions: Partial<A2ANetworkInternalOptions> = {}) {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-fs-'));
+    dirs.push(dir);
+    const sent: WireEnvelope[] = [];
+    const nets: Record<string, A2ANetwork> = {};
+    const deliver = async (_endpoint: string, envelope: WireEnvelope) => {
+      sent.push(envelope);
+      const target = nets[envelope.recipient]!;
+      if (envelope.type === 'receipt') target.receiveReceipt(envelope);
+      else target.receiveMessage(envelope);
+      return true;
+    };
+    const make = (name: string, kp: ReturnType<typeof genKeypair>, peer: string, peerKp: ReturnType<typeof genKeypair>, extra: Partial<A2ANetworkInternalOptions>) => {
+      const net = new A2ANetwork({
+        username: name,
+        privateKey: kp.privateKeyDer,
+        endpoint: `https://${name}.example.com/inbox`,
+        relayUrl: 'https://relay.example.com',
+        relayAPI: createMockRelayAPI({
+          getContacts: async () => ({ ok: true, status: 200, data: [contactOf(peer, peerKp.publicKeyBase64)] }),
+        }),
+        deliverFn: deliver,
+        dataDir: join(dir, name),
+        ...extra,
+      } as A2ANetworkInternalOptions);
+      nets[name] = net;
+      networks.push(net);
+      return net;
+    };
+    const alice = make('alice', aliceKp, 'bob', bobKp, aliceOptions);
+    const bob = make('bob', bobKp, 'alice', aliceKp, {});
+    await alice.start();
+    await bob.start();
+    return { alice, bob, sent };
+  }
+
+  it('step 6: clients upgrade to 2.1 once the contact advertises it', async () => {
+    const { alice, sent } = await createPair();
+
+    await alice.send('bob', { n: 1 });
+    await flush();
+    assert.deepEqual(sent.map((e) => [e.type, e.version]), [
+      ['direct', '2.0'], // Bob's support is not known yet
+      ['receipt', '2.1'], // Bob learned Alice's from her envelope
+    ]);
+
+    await alice.send('bob', { n: 2 });
+    assert.equal(sent[2]!.version, '2.1');
+    assert.equal(alice.getCachedContact('bob')!.maxVersion, MAX_SUPPORTED_VERSION);
+  });
+
+  it('step 7: forwardSecrecy: false keeps sending 2.0', async () => {
+    const { alice, sent } = await createPair({ forwardSecrecy: false });
+    await alice.send('bob', { n: 1 });
+    await flush();
+    await alice.send('bob', { n: 2 });
+    assert.deepEqual(sent.filter((e) => e.sender === 'alice').map((e) => e.version), ['2.0', '2.0']);
+  });
+
+  it('step 8: peers without an advertisement stay on 2.0', async () => {
+    const { alice, sent } = await createPair();
+    await alice.send('bob', { n: 1 });
+    await flush();
+
+    // An older SDK: 2.0 envelope with no maxVersion
+    const fromOldBob = buildEnvelope({
+      sender: 'bob',
+      recipient: 'alice',
+      payload: { text: 'old client' },
+      senderPrivateKey: bobKp.privateKey,
+      recipientPublicKeyBase64: aliceKp.publicKeyBase64,
+    });
+    delete fromOldBob.payload.maxVersion;
+    fromOldBob.signature = sign(Buffer.from(signablePayload(fromOldBob)), bobKp.privateKey).toString('base64');
+    assert.ok(alice.receiveMessage(fromOldBob, { receipt: false }));
+    assert.equal(alice.getCachedContact('bob')!.maxVersion, '2.0');
+
+    const result = await alice.send('bob', { n: 2 });
+    assert.equal(sent.find((e) => e.messageId === result.messageId)!.version, '2.0');
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Tests for group delivery reports (t-127).
+ *
+ * t-127: getGroupDeliveryReport tracks each member's attempts and status,
+ *        updates as retries complete, and signals when everyone has it.
+ *
+ * Uses node:test mock.timers to control time without real waits.
+ */
+
+import { describe, it, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions } from '../client.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { GroupDeliveryReport } from '../types.js';
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+/** Flush microtasks so async queue processing completes. */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 3; i++) await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('t-127: Per-group delivery report', () => {
+  const keys = { alice: genKeypair(), bob: genKeypair(), carol: genKeypair(), dave: genKeypair() };
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date', 'setInterval'] });
+  });
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+    mock.timers.reset();
+  });
+
+  /**
+   * Alice owns group g1 with Bob (online), Carol (offline until flipped) and
+   * Dave (online, but with no endpoint unless `daveEndpoint`). Members listed
+   * in `online` are reachable.
+   */
+  async function createAlice(daveEndpoint = false) {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-group-report-'));
+    dirs.push(dir);
+    const online = new Set(['bob', 'dave']);
+    const alice = new A2ANetwork({
+      username: 'alice',
+      privateKey: keys.alice.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => ({ ok: true, status: 200, data: (['bob', 'carol', 'dave'] as const).map((name) => ({
+          ...contactOf(name, keys[name].publicKeyBase64),
+          online: online.has(name),
+          endpoint: name === 'dave' && !daveEndpoint ? null : `https://${name}.example.com/inbox`,
+        })) }),
+        getGroupMembers: async () => ({ ok: true, status: 200, data: ['alice', 'bob', 'carol', 'dave'].map((agent) => ({
+          agent, role: agent === 'alice' ? 'owner' : 'member', joinedAt: '',
+        })) as RelayGroupMember[] }),
+      }),
+      deliverFn: async (_ep, envelope) => online.has(envelope.recipient),
+      retryPolicy: { initialDelayMs: 10_000, maxAttempts: 2 },
+      receipts: false,
+      dataDir: join(dir, 'data'),
+    } as A2ANetworkInternalOptions);
+    networks.push(alice);
+    await alice.start();
+    return { alice, online };
+  }
+
+  function member(report: GroupDeliveryReport, recipient: string) {
+    return report.members.find((m) => m.recipient === recipient)!;
+  }
+
+  it('step 1: report records each member after fan-out', async () => {
+    const { alice } = await createAlice();
+    const result = await alice.sendToGroup('g1', { text: 'standup' });
+
+    const report = alice.getGroupDeliveryReport(result.messageId)!;
+    assert.equal(report.groupId, 'g1');
+    assert.deepEqual(report.members.map((m) => m.recipient).sort(), ['bob', 'carol', 'dave']);
+
+    const bob = member(report, 'bob');
+    assert.equal(bob.status, 'delivered');
+    assert.equal(bob.attempts.length, 1);
+    assert.equal(bob.attempts[0]!.endpoint, 'https://bob.example.com/inbox');
+    assert.equal(bob.attempts[0]!.httpStatus, 200);
+
+    const carol = member(report, 'carol');
+    assert.equal(carol.status, 'queued');
+    assert.equal(carol.attempts[0]!.error, 'Recipient offline');
+
+    const dave = member(report, 'dave');
+    assert.equal(dave.status, 'failed');
+    assert.equal(dave.reason, 'No endpoint for recipient');
+
+    assert.equal(report.complete, false, 'carol still queued');
+    assert.equal(report.allDelivered, false);
+    assert.equal(alice.getDeliveryReport(result.messageId), undefined, 'group messages have no direct report');
+  });
+
+  it('step 2: retry delivery updates the member and completes the report', async () => {
+    const { alice, online } = await createAlice();
+    const completed: GroupDeliveryReport[] = [];
+    alice.on('group-delivery-complete', (r) => completed.push(r));
+
+    const result = await alice.sendToGroup('g1', { text: 'standup' });
+    online.add('carol');
+    mock.timers.tick(10_000);
+    await flush();
+
+    const report = alice.getGroupDeliveryReport(result.messageId)!;
+    const carol = member(report, 'carol');
+    assert.equal(carol.status, 'delivered');
+    assert.equal(carol.attempts.length, 2);
+    assert.equal(carol.attempts[1]!.presenceCheck, true);
+    assert.equal(report.complete, true);
+    assert.equal(report.allDelivered, false, 'dave failed');
+    assert.equal(completed.length, 1);
+    assert.equal(completed[0]!.messageId, result.messageId);
+  });
+
+  it('step 3: allDelivered once every member has it', async () => {
+    const { alice, online } = await createAlice(true);
+    const result = await alice.sendToGroup('g1', { text: 'standup' });
+    assert.equal(alice.getGroupDeliveryReport(result.messageId)!.allDelivered, false);
+
+    online.add('carol');
+    mock.timers.tick(10_000);
+    await flush();
+
+    const report = alice.getGroupDeliveryReport(result.messageId)!;
+    assert.ok(report.members.every((m) => m.status === 'delivered'));
+    assert.equal(report.complete, true);
+    assert.equal(report.allDelivered, true);
+  });
+
+  it('step 4: members that exhaust retries fail with the reason', async () => {
+    const { alice } = await createAlice();
+    const result = await alice.sendToGroup('g1', { text: 'standup' });
+
+    mock.timers.tick(10_000);
+    await flush();
+    mock.timers.tick(30_000);
+    await flush();
+
+    const report = alice.getGroupDeliveryReport(result.messageId)!;
+    assert.equal(member(report, 'carol').status, 'failed');
+    assert.equal(member(report, 'carol').reason, 'Gave up after 2 retry attempt(s): Recipient offline');
+    assert.equal(report.complete, true);
+    assert.equal(report.allDelivered, false);
+  });
+
+  it('step 5: cancelled members settle the report', async () => {
+    const { alice } = await createAlice();
+    const result = await alice.sendToGroup('g1', { text: 'standup' });
+    alice.cancelMessage(result.messageId, 'carol');
+
+    const report = alice.getGroupDeliveryReport(result.messageId)!;
+    assert.equal(member(report, 'carol').status, 'cancelled');
+    assert.equal(report.complete, true);
+  });
+});
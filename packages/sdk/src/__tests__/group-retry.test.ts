@@ -0,0 +1,186 @@
+/**
+ * Tests for group message retries (t-126).
+ *
+ * t-126: Queued group members retry under the original group messageId,
+ *        one queue entry per member, with groupId + recipient in delivery-status.
+ *
+ * Uses node:test mock.timers to control time without real waits.
+ */
+
+import { describe, it, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions } from '../client.js';
+import { RetryQueue } from '../retry.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { DeliveryStatus, WireEnvelope } from '../types.js';
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+/** Flush microtasks so async queue processing completes. */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 3; i++) await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('t-126: Group retries keep the group messageId', () => {
+  const keys = { alice: genKeypair(), bob: genKeypair(), carol: genKeypair(), dave: genKeypair() };
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date', 'setInterval'] });
+  });
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+    mock.timers.reset();
+  });
+
+  /** Alice owns group g1 with Bob (online), Carol and Dave (offline until flipped). */
+  async function createAlice() {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-group-retry-'));
+    dirs.push(dir);
+    const online = new Set(['bob']);
+    const delivered: WireEnvelope[] = [];
+    const alice = new A2ANetwork({
+      username: 'alice',
+      privateKey: keys.alice.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => ({ ok: true, status: 200, data: (['bob', 'carol', 'dave'] as const).map((name) => ({
+          ...contactOf(name, keys[name].publicKeyBase64), online: online.has(name),
+        })) }),
+        getGroupMembers: async () => ({ ok: true, status: 200, data: ['alice', 'bob', 'carol', 'dave'].map((agent) => ({
+          agent, role: agent === 'alice' ? 'owner' : 'member', joinedAt: '',
+        })) as RelayGroupMember[] }),
+      }),
+      deliverFn: async (_ep, envelope) => {
+        if (!online.has(envelope.recipient)) return false;
+        delivered.push(envelope);
+        return true;
+      },
+      retryPolicy: { initialDelayMs: 10_000, maxAttempts: 3 },
+      receipts: false,
+      dataDir: join(dir, 'data'),
+    } as A2ANetworkInternalOptions);
+    networks.push(alice);
+    await alice.start();
+    return { alice, online, delivered };
+  }
+
+  it('step 1: offline members are queued under the group messageId', async () => {
+    const { alice } = await createAlice();
+    const statuses: DeliveryStatus[] = [];
+    alice.on('delivery-status', (s) => statuses.push(s));
+
+    const result = await alice.sendToGroup('g1', { text: 'standup' });
+    assert.deepEqual(result.delivered, ['bob']);
+    assert.deepEqual(result.queued.sort(), ['carol', 'dave']);
+
+    const queued = alice.getQueuedMessages();
+    assert.equal(queued.length, 2);
+    assert.ok(queued.every((m) => m.messageId === result.messageId && m.groupId === 'g1'));
+
+    assert.deepEqual(
+      statuses.map((s) => [s.messageId, s.status, s.recipient, s.groupId]).sort(),
+      [[result.messageId, 'pending', 'carol', 'g1'], [result.messageId, 'pending', 'dave', 'g1']],
+    );
+  });
+
+  it('step 2: retried envelope carries the original messageId and groupId', async () => {
+    const { alice, online, delivered } = await createAlice();
+    const statuses: DeliveryStatus[] = [];
+    alice.on('delivery-status', (s) => statuses.push(s));
+
+    const result = await alice.sendToGroup('g1', { text: 'standup' });
+    online.add('carol');
+    mock.timers.tick(10_000);
+    await flush();
+
+    const toCarol = delivered.filter((e) => e.recipient === 'carol');
+    assert.equal(toCarol.length, 1);
+    assert.equal(toCarol[0]!.messageId, result.messageId);
+    assert.equal(toCarol[0]!.type, 'group');
+    assert.equal(toCarol[0]!.groupId, 'g1');
+
+    const carolDelivered = statuses.find((s) => s.status === 'delivered');
+    assert.deepEqual(carolDelivered, { messageId: result.messageId, status: 'delivered', attempts: 1, recipient: 'carol', groupId: 'g1' });
+    assert.deepEqual(alice.getQueuedMessages().map((m) => m.recipient), ['dave'], 'dave still queued');
+  });
+
+  it('step 3: cancelMessage can target one member of a group message', async () => {
+    const { alice } = await createAlice();
+    const result = await alice.sendToGroup('g1', { text: 'standup' });
+
+    assert.equal(alice.cancelMessage(result.messageId, 'carol'), true);
+    assert.deepEqual(alice.getQueuedMessages().map((m) => m.recipient), ['dave']);
+    assert.equal(alice.cancelMessage(result.messageId), true);
+    assert.equal(alice.getQueuedMessages().length, 0);
+  });
+
+  it('step 4: re-enqueueing the same (messageId, recipient) is deduplicated', () => {
+    const queue = new RetryQueue(10);
+    const events: DeliveryStatus[] = [];
+    queue.on('delivery-status', (e) => events.push(e));
+
+    assert.equal(queue.enqueue('m1', 'carol', {}, 'g1'), true);
+    assert.equal(queue.enqueue('m1', 'carol', {}, 'g1'), true);
+    assert.equal(queue.enqueue('m1', 'dave', {}, 'g1'), true);
+    assert.equal(queue.size, 2);
+    assert.equal(events.length, 2, 'one pending event per member');
+    queue.stop();
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Tests for end-to-end identity rotation (t-143).
+ *
+ * t-143: rotateIdentity() generates a key, rotates it on the default-key
+ * relays, switches envelope and relay signing, notifies contacts, keeps the
+ * old key for late messages, retries or rolls back on relay failures, and
+ * reports contacts it couldn't notify without failing the rotation.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, createPublicKey, createHash, verify } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions, type ContactKeyChangedEvent } from '../client.js';
+import { Keystore, getKeystorePath } from '../keystore.js';
+import { LocalSigner } from '../signer.js';
+import { buildEnvelope } from '../messaging.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { KeyRotationResult, Message, WireEnvelope } from '../types.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+const flush = () => new Promise((r) => setImmediate(r));
+
+describe('t-143: End-to-end identity rotation', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  const companyKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  function tempDir(): string {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-rotate-identity-'));
+    dirs.push(dir);
+    return dir;
+  }
+
+  /**
+   * Alice (home + public on her default key, company on its own key) and Bob
+   * (home), wired through handleEnvelope(). The relays share one key
+   * directory; `rotate` decides each relay's answer to rotateKey().
+   */
+  async function createPair(opts: {
+    alice?: Partial<A2ANetworkInternalOptions>;
+    bob?: Partial<A2ANetworkInternalOptions>;
+    rotate?: (community: string, publicKey: string) => RelayResponse;
+    keystore?: string;
+    /** More contacts of Alice's on home; they have no client, so delivery to them fails */
+    extraContacts?: RelayContact[];
+  } = {}) {
+    const dir = tempDir();
+    const keys: Record<string, string> = { alice: aliceKp.publicKeyBase64, bob: bobKp.publicKeyBase64 };
+    const rotations: Array<{ community: string; publicKey: string }> = [];
+    const received: Record<string, Message[]> = { alice: [], bob: [] };
+    const nets: Record<string, A2ANetwork> = {};
+
+    const relay = (self: string, peer: string, community: string) => createMockRelayAPI({
+      getContacts: async () => ({
+        ok: true,
+        status: 200,
+        data: community === 'company' ? [] : [
+          contactOf(peer, keys[peer]!),
+          ...(self === 'alice' && community === 'home' ? opts.extraContacts ?? [] : []),
+        ],
+      }),
+      rotateKey: async (_agent: string, publicKey: string) => {
+        rotations.push({ community, publicKey });
+        const result = opts.rotate?.(community, publicKey) ?? { ok: true, status: 200 };
+        // The shared directory follows the home relay
+        if (result.ok && community === 'home') keys[self] = publicKey;
+        return result;
+      },
+    });
+    const deliverFn = async (_endpoint: string, envelope: WireEnvelope) => {
+      if (!nets[envelope.recipient]) return false;
+      const res = await nets[envelope.recipient]!.handleEnvelope(envelope);
+      return res.status < 300 || res.status === 409;
+    };
+
+    const aliceOptions = {
+      username: 'alice',
+      endpoint: 'https://alice.example.com/inbox',
+      communities: [
+        { name: 'home', primary: 'https://relay.home.example' },
+        { name: 'public', primary: 'https://relay.public.example' },
+        { name: 'company', primary: 'https://relay.company.example', privateKey: companyKp.privateKeyDer },
+      ],
+      relayAPIs: {
+        'home:primary': relay('alice', 'bob', 'home'),
+        'public:primary': relay('alice', 'bob', 'public'),
+        'company:primary': relay('alice', 'bob', 'company'),
+      },
+      deliverFn,
+      dataDir: join(dir, 'alice'),
+      ...opts.alice,
+    } as A2ANetworkInternalOptions;
+    const alice = opts.keystore
+      ? A2ANetwork.fromKeystore(opts.keystore, 'passphrase', aliceOptions)
+      : new A2ANetwork({ ...aliceOptions, privateKey: aliceKp.privateKeyDer });
+    const bob = new A2ANetwork({
+      username: 'bob',
+      privateKey: bobKp.privateKeyDer,
+      endpoint: 'https://bob.example.com/inbox',
+      relayUrl: 'https://relay.home.example',
+      relayAPI: relay('bob', 'alice', 'home'),
+      deliverFn,
+      dataDir: join(dir, 'bob'),
+      ...opts.bob,
+    } as A2ANetworkInternalOptions);
+    nets.alice = alice;
+    nets.bob = bob;
+    for (const [name, net] of Object.entries(nets)) {
+      net.on('message', (msg: Message) => received[name]!.push(msg));
+      networks.push(net);
+    }
+    await alice.start();
+    await bob.start();
+    return { alice, bob, keys, rotations, received };
+  }
+
+  it('step 1: rotates the default-key relays, switches keys and notifies contacts', async () => {
+    const { alice, bob, keys, rotations, received } = await createPair();
+    const changes: ContactKeyChangedEvent[] = [];
+    bob.on('contact:key-changed', (event: ContactKeyChangedEvent) => changes.push(event));
+    const before = alice.getSafetyNumber('bob');
+
+    const result = await alice.rotateIdentity();
+
+    assert.notEqual(result.publicKey, aliceKp.publicKeyBase64);
+    assert.equal(new LocalSigner(result.privateKey).publicKey, result.publicKey);
+    assert.deepEqual(rotations, [
+      { community: 'home', publicKey: result.publicKey },
+      { community: 'public', publicKey: result.publicKey },
+    ]);
+    assert.deepEqual(result.results.map((r) => [r.community, r.success]), [['home', true], ['public', true]]);
+    assert.equal(keys.alice, result.publicKey);
+
+    // Bob re-fetched Alice's key on the notice
+    assert.deepEqual(result.notified, ['bob']);
+    assert.deepEqual(result.noticeFailures, []);
+    assert.equal(bob.getCachedContact('alice')!.publicKey, result.publicKey);
+    assert.equal(changes.length, 1);
+    assert.notEqual(alice.getSafetyNumber('bob'), before);
+    assert.equal(alice.getSafetyNumber('bob'), bob.getSafetyNumber('alice'));
+
+    // Both directions work under the new key
+    assert.equal((await alice.send('bob', { n: 1 })).status, 'delivered');
+    assert.equal((await bob.send('alice', { n: 2 })).status, 'delivered');
+    assert.deepEqual(received.bob.map((m) => m.payload.n), [1]);
+    assert.deepEqual(received.alice.map((m) => m.payload.n), [2]);
+  });
+
+  it('step 2: the old key decrypts late messages during the grace period only', async () => {
+    const late = () => buildEnvelope({
+      sender: 'bob',
+      recipient: 'alice',
+      payload: { late: true },
+      senderPrivateKey: bobKp.privateKey,
+      recipientPublicKeyBase64: aliceKp.publicKeyBase64,
+      forwardSecret: true,
+    });
+
+    const { alice } = await createPair();
+    const envelope = late();
+    await alice.rotateIdentity();
+    assert.deepEqual(alice.receiveMessage(envelope, { receipt: false })!.payload, { late: true });
+
+    const strict = await createPair({ alice: { rotationGracePeriod: 0 } });
+    const expired = late();
+    await strict.alice.rotateIdentity();
+    assert.throws(() => strict.alice.receiveMessage(expired, { receipt: false }));
+  });
+
+  it('step 3: relay requests are signed with the new key', async () => {
+    const dir = tempDir();
+    const requests: Array<{ url: string; method: string; headers: Record<string, string>; body: string }> = [];
+    const realFetch = globalThis.fetch;
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      requests.push({ url, method: init.method!, headers: init.headers as Record<string, string>, body: (init.body as string) ?? '' });
+      return new Response('[]', { status: 200 });
+    }) as typeof fetch;
+    try {
+      const alice = new A2ANetwork({
+        username: 'alice',
+        privateKey: aliceKp.privateKeyDer,
+        endpoint: 'https://alice.example.com/inbox',
+        relayUrl: 'https://relay.example.com',
+        dataDir: join(dir, 'alice'),
+      });
+      networks.push(alice);
+      const { publicKey } = await alice.rotateIdentity();
+      await alice.getPendingRequests();
+
+      const signedBy = (request: typeof requests[number], key: string) => {
+        const [, sig] = request.headers['Authorization']!.replace('Signature ', '').split(':');
+        const path = new URL(request.url).pathname;
+        const signingString = `${request.method} ${path}\n${request.headers['X-Timestamp']}\n${createHash('sha256').update(request.body).digest('hex')}`;
+        return verify(null, Buffer.from(signingString), createPublicKey({ key: Buffer.from(key, 'base64'), format: 'der', type: 'spki' }), Buffer.from(sig!, 'base64'));
+      };
+      const [rotation, pending] = requests;
+      assert.equal(JSON.parse(rotation!.body).newPublicKey, publicKey);
+      assert.ok(signedBy(rotation!, aliceKp.publicKeyBase64));
+      assert.ok(signedBy(pending!, publicKey));
+    } finally {
+      globalThis.fetch = realFetch;
+    }
+  });
+
+  it('step 4: a relay that fails is retried', async () => {
+    let publicFailures = 1;
+    const { alice, rotations } = await createPair({
+      rotate: (community) => (community === 'public' && publicFailures-- > 0
+        ? { ok: false, status: 503, error: 'Unavailable' }
+        : { ok: true, status: 200 }),
+    });
+
+    const result = await alice.rotateIdentity();
+    assert.deepEqual(rotations.map((r) => r.community), ['home', 'public', 'public']);
+    assert.ok(result.results.every((r) => r.success));
+  });
+
+  it('step 5: a relay that keeps failing rolls the others back', async () => {
+    const { alice, bob, keys, rotations, received } = await createPair({
+      rotate: (community) => (community === 'public' ? { ok: false, status: 503, error: 'Unavailable' } : { ok: true, status: 200 }),
+    });
+
+    await assert.rejects(alice.rotateIdentity({ retries: 1 }), /Identity rotation failed on: public/);
+    const newKey = rotations[0]!.publicKey;
+    assert.deepEqual(rotations, [
+      { community: 'home', publicKey: newKey },
+      { community: 'public', publicKey: newKey },
+      { community: 'public', publicKey: newKey },
+      { community: 'home', publicKey: aliceKp.publicKeyBase64 },
+    ]);
+    assert.equal(keys.alice, aliceKp.publicKeyBase64);
+
+    // Still on the old key
+    assert.equal((await alice.send('bob', { n: 1 })).status, 'delivered');
+    assert.deepEqual(received.bob.map((m) => m.payload.n), [1]);
+    assert.equal(bob.getCachedContact('alice')!.publicKey, aliceKp.publicKeyBase64);
+  });
+
+  it('step 6: a failed rollback is reported with key:rotation-partial', async () => {
+    const { alice } = await createPair({
+      rotate: (community, publicKey) => (community === 'public' || publicKey === aliceKp.publicKeyBase64
+        ? { ok: false, status: 503, error: 'Unavailable' }
+        : { ok: true, status: 200 }),
+    });
+    const partial: KeyRotationResult[] = [];
+    alice.on('key:rotation-partial', (event: KeyRotationResult) => partial.push(event));
+
+    await assert.rejects(alice.rotateIdentity({ retries: 0 }), /Identity rotation failed on: public/);
+    assert.equal(partial.length, 1);
+    assert.deepEqual(partial[0]!.results.map((r) => [r.community, r.success]), [['home', true], ['public', false]]);
+  });
+
+  it('step 7: ratchet sessions continue across the rotation', async () => {
+    const { alice, bob, received } = await createPair({ alice: { ratchet: true }, bob: { ratchet: true } });
+    await alice.send('bob', { n: 0 });
+    await bob.send('alice', { n: 1 });
+    await alice.send('bob', { n: 2 });
+
+    await alice.rotateIdentity();
+    await alice.send('bob', { n: 3 });
+    await bob.send('alice', { n: 4 });
+    await alice.send('bob', { n: 5 });
+
+    assert.deepEqual(received.bob.map((m) => [m.payload.n, m.encryption]), [[0, 'static'], [2, 'ratchet'], [3, 'ratchet'], [5, 'ratchet']]);
+    assert.deepEqual(received.alice.map((m) => [m.payload.n, m.encryption]), [[1, 'ratchet'], [4, 'ratchet']]);
+  });
+
+  it('step 8: a keystore gets the new key; a signer identity is refused', async () => {
+    const dir = tempDir();
+    const path = getKeystorePath(join(dir, 'keystore'));
+    Keystore.create(path, 'passphrase', { privateKey: aliceKp.privateKeyDer, communities: { company: companyKp.privateKeyDer } }, { cost: 2 ** 10 });
+    const { alice } = await createPair({ keystore: path });
+
+    const { privateKey } = await alice.rotateIdentity();
+    const keys = Keystore.open(path, 'passphrase').keys();
+    assert.deepEqual(keys.privateKey, privateKey);
+    assert.deepEqual(keys.communities, { company: companyKp.privateKeyDer });
+
+    const withSigner = new A2ANetwork({
+      username: 'carol',
+      signer: new LocalSigner(aliceKp.privateKeyDer),
+      endpoint: 'https://carol.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI(),
+      dataDir: join(dir, 'carol'),
+    } as A2ANetworkInternalOptions);
+    networks.push(withSigner);
+    await assert.rejects(withSigner.rotateIdentity(), /requires a privateKey identity/);
+  });
+
+  it('step 9: contacts that miss the notice are reported, the rotation still succeeds', async () => {
+    const daveKp = genKeypair();
+    const { alice, bob, keys } = await createPair({
+      extraContacts: [contactOf('carol', 'not-a-key'), contactOf('dave', daveKp.publicKeyBase64)],
+    });
+
+    const result = await alice.rotateIdentity();
+
+    assert.equal(keys.alice, result.publicKey);
+    assert.deepEqual(result.notified, ['bob']);
+    assert.deepEqual(result.noticeFailures.map((f) => f.contact), ['carol', 'dave']);
+    assert.match(result.noticeFailures[0]!.error, /^Could not build notice: /);
+    assert.deepEqual(result.noticeFailures[1], { contact: 'dave', error: 'Delivery failed' });
+    // The switch stands: Bob got the notice and talks to the new key
+    assert.equal(bob.getCachedContact('alice')!.publicKey, result.publicKey);
+    assert.equal((await alice.send('bob', { n: 1 })).status, 'delivered');
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Tests for the built-in inbound inbox (t-120).
+ *
+ * t-120: Inbox HTTP server dispatches envelopes by type with proper status codes.
+ *
+ * Uses a real node:http server on an ephemeral port and fetch() as the sending agent.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, createPrivateKey } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { AddressInfo } from 'node:net';
+
+import { A2ANetwork, type A2ANetworkInternalOptions } from '../client.js';
+import { buildEnvelope } from '../messaging.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { Message, WireEnvelope } from '../types.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+describe('t-120: Inbox HTTP server dispatches envelopes by type', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  const charlieKp = genKeypair();
+  let cleanups: Array<{ dir: string; networks: A2ANetwork[] }> = [];
+
+  afterEach(async () => {
+    for (const { networks, dir } of cleanups) {
+      for (const n of networks) {
+        try { await n.stop(); } catch { /* ignore */ }
+      }
+      rmSync(dir, { recursive: true, force: true });
+    }
+    cleanups = [];
+  });
+
+  /** Start Bob with Alice as his only contact and listen on an ephemeral port. */
+  async function startBob(relayOverrides?: Partial<IRelayAPI>) {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-inbox-'));
+    const bob = new A2ANetwork({
+      username: 'bob',
+      privateKey: bobKp.privateKeyDer,
+      endpoint: 'https://bob.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => ({ ok: true, status: 200, data: [contactOf('alice', aliceKp.publicKeyBase64)] }),
+        getGroupMembers: async () => ({ ok: true, status: 200, data: [
+          { agent: 'alice', role: 'owner', joinedAt: '' },
+          { agent: 'bob', role: 'member', joinedAt: '' },
+        ] }),
+        ...relayOverrides,
+      }),
+      deliverFn: async () => true,
+      dataDir: join(dir, 'data'),
+    } as A2ANetworkInternalOptions);
+    cleanups.push({ dir, networks: [bob] });
+
+    await bob.start();
+    const server = await bob.listen(0, '127.0.0.1');
+    const { port } = server.address() as AddressInfo;
+    return { bob, url: `http://127.0.0.1:${port}/` };
+  }
+
+  function envelopeFrom(
+    senderKp: ReturnType<typeof genKeypair>,
+    sender: string,
+    opts: Partial<{ type: WireEnvelope['type']; groupId: string; messageId: string }> = {},
+  ): WireEnvelope {
+    return buildEnvelope({
+      sender,
+      recipient: 'bob',
+      payload: { text: `hello from ${sender}` },
+      senderPrivateKey: createPrivateKey({ key: senderKp.privateKeyDer, format: 'der', type: 'pkcs8' }),
+      recipientPublicKeyBase64: bobKp.publicKeyBase64,
+      ...opts,
+    });
+  }
+
+  async function post(url: string, body: unknown) {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() as Record<string, unknown> };
+  }
+
+  it('step 1: valid direct envelope → 200 and message event', async () => {
+    const { bob, url } = await startBob();
+    const messages: Message[] = [];
+    bob.on('message', (m) => messages.push(m));
+
+    const envelope = envelopeFrom(aliceKp, 'alice');
+    const res = await post(url, envelope);
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.messageId, envelope.messageId);
+    assert.equal(messages.length, 1);
+    assert.deepEqual(messages[0]!.payload, { text: 'hello from alice' });
+  });
+
+  it('step 2: malformed JSON and invalid envelopes → 400', async () => {
+    const { url } = await startBob();
+
+    const garbage = await post(url, '{not json');
+    assert.equal(garbage.status, 400);
+    assert.equal(garbage.body.error, 'Invalid JSON');
+
+    const invalid = await post(url, { version: '2.0', type: 'direct' });
+    assert.equal(invalid.status, 400);
+    assert.equal(invalid.body.error, 'Invalid envelope structure');
+
+    const tampered = { ...envelopeFrom(aliceKp, 'alice'), signature: Buffer.from('bad').toString('base64') };
+    const bad = await post(url, tampered);
+    assert.equal(bad.status, 400);
+    assert.match(String(bad.body.error), /Invalid signature/);
+  });
+
+  it('step 3: envelope from a non-contact → 403', async () => {
+    const { bob, url } = await startBob();
+    const messages: Message[] = [];
+    bob.on('message', (m) => messages.push(m));
+
+    const res = await post(url, envelopeFrom(charlieKp, 'charlie'));
+    assert.equal(res.status, 403);
+    assert.equal(messages.length, 0);
+  });
+
+  it('step 4: duplicate group message → 409', async () => {
+    const { url } = await startBob();
+    const envelope = envelopeFrom(aliceKp, 'alice', { type: 'group', groupId: 'g1' });
+
+    const first = await post(url, envelope);
+    assert.equal(first.status, 200);
+
+    const second = await post(url, envelope);
+    assert.equal(second.status, 409);
+  });
+
+  it('step 5: contact-request hint triggers a relay poll → 202', async () => {
+    let polled = 0;
+    const { bob, url } = await startBob({
+      getPendingRequests: async () => {
+        polled++;
+        return { ok: true, status: 200, data: [{ from: 'charlie', requesterEmail: null, createdAt: '' }] };
+      },
+    });
+    const requests: string[] = [];
+    bob.on('contact-request', (r) => requests.push(r.from));
+
+    const res = await post(url, envelopeFrom(charlieKp, 'charlie', { type: 'contact-request' }));
+    assert.equal(res.status, 202);
+    assert.equal(polled, 1);
+    assert.deepEqual(requests, ['charlie']);
+  });
+
+  it('step 6: non-POST → 405, oversized body → 413', async () => {
+    const { url } = await startBob();
+
+    const get = await fetch(url);
+    assert.equal(get.status, 405);
+    assert.equal(get.headers.get('allow'), 'POST');
+    await get.body?.cancel();
+
+    const huge = await post(url, { padding: 'x'.repeat(1024 * 1024 + 1) });
+    assert.equal(huge.status, 413);
+  });
+
+  it('step 7: handleEnvelope works without an HTTP server', async () => {
+    const { bob } = await startBob();
+    const res = await bob.handleEnvelope(envelopeFrom(aliceKp, 'alice'));
+    assert.equal(res.status, 200);
+
+    const misaddressed = { ...envelopeFrom(aliceKp, 'alice'), recipient: 'someone-else' };
+    const res2 = await bob.handleEnvelope(misaddressed);
+    assert.equal(res2.status, 400);
+  });
+});
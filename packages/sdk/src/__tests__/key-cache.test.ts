@@ -0,0 +1,265 @@
+/**
+ * Tests for the derived key cache (t-135) and its sendToGroup() benchmark (t-136).
+ *
+ * t-135: Cached keys match fresh derivations, entries are LRU-bounded, and
+ * they are dropped when a contact's key changes or ours is rotated.
+ * t-136: A 50-member group fan-out with a warm cache derives no keys (timings
+ * are reported as diagnostics, not asserted).
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { performance } from 'node:perf_hooks';
+
+import { A2ANetwork, type A2ANetworkInternalOptions } from '../client.js';
+import { KeyCache } from '../key-cache.js';
+import { buildEnvelope, processEnvelope, decodePublicKeyRaw } from '../messaging.js';
+import { deriveSharedKey, ed25519PrivToX25519, ed25519PubToX25519, getEd25519RawKeys } from '../crypto.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+describe('t-135: Derived key cache', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  it('step 1: cached keys match fresh derivations from either side', () => {
+    const cache = new KeyCache();
+    const aliceX = ed25519PrivToX25519(getEd25519RawKeys(aliceKp.privateKey).seed);
+    const bobX = ed25519PubToX25519(decodePublicKeyRaw(bobKp.publicKeyBase64));
+    const expected = deriveSharedKey(aliceX, bobX, 'alice', 'bob');
+
+    assert.deepEqual(cache.sharedKey(aliceKp.privateKey, bobKp.publicKeyBase64, 'alice', 'bob'), expected);
+    assert.deepEqual(cache.sharedKey(aliceKp.privateKey, bobKp.publicKeyBase64, 'bob', 'alice'), expected, 'same pair, either direction');
+    assert.deepEqual(cache.peerX25519(bobKp.publicKeyBase64), bobX);
+    assert.equal(cache.size, 2, 'one shared key + one X25519 conversion');
+  });
+
+  it('step 2: envelopes round-trip through caches on both sides', () => {
+    const aliceCache = new KeyCache();
+    const bobCache = new KeyCache();
+    for (const forwardSecret of [false, true, false]) {
+      const envelope = buildEnvelope({
+        sender: 'alice',
+        recipient: 'bob',
+        payload: { forwardSecret },
+        senderPrivateKey: aliceKp.privateKey,
+        recipientPublicKeyBase64: bobKp.publicKeyBase64,
+        forwardSecret,
+        keyCache: aliceCache,
+      });
+      const processed = processEnvelope({
+        envelope,
+        recipientPrivateKey: bobKp.privateKey,
+        senderPublicKeyBase64: aliceKp.publicKeyBase64,
+        keyCache: bobCache,
+      });
+      assert.deepEqual(processed.payload, { forwardSecret });
+    }
+  });
+
+  it('step 3: entries are evicted least recently used first', () => {
+    const cache = new KeyCache(2);
+    const peers = [genKeypair(), genKeypair(), genKeypair()];
+    const first = cache.peerX25519(peers[0]!.publicKeyBase64);
+    cache.peerX25519(peers[1]!.publicKeyBase64);
+    assert.equal(cache.peerX25519(peers[0]!.publicKeyBase64), first, 'hit returns the cached buffer');
+    cache.peerX25519(peers[2]!.publicKeyBase64);
+
+    assert.equal(cache.size, 2);
+    assert.equal(cache.peerX25519(peers[0]!.publicKeyBase64), first, 'recently used entry kept');
+    assert.equal(new KeyCache(0).peerX25519(peers[0]!.publicKeyBase64) === first, false, 'size 0 never caches');
+  });
+
+  it('step 4: invalidate() drops every entry for a peer key', () => {
+    const cache = new KeyCache();
+    cache.sharedKey(aliceKp.privateKey, bobKp.publicKeyBase64, 'alice', 'bob');
+    cache.peerX25519(aliceKp.publicKeyBase64);
+    assert.equal(cache.invalidate(bobKp.publicKeyBase64), 2);
+    assert.equal(cache.size, 1);
+    cache.clear();
+    assert.equal(cache.size, 0);
+  });
+
+  it('step 5: the client drops entries when a contact key changes or ours rotates', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-keycache-'));
+    dirs.push(dir);
+    let bobKey = bobKp.publicKeyBase64;
+    const alice = new A2ANetwork({
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => ({ ok: true, status: 200, data: [contactOf('bob', bobKey)] }),
+      }),
+      deliverFn: async () => true,
+      dataDir: join(dir, 'alice'),
+    } as A2ANetworkInternalOptions);
+    networks.push(alice);
+    const keyCache = (alice as unknown as { keyCache: KeyCache }).keyCache;
+
+    await alice.start();
+    await alice.send('bob', { n: 1 });
+    assert.equal(keyCache.size, 2);
+
+    bobKey = genKeypair().publicKeyBase64;
+    await alice.getContacts();
+    assert.equal(keyCache.size, 0, 'old key entries dropped');
+
+    await alice.send('bob', { n: 2 });
+    assert.equal(keyCache.size, 2);
+    await alice.rotateKey(genKeypair().publicKeyBase64);
+    assert.equal(keyCache.size, 0);
+
+    assert.throws(() => new A2ANetwork({
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI(),
+      keyCacheSize: -1,
+    } as A2ANetworkInternalOptions), /keyCacheSize must be >= 0/);
+  });
+});
+
+describe('t-136: Key cache benchmark — sendToGroup() fan-out', () => {
+  const MEMBERS = 50;
+  const ROUNDS = 5;
+  const ownerKp = genKeypair();
+  const memberKps = Array.from({ length: MEMBERS }, () => genKeypair());
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  /** Owner of a group with MEMBERS online contacts; deliveries are no-ops. */
+  async function createOwner(keyCacheSize: number | undefined) {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-keybench-'));
+    dirs.push(dir);
+    const contacts = memberKps.map((kp, i) => contactOf(`member${i}`, kp.publicKeyBase64));
+    const owner = new A2ANetwork({
+      username: 'owner',
+      privateKey: ownerKp.privateKeyDer,
+      endpoint: 'https://owner.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => ({ ok: true, status: 200, data: contacts }),
+        getGroupMembers: async () => ({ ok: true, status: 200, data: contacts.map((c) => ({ agent: c.agent, role: 'member', joinedAt: '' }) as RelayGroupMember) }),
+      }),
+      deliverFn: async () => true,
+      dataDir: join(dir, 'owner'),
+      presenceTtl: 60_000,
+      ...(keyCacheSize !== undefined && { keyCacheSize }),
+    } as A2ANetworkInternalOptions);
+    networks.push(owner);
+    await owner.start();
+    return owner;
+  }
+
+  /**
+   * ROUNDS fan-outs after one warm-up send: the key derivations they ran
+   * (asserted on) and their wall-clock time (reported only, as it depends on
+   * the machine).
+   */
+  async function fanOut(owner: A2ANetwork): Promise<{ derivations: number; ms: number }> {
+    const keyCache = (owner as unknown as { keyCache: KeyCache }).keyCache;
+    const warmUp = await owner.sendToGroup('g1', { n: 0 });
+    assert.equal(warmUp.delivered.length, MEMBERS);
+    const before = keyCache.derivations;
+    const start = performance.now();
+    for (let i = 1; i <= ROUNDS; i++) {
+      await owner.sendToGroup('g1', { n: i });
+    }
+    return { derivations: keyCache.derivations - before, ms: performance.now() - start };
+  }
+
+  it('step 1: a warm cache derives no keys for a 50-member fan-out', async (t) => {
+    const uncached = await fanOut(await createOwner(0));
+    const cached = await fanOut(await createOwner(undefined));
+    t.diagnostic(`${MEMBERS} members x ${ROUNDS} sends: uncached ${uncached.ms.toFixed(1)}ms, cached ${cached.ms.toFixed(1)}ms (${(uncached.ms / cached.ms).toFixed(2)}x)`);
+    // Uncached: an X25519 conversion and a shared key per member per send
+    assert.equal(uncached.derivations, 2 * MEMBERS * ROUNDS);
+    assert.equal(cached.derivations, 0);
+  });
+
+  it('step 2: forward-secret fan-out still reuses the X25519 conversions', async (t) => {
+    const run = async (keyCacheSize: number | undefined) => {
+      const owner = await createOwner(keyCacheSize);
+      // Members advertise 2.1, so every envelope gets a fresh ephemeral key
+      for (let i = 0; i < MEMBERS; i++) owner.getCachedContact(`member${i}`)!.maxVersion = '2.1';
+      return fanOut(owner);
+    };
+    const uncached = await run(0);
+    const cached = await run(undefined);
+    t.diagnostic(`${MEMBERS} members x ${ROUNDS} sends (v2.1): uncached ${uncached.ms.toFixed(1)}ms, cached ${cached.ms.toFixed(1)}ms (${(uncached.ms / cached.ms).toFixed(2)}x)`);
+    assert.ok(uncached.derivations >= MEMBERS * ROUNDS);
+    assert.equal(cached.derivations, 0);
+  });
+});
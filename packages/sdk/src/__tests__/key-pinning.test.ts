@@ -0,0 +1,284 @@
+/**
+ * Tests for trust-on-first-use key pinning (t-131).
+ *
+ * t-131: The first-seen key is pinned, relay key swaps emit
+ * contact:key-changed, and 'block-until-approved' refuses to encrypt to the
+ * new key until approveContactKey(), nor accept envelopes signed with it.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync, mkdirSync, writeFileSync } from 'node:fs';
+import { Readable } from 'node:stream';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions, type ContactKeyChangedEvent } from '../client.js';
+import { getCommunityCachePath } from '../cache.js';
+import { keyFingerprint } from '../crypto.js';
+import { buildEnvelope, MAX_SUPPORTED_VERSION } from '../messaging.js';
+import type { KeyChangePolicy } from '../types.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+describe('t-131: Trust-on-first-use key pinning', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  const malloryKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  /** Alice whose relay reports `relay.bobKey` for Bob; collects key-changed events. */
+  function createAlice(keyChangePolicy?: KeyChangePolicy, dataDir?: string) {
+    if (!dataDir) {
+      const dir = mkdtempSync(join(tmpdir(), 'a2a-pinning-'));
+      dirs.push(dir);
+      dataDir = join(dir, 'data');
+    }
+    const relay = { bobKey: bobKp.publicKeyBase64, delivered: 0 };
+    const alice = new A2ANetwork({
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => ({ ok: true, status: 200, data: [
+          { ...contactOf('bob', relay.bobKey), keyUpdatedAt: relay.bobKey === bobKp.publicKeyBase64 ? null : '2025-06-01T00:00:00.000Z' },
+        ] }),
+        getGroupMembers: async () => ({ ok: true, status: 200, data: [
+          { agent: 'alice', role: 'owner', joinedAt: '' },
+          { agent: 'bob', role: 'member', joinedAt: '' },
+        ] }),
+      }),
+      deliverFn: async () => {
+        relay.delivered++;
+        return true;
+      },
+      dataDir,
+      ...(keyChangePolicy && { keyChangePolicy }),
+    } as A2ANetworkInternalOptions);
+    networks.push(alice);
+
+    const events: ContactKeyChangedEvent[] = [];
+    alice.on('contact:key-changed', (e) => events.push(e));
+    return { alice, relay, events, dataDir };
+  }
+
+  it('step 1: first-seen key is pinned', async () => {
+    const { alice, events } = createAlice();
+    await alice.start();
+    assert.equal(alice.getCachedContact('bob')!.pinnedKey, bobKp.publicKeyBase64);
+    assert.equal(events.length, 0);
+  });
+
+  it('step 2: warn policy emits key-changed and trusts the new key', async () => {
+    const { alice, relay, events } = createAlice();
+    await alice.start();
+
+    relay.bobKey = malloryKp.publicKeyBase64;
+    const result = await alice.send('bob', { text: 'hi' });
+    assert.equal(result.status, 'delivered');
+
+    assert.deepEqual(events, [{
+      username: 'bob',
+      community: 'default',
+      oldFingerprint: keyFingerprint(bobKp.publicKeyBase64),
+      newFingerprint: keyFingerprint(malloryKp.publicKeyBase64),
+      keyUpdatedAt: '2025-06-01T00:00:00.000Z',
+      approved: true,
+    }]);
+    assert.equal(alice.getCachedContact('bob')!.pinnedKey, malloryKp.publicKeyBase64);
+
+    await alice.checkPresence('bob');
+    assert.equal(events.length, 1, 'reported once per change');
+  });
+
+  it('step 3: block-until-approved refuses to encrypt until approved', async () => {
+    const { alice, relay, events } = createAlice('block-until-approved');
+    await alice.start();
+
+    relay.bobKey = malloryKp.publicKeyBase64;
+    await alice.checkPresence('bob');
+    assert.equal(events.length, 1);
+    assert.equal(events[0]!.approved, false);
+
+    const direct = await alice.send('bob', { text: 'hi' });
+    assert.equal(direct.status, 'failed');
+    assert.match(direct.error!, /approveContactKey/);
+
+    const group = await alice.sendToGroup('g1', { text: 'hi all' });
+    assert.deepEqual(group.failed, ['bob']);
+    assert.equal(relay.delivered, 0, 'nothing encrypted to the unapproved key');
+
+    assert.equal(alice.approveContactKey('bob'), true);
+    assert.equal(alice.approveContactKey('bob'), false, 'nothing left to approve');
+    assert.equal((await alice.send('bob', { text: 'hi' })).status, 'delivered');
+  });
+
+  it('step 4: relay reverting to the pinned key lifts the block silently', async () => {
+    const { alice, relay, events } = createAlice('block-until-approved');
+    await alice.start();
+
+    relay.bobKey = malloryKp.publicKeyBase64;
+    await alice.checkPresence('bob');
+    relay.bobKey = bobKp.publicKeyBase64;
+    await alice.checkPresence('bob');
+    assert.equal((await alice.send('bob', { text: 'hi' })).status, 'delivered');
+    assert.equal(events.length, 1);
+  });
+
+  it('step 5: legacy cache entries pin the key they already had', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-pinning-'));
+    dirs.push(dir);
+    const dataDir = join(dir, 'data');
+    mkdirSync(dataDir, { recursive: true });
+    writeFileSync(getCommunityCachePath(dataDir, 'default'), JSON.stringify({
+      contacts: [{ username: 'bob', publicKey: bobKp.publicKeyBase64, endpoint: 'https://bob.example.com/inbox', addedAt: '2025-01-01', online: true, lastSeen: null }],
+      lastUpdated: '2025-01-01T00:00:00.000Z',
+    }));
+
+    const { alice, relay, events } = createAlice('block-until-approved', dataDir);
+    await alice.start();
+    relay.bobKey = malloryKp.publicKeyBase64;
+
+    assert.equal((await alice.send('bob', { text: 'hi' })).status, 'failed', 'the send\'s own refresh finds the change');
+    assert.equal(events.length, 1);
+    assert.equal(events[0]!.oldFingerprint, keyFingerprint(bobKp.publicKeyBase64));
+    assert.equal(relay.delivered, 0);
+  });
+
+  it('step 6: a key change found by the send\'s own refresh refuses that send', async () => {
+    const { alice, relay, events } = createAlice('block-until-approved');
+    await alice.start();
+
+    // No refresh in between: send() is the first to see the new key
+    relay.bobKey = malloryKp.publicKeyBase64;
+    const result = await alice.send('bob', { text: 'hi' });
+    assert.deepEqual(result, { status: 'failed', messageId: '', error: 'Contact key changed; approve it with approveContactKey()' });
+    assert.equal(events.length, 1);
+    assert.equal(relay.delivered, 0, 'nothing encrypted to either key');
+
+    alice.approveContactKey('bob');
+    assert.equal((await alice.send('bob', { text: 'hi' })).status, 'delivered');
+  });
+
+  it('step 7: fingerprints are stable 16x4 hex groups', () => {
+    const fp = keyFingerprint(bobKp.publicKeyBase64);
+    assert.match(fp, /^([0-9A-F]{4} ){15}[0-9A-F]{4}$/);
+    assert.equal(keyFingerprint(bobKp.publicKeyBase64), fp);
+    assert.notEqual(keyFingerprint(malloryKp.publicKeyBase64), fp);
+  });
+
+  it('step 8: unknown keyChangePolicy is rejected', () => {
+    assert.throws(() => createAlice('trust-everything' as KeyChangePolicy), /Invalid keyChangePolicy/);
+  });
+
+  it('step 9: block-until-approved accepts inbound traffic only under the pinned key', async () => {
+    const { alice, relay } = createAlice('block-until-approved');
+    await alice.start();
+    const received: string[] = [];
+    alice.on('message', (m) => received.push(String(m.payload.text)));
+    alice.on('group-message', (m) => received.push(String(m.payload.text)));
+
+    relay.bobKey = malloryKp.publicKeyBase64;
+    await alice.checkPresence('bob');
+
+    // Mallory (holding the key the relay swapped in) poses as Bob on every inbound path
+    const asBob = (signer: ReturnType<typeof genKeypair>, type: 'direct' | 'group' | 'receipt' | 'file-chunk', payload: Record<string, unknown>) => buildEnvelope({
+      sender: 'bob',
+      recipient: 'alice',
+      payload,
+      senderPrivateKey: signer.privateKey,
+      recipientPublicKeyBase64: aliceKp.publicKeyBase64,
+      type,
+      ...(type === 'group' && { groupId: 'g1' }),
+    });
+    for (const [type, payload] of [
+      ['direct', { text: 'forged direct' }],
+      ['group', { text: 'forged group' }],
+      ['receipt', { receiptFor: 'm1', receivedAt: new Date().toISOString(), digest: 'x' }],
+      ['file-chunk', { transferId: 't1', index: 0 }],
+    ] as const) {
+      const response = await alice.handleEnvelope(asBob(malloryKp, type, payload));
+      assert.equal(response.status, 400, `${type} signed with the unapproved key is rejected`);
+    }
+    assert.deepEqual(received, []);
+
+    // The real Bob, still on the pinned key, gets through
+    assert.equal((await alice.handleEnvelope(asBob(bobKp, 'direct', { text: 'genuine' }))).status, 200);
+    assert.deepEqual(received, ['genuine']);
+
+    // Once approved, the new key is the one trusted
+    alice.approveContactKey('bob');
+    assert.equal((await alice.handleEnvelope(asBob(malloryKp, 'direct', { text: 'after approval' }))).status, 200);
+    assert.equal((await alice.handleEnvelope(asBob(bobKp, 'direct', { text: 'old key' }))).status, 400);
+  });
+
+  it('step 10: a key change found by sendFile()\'s own refresh sends no chunk', async () => {
+    const { alice, relay, events } = createAlice('block-until-approved');
+    await alice.start();
+    alice.getCachedContact('bob')!.maxVersion = MAX_SUPPORTED_VERSION;
+
+    relay.bobKey = malloryKp.publicKeyBase64;
+    const result = await alice.sendFile('bob', Readable.from([Buffer.from('hello')]));
+    assert.equal(result.status, 'failed');
+    assert.match(result.error!, /approveContactKey/);
+    assert.equal(events.length, 1);
+    assert.equal(relay.delivered, 0);
+  });
+});
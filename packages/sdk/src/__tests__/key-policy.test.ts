@@ -0,0 +1,311 @@
+/**
+ * Tests for the key lifecycle policy (t-144).
+ *
+ * t-144: keyPolicy tracks when each key went into use under dataDir, emits
+ * 'key:expiring' once per key, and with autoRotate rotates the default key
+ * and each community key on its own schedule.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync, statSync, mkdirSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions, type KeyRotatedEvent, type KeyRotationFailedEvent } from '../client.js';
+import { Keystore, getKeystorePath } from '../keystore.js';
+import { LocalSigner } from '../signer.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { KeyStatus } from '../types.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('t-144: Key lifecycle policy', () => {
+  const aliceKp = genKeypair();
+  const companyKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  function tempDir(): string {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-key-policy-'));
+    dirs.push(dir);
+    return dir;
+  }
+
+  /** Pretend keys went into use `ageDays` ago. */
+  function ageKeys(dataDir: string, ages: Record<string, number>): void {
+    mkdirSync(dataDir, { recursive: true });
+    const keys = Object.fromEntries(Object.entries(ages).map(([publicKey, ageDays]) => [publicKey, { createdAt: Date.now() - ageDays * DAY }]));
+    writeFileSync(join(dataDir, 'key-ages.json'), JSON.stringify({ keys }));
+  }
+
+  /**
+   * Alice with home + public on her default key and company on its own key.
+   * `rotate` decides each relay's answer to rotateKey().
+   */
+  function createAlice(opts: {
+    dataDir?: string;
+    options?: Partial<A2ANetworkInternalOptions>;
+    rotate?: (community: string, publicKey: string) => RelayResponse;
+    keystore?: string;
+  } = {}) {
+    const rotations: Array<{ community: string; publicKey: string }> = [];
+    const relay = (community: string) => createMockRelayAPI({
+      rotateKey: async (_agent: string, publicKey: string) => {
+        rotations.push({ community, publicKey });
+        return opts.rotate?.(community, publicKey) ?? { ok: true, status: 200 };
+      },
+    });
+    const options = {
+      username: 'alice',
+      endpoint: 'https://alice.example.com/inbox',
+      communities: [
+        { name: 'home', primary: 'https://relay.home.example' },
+        { name: 'public', primary: 'https://relay.public.example' },
+        { name: 'company', primary: 'https://relay.company.example', ...(!opts.keystore && { privateKey: companyKp.privateKeyDer }) },
+      ],
+      relayAPIs: {
+        'home:primary': relay('home'),
+        'public:primary': relay('public'),
+        'company:primary': relay('company'),
+      },
+      dataDir: opts.dataDir ?? tempDir(),
+      keyPolicy: { maxKeyAge: 90 * DAY, notifyBefore: 10 * DAY, autoRotate: true },
+      ...opts.options,
+    } as A2ANetworkInternalOptions;
+    const alice = opts.keystore
+      ? A2ANetwork.fromKeystore(opts.keystore, 'passphrase', options)
+      : new A2ANetwork({ ...options, privateKey: aliceKp.privateKeyDer });
+    networks.push(alice);
+    const events = { expiring: [] as KeyStatus[], rotated: [] as KeyRotatedEvent[], failed: [] as KeyRotationFailedEvent[] };
+    alice.on('key:expiring', (status: KeyStatus) => events.expiring.push(status));
+    alice.on('key:rotated', (event: KeyRotatedEvent) => events.rotated.push(event));
+    alice.on('key:rotation-failed', (event: KeyRotationFailedEvent) => events.failed.push(event));
+    return { alice, rotations, events, dataDir: options.dataDir! };
+  }
+
+  it('step 1: validates the policy', () => {
+    const base = {
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      dataDir: tempDir(),
+    };
+    assert.throws(() => new A2ANetwork({ ...base, keyPolicy: { maxKeyAge: 0 } }), /keyPolicy.maxKeyAge must be > 0/);
+    assert.throws(() => new A2ANetwork({ ...base, keyPolicy: { maxKeyAge: DAY, notifyBefore: -1 } }), /keyPolicy.notifyBefore must be >= 0/);
+    assert.throws(() => new A2ANetwork({ ...base, keyPolicy: { maxKeyAge: DAY, rotationWindow: NaN } }), /keyPolicy.rotationWindow must be >= 0/);
+
+    const withoutPolicy = new A2ANetwork(base);
+    networks.push(withoutPolicy);
+    return assert.rejects(withoutPolicy.checkKeys(), /checkKeys\(\) requires a keyPolicy/);
+  });
+
+  it('step 2: new keys start their clocks, persisted under dataDir', async () => {
+    const { alice, events, rotations, dataDir } = createAlice();
+    const before = Date.now();
+    const statuses = await alice.checkKeys();
+
+    assert.deepEqual(statuses.map((s) => [s.community, s.communities, s.publicKey]), [
+      [undefined, ['home', 'public'], aliceKp.publicKeyBase64],
+      ['company', ['company'], companyKp.publicKeyBase64],
+    ]);
+    for (const status of statuses) {
+      assert.ok(Date.parse(status.createdAt) >= before - 1000);
+      assert.equal(Date.parse(status.expiresAt) - Date.parse(status.createdAt), 90 * DAY);
+    }
+    assert.deepEqual(events, { expiring: [], rotated: [], failed: [] });
+    assert.equal(rotations.length, 0);
+
+    const path = join(dataDir, 'key-ages.json');
+    assert.equal(statSync(path).mode & 0o777, 0o600);
+    assert.deepEqual(Object.keys(JSON.parse(readFileSync(path, 'utf-8')).keys).sort(), [aliceKp.publicKeyBase64, companyKp.publicKeyBase64].sort());
+
+    // A restart keeps the clocks
+    const again = createAlice({ dataDir });
+    assert.deepEqual((await again.alice.checkKeys()).map((s) => s.createdAt), statuses.map((s) => s.createdAt));
+  });
+
+  it('step 3: key:expiring is emitted once per key within notifyBefore', async () => {
+    const dataDir = tempDir();
+    ageKeys(dataDir, { [aliceKp.publicKeyBase64]: 85, [companyKp.publicKeyBase64]: 10 });
+    const { alice, events, rotations } = createAlice({ dataDir });
+
+    await alice.checkKeys();
+    assert.equal(events.expiring.length, 1);
+    assert.equal(events.expiring[0]!.publicKey, aliceKp.publicKeyBase64);
+    assert.equal(events.expiring[0]!.community, undefined);
+    assert.equal(rotations.length, 0);
+
+    await alice.checkKeys();
+    const restarted = createAlice({ dataDir });
+    await restarted.alice.checkKeys();
+    assert.equal(events.expiring.length, 1);
+    assert.equal(restarted.events.expiring.length, 0);
+  });
+
+  it('step 4: an expired default key is rotated with rotateIdentity()', async () => {
+    const dataDir = tempDir();
+    ageKeys(dataDir, { [aliceKp.publicKeyBase64]: 91, [companyKp.publicKeyBase64]: 30 });
+    const { alice, events, rotations } = createAlice({ dataDir });
+
+    const before = Date.now();
+    const statuses = await alice.checkKeys();
+
+    assert.equal(events.expiring.length, 1);
+    assert.equal(events.rotated.length, 1);
+    const [rotated] = events.rotated;
+    assert.equal(rotated!.community, undefined);
+    assert.equal(rotated!.oldPublicKey, aliceKp.publicKeyBase64);
+    assert.deepEqual(rotated!.communities, ['home', 'public']);
+    assert.equal(new LocalSigner(rotated!.privateKey).publicKey, rotated!.publicKey);
+    assert.deepEqual(rotations, [
+      { community: 'home', publicKey: rotated!.publicKey },
+      { community: 'public', publicKey: rotated!.publicKey },
+    ]);
+
+    // The new key's clock starts now; the company key keeps its own
+    assert.equal(statuses[0]!.publicKey, rotated!.publicKey);
+    assert.ok(Date.parse(statuses[0]!.createdAt) >= before - 1000);
+    assert.equal(statuses[1]!.publicKey, companyKp.publicKeyBase64);
+    assert.ok(Date.now() - Date.parse(statuses[1]!.createdAt) >= 30 * DAY - 1000);
+
+    await alice.checkKeys();
+    assert.equal(events.rotated.length, 1);
+  });
+
+  it('step 5: a community key is rotated on its own schedule through rotateKey()', async () => {
+    const dir = tempDir();
+    const keystorePath = getKeystorePath(dir);
+    Keystore.create(keystorePath, 'passphrase', {
+      privateKey: aliceKp.privateKeyDer,
+      communities: { company: companyKp.privateKeyDer },
+    }, { cost: 2 ** 10 });
+    ageKeys(dir, { [aliceKp.publicKeyBase64]: 30, [companyKp.publicKeyBase64]: 88 });
+    const { alice, events, rotations } = createAlice({
+      dataDir: dir,
+      keystore: keystorePath,
+      options: { keyPolicy: { maxKeyAge: 90 * DAY, rotationWindow: 3 * DAY, notifyBefore: 0, autoRotate: true } },
+    });
+
+    const statuses = await alice.checkKeys();
+
+    assert.equal(events.rotated.length, 1);
+    const [rotated] = events.rotated;
+    assert.equal(rotated!.community, 'company');
+    assert.equal(rotated!.oldPublicKey, companyKp.publicKeyBase64);
+    assert.deepEqual(rotations, [{ community: 'company', publicKey: rotated!.publicKey }]);
+    assert.deepEqual(statuses.map((s) => s.publicKey), [aliceKp.publicKeyBase64, rotated!.publicKey]);
+    assert.deepEqual(events.expiring, []);
+
+    // Relay requests switch to the new key; the keystore holds it
+    const manager = (alice as unknown as { communityManager: { getSigner(name: string): { publicKey: string } } }).communityManager;
+    assert.equal(manager.getSigner('company').publicKey, rotated!.publicKey);
+    assert.equal(manager.getSigner('home').publicKey, aliceKp.publicKeyBase64);
+    const stored = Keystore.list(keystorePath);
+    assert.equal(stored.find((e) => e.community === 'company')!.publicKey, rotated!.publicKey);
+    assert.equal(stored.find((e) => e.community === undefined)!.publicKey, aliceKp.publicKeyBase64);
+  });
+
+  it('step 6: a failed rotation emits key:rotation-failed and is retried on the next check', async () => {
+    const dataDir = tempDir();
+    ageKeys(dataDir, { [aliceKp.publicKeyBase64]: 1, [companyKp.publicKeyBase64]: 100 });
+    let failures = 1;
+    const { alice, events, rotations } = createAlice({
+      dataDir,
+      rotate: () => (failures-- > 0 ? { ok: false, status: 503, error: 'Unavailable' } : { ok: true, status: 200 }),
+    });
+
+    const statuses = await alice.checkKeys();
+    assert.equal(events.failed.length, 1);
+    assert.equal(events.failed[0]!.community, 'company');
+    assert.equal(events.failed[0]!.publicKey, companyKp.publicKeyBase64);
+    assert.match(events.failed[0]!.error, /company/);
+    assert.equal(statuses[1]!.publicKey, companyKp.publicKeyBase64);
+
+    await alice.checkKeys();
+    assert.equal(events.rotated.length, 1);
+    assert.equal(rotations.length, 2);
+  });
+
+  it('step 7: start() checks keys and stop() ends the schedule; signer-held keys are never rotated', async () => {
+    const dataDir = tempDir();
+    ageKeys(dataDir, { [aliceKp.publicKeyBase64]: 100, [companyKp.publicKeyBase64]: 100 });
+    const { alice, events, rotations } = createAlice({
+      dataDir,
+      options: {
+        communities: [
+          { name: 'home', primary: 'https://relay.home.example' },
+          { name: 'company', primary: 'https://relay.company.example', signer: new LocalSigner(companyKp.privateKeyDer) },
+        ],
+        keyPolicy: { maxKeyAge: 90 * DAY, autoRotate: true, checkInterval: 20 },
+      },
+    });
+
+    const rotatedOnStart = new Promise<KeyRotatedEvent>((resolve) => alice.once('key:rotated', resolve));
+    await alice.start();
+    const rotated = await rotatedOnStart;
+    await alice.checkKeys(); // joins the check start() began
+    assert.equal(rotated.community, undefined);
+    assert.deepEqual(rotations.map((r) => r.community), ['home']);
+    assert.deepEqual(events.expiring.map((s) => s.community), [undefined, 'company']);
+
+    await alice.stop();
+    const count = rotations.length;
+    await new Promise((r) => setTimeout(r, 60));
+    assert.equal(rotations.length, count);
+    assert.equal(events.failed.length, 0);
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Tests for the key recovery flow and the recovery send guard (t-145).
+ *
+ * t-145: recoverKey() starts recovery on every default-key community,
+ * completeRecovery() switches the relays and the local key, and
+ * recoveryPolicy warns about or refuses sends to contacts in recovery.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+
+import { A2ANetwork, type A2ANetworkInternalOptions, type ContactRecoveryEvent } from '../client.js';
+import { Keystore, getKeystorePath } from '../keystore.js';
+import { verifyEnvelope, MAX_SUPPORTED_VERSION } from '../messaging.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { KeyRotationResult, RecoveryPolicy, WireEnvelope } from '../types.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+describe('t-145: Key recovery flow and recovery send guard', () => {
+  const aliceKp = genKeypair();
+  const newKp = genKeypair();
+  const bobKp = genKeypair();
+  const companyKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  function tempDir(): string {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-recovery-'));
+    dirs.push(dir);
+    return dir;
+  }
+
+  /**
+   * Alice with home + public on her default key and company on its own key.
+   * Bob is a contact on home. Each relay records recovery calls; `fail`
+   * lists relays that reject them.
+   */
+  function createAlice(opts: { privateKey?: Buffer; fail?: string[]; keystore?: string; options?: Partial<A2ANetworkInternalOptions> } = {}) {
+    const calls: Array<{ community: string; op: string; arg: string }> = [];
+    const relay = (community: string) => {
+      const fail = opts.fail?.includes(community);
+      const rejected = { ok: false, status: 503, error: `${community} unavailable` };
+      return createMockRelayAPI({
+        getContacts: async () => ({ ok: true, status: 200, data: community === 'home' ? [contactOf('bob', bobKp.publicKeyBase64)] : [] }),
+        recoverKey: async (_agent: string, ownerEmail: string, publicKey: string) => {
+          calls.push({ community, op: 'recover', arg: `${ownerEmail} ${publicKey}` });
+          return fail ? rejected : { ok: true, status: 202 };
+        },
+        rotateKey: async (_agent: string, publicKey: string) => {
+          calls.push({ community, op: 'rotate', arg: publicKey });
+          return fail ? rejected : { ok: true, status: 200 };
+        },
+      });
+    };
+    const envelopes: WireEnvelope[] = [];
+    const options = {
+      username: 'alice',
+      endpoint: 'https://alice.example.com/inbox',
+      communities: [
+        { name: 'home', primary: 'https://relay.home.example' },
+        { name: 'public', primary: 'https://relay.public.example' },
+        { name: 'company', primary: 'https://relay.company.example', ...(!opts.keystore && { privateKey: companyKp.privateKeyDer }) },
+      ],
+      relayAPIs: {
+        'home:primary': relay('home'),
+        'public:primary': relay('public'),
+        'company:primary': relay('company'),
+      },
+      deliverFn: async (_endpoint: string, envelope: WireEnvelope) => {
+        envelopes.push(envelope);
+        return true;
+      },
+      dataDir: tempDir(),
+      ...opts.options,
+    } as A2ANetworkInternalOptions;
+    const alice = opts.keystore
+      ? A2ANetwork.fromKeystore(opts.keystore, 'passphrase', options)
+      : new A2ANetwork({ ...options, privateKey: opts.privateKey ?? aliceKp.privateKeyDer });
+    networks.push(alice);
+    const manager = (alice as unknown as { communityManager: { getSigner(name: string): { publicKey: string } } }).communityManager;
+    return { alice, calls, envelopes, manager };
+  }
+
+  /** Alice on one relay whose contact Bob has `relay.recovering` set; Bob accepts while `relay.reachable`. */
+  function createSender(recoveryPolicy?: RecoveryPolicy) {
+    const relay = { recovering: false, reachable: true };
+    const delivered: WireEnvelope[] = [];
+    const alice = new A2ANetwork({
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => ({ ok: true, status: 200, data: [{ ...contactOf('bob', bobKp.publicKeyBase64), recoveryInProgress: relay.recovering }] }),
+      }),
+      deliverFn: async (_endpoint: string, envelope: WireEnvelope) => {
+        if (!relay.reachable) return false;
+        delivered.push(envelope);
+        return true;
+      },
+      dataDir: tempDir(),
+      receipts: false,
+      ...(recoveryPolicy && { recoveryPolicy }),
+    } as A2ANetworkInternalOptions);
+    networks.push(alice);
+    const events: ContactRecoveryEvent[] = [];
+    alice.on('contact:recovery', (e: ContactRecoveryEvent) => events.push(e));
+    return { alice, relay, delivered, events };
+  }
+
+  it('step 1: recoverKey() starts recovery on every default-key community', async () => {
+    const { alice, calls } = createAlice({ fail: ['public'] });
+
+    const result = await alice.recoverKey('owner@example.com', newKp.publicKeyBase64);
+    assert.deepEqual(calls, [
+      { community: 'home', op: 'recover', arg: `owner@example.com ${newKp.publicKeyBase64}` },
+      { community: 'public', op: 'recover', arg: `owner@example.com ${newKp.publicKeyBase64}` },
+    ]);
+    assert.deepEqual(result.results.map((r) => [r.community, r.success]), [['home', true], ['public', false]]);
+    assert.equal(result.results[1]!.error, 'public unavailable');
+
+    calls.length = 0;
+    await alice.recoverKey('owner@example.com', newKp.publicKeyBase64, { communities: ['company'] });
+    assert.deepEqual(calls.map((c) => c.community), ['company']);
+
+    await assert.rejects(
+      alice.recoverKey('owner@example.com', newKp.publicKeyBase64, { communities: ['public'] }),
+      /Key recovery failed on all communities: public/,
+    );
+  });
+
+  it('step 2: completeRecovery() switches the relays and the local key', async () => {
+    const dir = tempDir();
+    const keystorePath = getKeystorePath(dir);
+    Keystore.create(keystorePath, 'passphrase', {
+      privateKey: aliceKp.privateKeyDer,
+      communities: { company: companyKp.privateKeyDer },
+    }, { cost: 2 ** 10 });
+    const { alice, calls, envelopes, manager } = createAlice({ keystore: keystorePath });
+
+    const result = await alice.completeRecovery(newKp.privateKeyDer);
+    assert.deepEqual(result.results.map((r) => [r.community, r.success]), [['home', true], ['public', true]]);
+    assert.deepEqual(calls, [
+      { community: 'home', op: 'rotate', arg: newKp.publicKeyBase64 },
+      { community: 'public', op: 'rotate', arg: newKp.publicKeyBase64 },
+    ]);
+
+    // Relay requests and envelopes are signed with the recovered key
+    assert.equal(manager.getSigner('home').publicKey, newKp.publicKeyBase64);
+    assert.equal(manager.getSigner('public').publicKey, newKp.publicKeyBase64);
+    assert.equal(manager.getSigner('company').publicKey, companyKp.publicKeyBase64);
+    assert.equal((await alice.send('bob', { text: 'back' })).status, 'delivered');
+    assert.doesNotThrow(() => verifyEnvelope(envelopes[0]!, newKp.publicKeyBase64));
+    assert.throws(() => verifyEnvelope(envelopes[0]!, aliceKp.publicKeyBase64));
+
+    // The keystore holds the recovered key as the default key
+    const stored = Keystore.list(keystorePath);
+    assert.equal(stored.find((e) => e.community === undefined)!.publicKey, newKp.publicKeyBase64);
+    assert.equal(stored.find((e) => e.community === 'company')!.publicKey, companyKp.publicKeyBase64);
+  });
+
+  it('step 3: a partial completion keeps the old key for the rest', async () => {
+    const { alice, manager } = createAlice({ fail: ['public'] });
+    const partial: KeyRotationResult[] = [];
+    alice.on('key:rotation-partial', (r: KeyRotationResult) => partial.push(r));
+
+    const result = await alice.completeRecovery(newKp.privateKeyDer);
+    assert.deepEqual(result.results.map((r) => [r.community, r.success]), [['home', true], ['public', false]]);
+    assert.equal(partial.length, 1);
+    assert.equal(manager.getSigner('home').publicKey, newKp.publicKeyBase64);
+    assert.equal(manager.getSigner('public').publicKey, aliceKp.publicKeyBase64);
+
+    await assert.rejects(alice.completeRecovery(newKp.privateKeyDer, { communities: ['public'] }), /Key recovery failed on all communities: public/);
+    assert.equal(manager.getSigner('public').publicKey, aliceKp.publicKeyBase64);
+  });
+
+  it('step 4: a client started on the recovered key only updates its relays', async () => {
+    const { alice, calls, manager } = createAlice({ privateKey: newKp.privateKeyDer });
+
+    await alice.completeRecovery(newKp.privateKeyDer);
+    assert.deepEqual(calls.map((c) => [c.community, c.arg]), [['home', newKp.publicKeyBase64], ['public', newKp.publicKeyBase64]]);
+    assert.equal(manager.getSigner('home').publicKey, newKp.publicKeyBase64);
+  });
+
+  it('step 5: recoveryPolicy warn (default) sends with a warning and reports the flag', async () => {
+    const { alice, relay, delivered, events } = createSender();
+    await alice.start();
+
+    assert.deepEqual(await alice.send('bob', { n: 1 }), { status: 'delivered', messageId: delivered[0]!.messageId });
+
+    // The send's own contact refresh picks up the flag
+    relay.recovering = true;
+    const warned = await alice.send('bob', { n: 2 });
+    assert.equal(warned.status, 'delivered');
+    assert.match(warned.warning!, /key recovery in progress/);
+    assert.deepEqual(events, [{ username: 'bob', community: 'default', recoveryInProgress: true }]);
+    assert.equal(alice.getCachedContact('bob')!.recoveryInProgress, true);
+
+    relay.recovering = false;
+    assert.equal((await alice.send('bob', { n: 3 })).warning, undefined);
+    assert.deepEqual(events.map((e) => e.recoveryInProgress), [true, false]);
+  });
+
+  it('step 6: recoveryPolicy refuse fails sends until the recovery is over; allow ignores it', async () => {
+    assert.throws(() => createSender('block' as RecoveryPolicy), /Invalid recoveryPolicy: 'block'/);
+
+    const { alice, relay, delivered } = createSender('refuse');
+    await alice.start();
+    relay.recovering = true;
+
+    // Refused before an envelope is built: no messageId, report or pending receipt
+    const refused = await alice.send('bob', { n: 1 });
+    assert.equal(refused.status, 'failed');
+    assert.equal(refused.messageId, '');
+    assert.match(refused.error!, /key recovery in progress/);
+    assert.equal(delivered.length, 0);
+
+    relay.recovering = false;
+    assert.equal((await alice.send('bob', { n: 2 })).status, 'delivered');
+
+    const allow = createSender('allow');
+    await allow.alice.start();
+    allow.relay.recovering = true;
+    const sent = await allow.alice.send('bob', { n: 3 });
+    assert.equal(sent.status, 'delivered');
+    assert.equal(sent.warning, undefined);
+  });
+
+  it('step 7: a recovery found by the contact refresh of a retry or file send blocks it', async () => {
+    const { alice, relay, delivered } = createSender('refuse');
+    await alice.start();
+    const until = async (done: () => boolean) => {
+      for (let i = 0; i < 200 && !done(); i++) await new Promise((r) => setTimeout(r, 5));
+    };
+
+    // Queued while Bob is unreachable; the retry's refresh sees the recovery
+    relay.reachable = false;
+    const queued = await alice.send('bob', { n: 1 });
+    assert.equal(queued.status, 'queued');
+    relay.reachable = true;
+    relay.recovering = true;
+    assert.equal(alice.retryNow(queued.messageId), 1);
+    const report = () => alice.getDeliveryReport(queued.messageId)!;
+    await until(() => report().attempts.length >= 2);
+    assert.match(report().attempts.at(-1)!.error!, /key recovery in progress/);
+    assert.equal(delivered.length, 0);
+
+    // sendFile() learns of the recovery from its own refresh: no chunk goes out
+    relay.recovering = false;
+    await alice.checkPresence('bob');
+    alice.getCachedContact('bob')!.maxVersion = MAX_SUPPORTED_VERSION;
+    relay.recovering = true;
+    const file = await alice.sendFile('bob', Readable.from([Buffer.from('hello')]));
+    assert.equal(file.status, 'failed');
+    assert.match(file.error!, /key recovery in progress/);
+    assert.equal(delivered.length, 0);
+  });
+});
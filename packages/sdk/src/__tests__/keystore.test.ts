@@ -0,0 +1,234 @@
+/**
+ * Tests for the passphrase-encrypted keystore (t-142).
+ *
+ * t-142: keys round-trip through an scrypt + AES-GCM file, a wrong passphrase
+ * or tampered entry is rejected, the passphrase can be changed, a client can
+ * be created from the keystore, and rotateKey() writes the new key back.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions } from '../client.js';
+import { Keystore, getKeystorePath } from '../keystore.js';
+import { processEnvelope } from '../messaging.js';
+import { keyFingerprint } from '../crypto.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { WireEnvelope } from '../types.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+    publicKeyDer: kp.publicKey.export({ type: 'spki', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+/** Low scrypt cost so the tests don't spend seconds in key derivation. */
+const COST = 2 ** 10;
+
+describe('t-142: Passphrase-encrypted keystore', () => {
+  const defaultKp = genKeypair();
+  const workKp = genKeypair();
+  const bobKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  function tempDataDir(): string {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-keystore-'));
+    dirs.push(dir);
+    return join(dir, 'data');
+  }
+
+  function createKeystore(dataDir: string): string {
+    const path = getKeystorePath(dataDir);
+    Keystore.create(path, 'correct horse', {
+      privateKey: defaultKp.privateKeyDer,
+      communities: { work: workKp.privateKeyDer },
+    }, { cost: COST });
+    return path;
+  }
+
+  function fromKeystore(path: string, dataDir: string, rotateKey?: IRelayAPI['rotateKey'], deliverFn?: A2ANetworkInternalOptions['deliverFn']): A2ANetwork {
+    const relay = () => createMockRelayAPI({
+      getContacts: async () => ({ ok: true, status: 200, data: [{ agent: 'bob', publicKey: bobKp.publicKeyBase64, endpoint: 'https://bob.example.com/inbox', since: '', online: true, lastSeen: new Date().toISOString(), keyUpdatedAt: null, recoveryInProgress: false }] }),
+      ...(rotateKey && { rotateKey }),
+    });
+    const net = A2ANetwork.fromKeystore(path, 'correct horse', {
+      username: 'alice',
+      endpoint: 'https://alice.example.com/inbox',
+      communities: [
+        { name: 'home', primary: 'https://relay.home.example' },
+        { name: 'public', primary: 'https://relay.public.example' },
+        { name: 'work', primary: 'https://relay.work.example' },
+      ],
+      relayAPIs: {
+        'home:primary': relay(),
+        'public:primary': relay(),
+        'work:primary': relay(),
+      },
+      deliverFn: deliverFn ?? (async () => true),
+      dataDir,
+    });
+    networks.push(net);
+    return net;
+  }
+
+  it('step 1: keys round-trip and the file holds no plaintext key', () => {
+    const dataDir = tempDataDir();
+    const path = createKeystore(dataDir);
+
+    const keys = Keystore.open(path, 'correct horse').keys();
+    assert.deepEqual(keys.privateKey, defaultKp.privateKeyDer);
+    assert.deepEqual(keys.communities, { work: workKp.privateKeyDer });
+
+    assert.equal(statSync(path).mode & 0o777, 0o600);
+    const raw = readFileSync(path, 'utf-8');
+    assert.ok(!raw.includes(defaultKp.privateKeyDer.toString('base64')));
+    assert.ok(!raw.includes(workKp.privateKeyDer.subarray(-32).toString('base64')));
+
+    // Listing needs no passphrase
+    assert.deepEqual(Keystore.list(path).map(({ community, publicKey, fingerprint }) => ({ community, publicKey, fingerprint })), [
+      { community: undefined, publicKey: defaultKp.publicKeyBase64, fingerprint: keyFingerprint(defaultKp.publicKeyBase64) },
+      { community: 'work', publicKey: workKp.publicKeyBase64, fingerprint: keyFingerprint(workKp.publicKeyBase64) },
+    ]);
+
+    assert.throws(() => Keystore.create(path, 'other', { privateKey: bobKp.privateKeyDer }, { cost: COST }), /Keystore already exists/);
+  });
+
+  it('step 2: a wrong passphrase or tampered file is rejected', () => {
+    const dataDir = tempDataDir();
+    const path = createKeystore(dataDir);
+
+    assert.throws(() => Keystore.open(path, 'wrong horse'), /Wrong passphrase or corrupted keystore/);
+    assert.throws(() => Keystore.open(path, ''), /Passphrase must not be empty/);
+    assert.throws(() => Keystore.open(join(dataDir, 'missing.json'), 'correct horse'), /Keystore not found/);
+
+    // Swapping the two entries breaks their binding to name and public key
+    const file = JSON.parse(readFileSync(path, 'utf-8'));
+    [file.identity, file.communities.work] = [file.communities.work, file.identity];
+    writeFileSync(path, JSON.stringify(file));
+    assert.throws(() => Keystore.open(path, 'correct horse'), /Wrong passphrase or corrupted keystore/);
+
+    // A file asking for absurd scrypt memory is refused before deriving
+    file.kdf.N = 2 ** 24;
+    writeFileSync(path, JSON.stringify(file));
+    assert.throws(() => Keystore.open(path, 'correct horse'), /Unsupported keystore parameters/);
+
+    writeFileSync(path, '{"version":1}');
+    assert.throws(() => Keystore.list(path), /Malformed keystore/);
+  });
+
+  it('step 3: changePassphrase re-encrypts every key', () => {
+    const dataDir = tempDataDir();
+    const path = createKeystore(dataDir);
+    const salt = JSON.parse(readFileSync(path, 'utf-8')).kdf.salt;
+
+    Keystore.open(path, 'correct horse').changePassphrase('battery staple');
+
+    assert.throws(() => Keystore.open(path, 'correct horse'), /Wrong passphrase/);
+    const keys = Keystore.open(path, 'battery staple').keys();
+    assert.deepEqual(keys.privateKey, defaultKp.privateKeyDer);
+    assert.deepEqual(keys.communities, { work: workKp.privateKeyDer });
+    assert.notEqual(JSON.parse(readFileSync(path, 'utf-8')).kdf.salt, salt);
+  });
+
+  it('step 4: fromKeystore signs with the stored keys', async () => {
+    const dataDir = tempDataDir();
+    const path = createKeystore(dataDir);
+    const sent: WireEnvelope[] = [];
+    const net = fromKeystore(path, dataDir, undefined, async (_endpoint, envelope) => { sent.push(envelope); return true; });
+    await net.start();
+
+    await net.send('bob', { text: 'hi' });
+    const { payload } = processEnvelope({ envelope: sent[0]!, recipientPrivateKey: bobKp.privateKey, senderPublicKeyBase64: defaultKp.publicKeyBase64 });
+    assert.deepEqual(payload, { text: 'hi' });
+
+    const manager = (net as any).communityManager;
+    assert.deepEqual(manager.getDefaultKeyCommunities(), ['home', 'public']);
+    assert.deepEqual(manager.communities.get('work').config.privateKey, workKp.privateKeyDer);
+
+    assert.throws(() => A2ANetwork.fromKeystore(path, 'wrong horse', { username: 'alice', endpoint: 'https://alice.example.com/inbox', relayUrl: 'https://relay.example.com' }), /Wrong passphrase/);
+  });
+
+  it('step 5: rotateKey persists the new key for the communities that took it', async () => {
+    const dataDir = tempDataDir();
+    const path = createKeystore(dataDir);
+    const newKp = genKeypair();
+    const net = fromKeystore(path, dataDir);
+
+    await assert.rejects(net.rotateKey(newKp.publicKeyBase64), /privateKey is required/);
+    await assert.rejects(net.rotateKey(newKp.publicKeyBase64, { privateKey: bobKp.privateKeyDer }), /does not match/);
+
+    // Only one of the two default-key communities: stored as a community key
+    await net.rotateKey(newKp.publicKeyBase64, { communities: ['home'], privateKey: newKp.privateKeyDer });
+    let keys = Keystore.open(path, 'correct horse').keys();
+    assert.deepEqual(keys.privateKey, defaultKp.privateKeyDer);
+    assert.deepEqual(keys.communities, { home: newKp.privateKeyDer, work: workKp.privateKeyDer });
+
+    // All default-key communities: replaces the default key
+    await net.rotateKey(newKp.publicKeyBase64, { privateKey: newKp.privateKeyDer });
+    keys = Keystore.open(path, 'correct horse').keys();
+    assert.deepEqual(keys.privateKey, newKp.privateKeyDer);
+    assert.deepEqual(keys.communities!.work, workKp.privateKeyDer);
+  });
+
+  it('step 6: a rotation every relay rejects leaves the keystore untouched', async () => {
+    const dataDir = tempDataDir();
+    const path = createKeystore(dataDir);
+    const before = readFileSync(path, 'utf-8');
+    const newKp = genKeypair();
+    const net = fromKeystore(path, dataDir, async () => ({ ok: false, status: 500, error: 'Server error' }));
+
+    await assert.rejects(net.rotateKey(newKp.publicKeyBase64, { privateKey: newKp.privateKeyDer }), /Key rotation failed on all communities/);
+    assert.equal(readFileSync(path, 'utf-8'), before);
+  });
+});
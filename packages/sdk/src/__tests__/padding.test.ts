@@ -0,0 +1,266 @@
+/**
+ * Tests for length-hiding payload padding (t-140).
+ *
+ * t-140: buildEnvelope() pads the plaintext to a 'padme' or 'bucket' size
+ * before encryption and marks it in the signed payload.padding field,
+ * processEnvelope() strips it, and clients pad only for contacts that
+ * advertise 2.6, with a per-send override kept for retries.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions } from '../client.js';
+import { buildEnvelope, processEnvelope, sealGroupPayload, padPayload, unpadPayload, MAX_SUPPORTED_VERSION, type BuildEnvelopeOptions } from '../messaging.js';
+import { sign } from '../crypto.js';
+import { signablePayload } from '../wire.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { WireEnvelope } from '../types.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+const flush = () => new Promise((r) => setImmediate(r));
+
+describe('t-140: Payload padding', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  function envelopeToBob(payload: Record<string, unknown>, extra: Partial<BuildEnvelopeOptions> = {}): WireEnvelope {
+    return buildEnvelope({
+      sender: 'alice',
+      recipient: 'bob',
+      payload,
+      senderPrivateKey: aliceKp.privateKey,
+      recipientPublicKeyBase64: bobKp.publicKeyBase64,
+      forwardSecret: true,
+      ...extra,
+    });
+  }
+
+  function processAsBob(envelope: WireEnvelope) {
+    return processEnvelope({ envelope, recipientPrivateKey: bobKp.privateKey, senderPublicKeyBase64: aliceKp.publicKeyBase64 });
+  }
+
+  /** Padded plaintext size: the ciphertext without its 16-byte GCM tag. */
+  const ciphertextBytes = (envelope: WireEnvelope) => Buffer.from(envelope.payload.ciphertext as string, 'base64').length - 16;
+
+  it('step 1: padme and bucket sizes', () => {
+    const size = (length: number, scheme: 'padme' | 'bucket') => padPayload(Buffer.alloc(length, 1), scheme).length;
+    assert.equal(size(0, 'padme'), 1);
+    assert.equal(size(99, 'padme'), 104);
+    assert.equal(size(1000, 'padme'), 1024);
+    assert.equal(size(1_000_000, 'padme'), 1_015_808);
+    for (const length of [10, 999, 123_456, 3_000_000]) {
+      assert.ok(size(length, 'padme') <= (length + 1) * 1.12);
+    }
+    assert.equal(size(0, 'bucket'), 256);
+    assert.equal(size(255, 'bucket'), 256);
+    assert.equal(size(256, 'bucket'), 512);
+    assert.equal(size(40_000, 'bucket'), 65_536);
+    assert.equal(size(65_536, 'bucket'), 131_072);
+    assert.equal(size(200_000, 'bucket'), 262_144);
+
+    const data = Buffer.from([0, 0x80, 0]);
+    assert.deepEqual(unpadPayload(padPayload(data, 'bucket'), 'bucket'), data, 'trailing zeros and 0x80 in the data survive');
+    assert.throws(() => unpadPayload(Buffer.alloc(16), 'padme'), /Invalid payload padding/);
+  });
+
+  it('step 2: padded envelopes hide the payload length', () => {
+    const short = envelopeToBob({ status: 'accepted' }, { pad: 'bucket' });
+    const long = envelopeToBob({ status: 'done', report: 'x'.repeat(180) }, { pad: 'bucket' });
+    assert.equal(short.version, '2.1', 'padding keeps the encryption scheme');
+    assert.equal(short.payload.padding, 'bucket');
+    assert.equal(ciphertextBytes(short), ciphertextBytes(long));
+    assert.deepEqual(processAsBob(short).payload, { status: 'accepted' });
+    assert.deepEqual(processAsBob(long).payload.report, 'x'.repeat(180));
+
+    const plain = envelopeToBob({ status: 'accepted' });
+    assert.equal(plain.payload.padding, undefined);
+    assert.ok(ciphertextBytes(plain) < ciphertextBytes(short));
+  });
+
+  it('step 3: the padding field is authenticated and validated', () => {
+    const envelope = envelopeToBob({ text: 'hi' }, { pad: 'padme' });
+    const { padding: _, ...unpadded } = envelope.payload;
+    assert.throws(() => processAsBob({ ...envelope, payload: unpadded }), /Invalid signature/);
+    envelope.payload.padding = 'random';
+    envelope.signature = sign(Buffer.from(signablePayload(envelope)), aliceKp.privateKey).toString('base64');
+    assert.throws(() => processAsBob(envelope), /Unsupported payload padding: random/);
+  });
+
+  it('step 4: padding applies after compression and to sender-key payloads', () => {
+    const transcript = { lines: Array.from({ length: 200 }, (_, i) => `line ${i}: the same output again`) };
+    const both = envelopeToBob(transcript, { compress: { algorithm: 'gzip', threshold: 0 }, pad: 'bucket' });
+    assert.equal(both.payload.compression, 'gzip');
+    const padded = ciphertextBytes(both);
+    assert.ok(padded < ciphertextBytes(envelopeToBob(transcript, { pad: 'bucket' })));
+    assert.equal(padded & (padded - 1), 0, 'the compressed size is padded to a bucket');
+    assert.deepEqual(processAsBob(both).payload, transcript);
+
+    const sealed = sealGroupPayload({ text: 'to everyone' }, undefined, undefined, 'bucket');
+    assert.equal(sealed.padding, 'bucket');
+    const group = buildEnvelope({
+      sender: 'alice',
+      recipient: 'bob',
+      payload: {},
+      senderPrivateKey: aliceKp.privateKey,
+      recipientPublicKeyBase64: bobKp.publicKeyBase64,
+      type: 'group',
+      groupId: 'g1',
+      senderKey: sealed,
+    });
+    assert.equal(group.payload.padding, 'bucket');
+    assert.equal(ciphertextBytes(group), 256);
+    assert.deepEqual(processAsBob(group).payload, { text: 'to everyone' });
+  });
+
+  /** Alice and Bob wired to deliver straight into each other; `down` makes deliveries to Bob fail. */
+  async function createPair(aliceOptions: Partial<A2ANetworkInternalOptions> = {}) {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-padding-'));
+    dirs.push(dir);
+    const sent: WireEnvelope[] = [];
+    const link = { down: false };
+    const nets: Record<string, A2ANetwork> = {};
+    const deliver = async (_endpoint: string, envelope: WireEnvelope) => {
+      if (link.down && envelope.recipient === 'bob') return false;
+      sent.push(envelope);
+      const target = nets[envelope.recipient]!;
+      if (envelope.type === 'receipt') target.receiveReceipt(envelope);
+      else target.receiveMessage(envelope);
+      return true;
+    };
+    const make = (name: string, kp: ReturnType<typeof genKeypair>, peer: string, peerKp: ReturnType<typeof genKeypair>, extra: Partial<A2ANetworkInternalOptions>) => {
+      const net = new A2ANetwork({
+        username: name,
+        privateKey: kp.privateKeyDer,
+        endpoint: `https://${name}.example.com/inbox`,
+        relayUrl: 'https://relay.example.com',
+        relayAPI: createMockRelayAPI({
+          getContacts: async () => ({ ok: true, status: 200, data: [contactOf(peer, peerKp.publicKeyBase64)] }),
+        }),
+        deliverFn: deliver,
+        dataDir: join(dir, name),
+        ...extra,
+      } as A2ANetworkInternalOptions);
+      nets[name] = net;
+      networks.push(net);
+      return net;
+    };
+    const alice = make('alice', aliceKp, 'bob', bobKp, aliceOptions);
+    make('bob', bobKp, 'alice', aliceKp, { padding: 'padme' });
+    for (const net of Object.values(nets)) await net.start();
+    return { alice, sent, link };
+  }
+
+  it('step 5: clients pad only once the contact advertises 2.6, per-send padding wins', async () => {
+    const { alice, sent } = await createPair({ padding: 'padme' });
+    const toBob = () => sent.filter((e) => e.type === 'direct').at(-1)!;
+
+    await alice.send('bob', { text: 'hi' });
+    await flush();
+    assert.equal(toBob().payload.padding, undefined, "Bob's support is not known yet");
+    assert.equal(sent.find((e) => e.type === 'receipt')!.payload.padding, 'padme', "Bob learned Alice's support from her message");
+
+    assert.equal(alice.getCachedContact('bob')!.maxVersion, MAX_SUPPORTED_VERSION);
+    await alice.send('bob', { text: 'hi' });
+    assert.equal(toBob().payload.padding, 'padme');
+    await alice.send('bob', { text: 'hi' }, { padding: 'bucket' });
+    assert.equal(toBob().payload.padding, 'bucket');
+    await alice.send('bob', { text: 'hi' }, { padding: 'none' });
+    assert.equal(toBob().payload.padding, undefined);
+  });
+
+  it('step 6: a per-send override is kept for retries', async () => {
+    const { alice, sent, link } = await createPair();
+    await alice.send('bob', { text: 'hi' });
+    await flush();
+
+    link.down = true;
+    const result = await alice.send('bob', { text: 'later' }, { padding: 'bucket' });
+    assert.equal(result.status, 'queued');
+    assert.equal(alice.getQueuedMessages()[0]!.padding, 'bucket');
+
+    link.down = false;
+    assert.equal(alice.retryNow(result.messageId), 1);
+    await flush();
+    const retried = sent.find((e) => e.messageId === result.messageId)!;
+    assert.equal(retried.payload.padding, 'bucket');
+  });
+
+  it('step 7: padding is off by default and options are validated', async () => {
+    const { alice, sent } = await createPair();
+    await alice.send('bob', { text: 'hi' });
+    await flush();
+    await alice.send('bob', { text: 'hi' });
+    assert.ok(sent.filter((e) => e.recipient === 'bob').every((e) => e.payload.padding === undefined));
+    await assert.rejects(alice.send('bob', { text: 'hi' }, { padding: 'random' as 'padme' }), /Invalid padding: 'random'/);
+
+    assert.throws(() => new A2ANetwork({
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI(),
+      padding: 'random',
+    } as unknown as A2ANetworkInternalOptions), /Invalid padding: 'random'/);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Tests for presence/contact caching on the send path (t-128).
+ *
+ * t-128: presenceTtl reuses relay data, concurrent sends share one relay
+ * call, forceRefresh bypasses the TTL, and cache writes are debounced.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync, existsSync, unlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions } from '../client.js';
+import { getCommunityCachePath } from '../cache.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe('t-128: Presence and contact caching', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  /** Alice with Bob as an online contact; counts relay getContacts calls. */
+  function createAlice(opts: { presenceTtl?: number; cacheSaveDelay?: number; relayDelayMs?: number } = {}) {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-presence-'));
+    dirs.push(dir);
+    const dataDir = join(dir, 'data');
+    const calls = { getContacts: 0 };
+    const alice = new A2ANetwork({
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => {
+          calls.getContacts++;
+          if (opts.relayDelayMs) await sleep(opts.relayDelayMs);
+          return { ok: true, status: 200, data: [
+            { agent: 'bob', publicKey: bobKp.publicKeyBase64, endpoint: 'https://bob.example.com/inbox', since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false },
+          ] };
+        },
+      }),
+      deliverFn: async () => true,
+      dataDir,
+      presenceTtl: opts.presenceTtl,
+      cacheSaveDelay: opts.cacheSaveDelay,
+    } as A2ANetworkInternalOptions);
+    networks.push(alice);
+    return { alice, calls, cachePath: getCommunityCachePath(dataDir, 'default') };
+  }
+
+  it('step 1: default presenceTtl re-fetches presence on every send', async () => {
+    const { alice, calls } = createAlice();
+    await alice.start();
+    const before = calls.getContacts;
+
+    await alice.send('bob', { n: 1 });
+    await alice.send('bob', { n: 2 });
+    assert.equal(calls.getContacts - before, 2);
+  });
+
+  it('step 2: sends within presenceTtl reuse cached presence', async () => {
+    const { alice, calls } = createAlice({ presenceTtl: 60_000 });
+    await alice.start();
+    const before = calls.getContacts;
+
+    for (let i = 0; i < 10; i++) {
+      const result = await alice.send('bob', { n: i });
+      assert.equal(result.status, 'delivered');
+    }
+    assert.equal(calls.getContacts - before, 0, 'start() fetch is still fresh');
+  });
+
+  it('step 3: forceRefresh bypasses presenceTtl', async () => {
+    const { alice, calls } = createAlice({ presenceTtl: 60_000 });
+    await alice.start();
+    const before = calls.getContacts;
+
+    await alice.send('bob', { n: 1 }, { forceRefresh: true });
+    await alice.checkPresence('bob', { forceRefresh: true });
+    assert.equal(calls.getContacts - before, 2);
+  });
+
+  it('step 4: concurrent sends share one in-flight relay call', async () => {
+    const { alice, calls } = createAlice({ relayDelayMs: 20 });
+    await alice.start();
+    const before = calls.getContacts;
+
+    const results = await Promise.all(Array.from({ length: 5 }, (_, i) => alice.send('bob', { n: i })));
+    assert.ok(results.every((r) => r.status === 'delivered'));
+    assert.equal(calls.getContacts - before, 1);
+  });
+
+  it('step 5: presence refreshes write the cache file on a debounce', async () => {
+    const { alice, cachePath } = createAlice({ cacheSaveDelay: 50 });
+    await alice.start();
+    assert.equal(existsSync(cachePath), true, 'start() writes immediately');
+    unlinkSync(cachePath);
+
+    await alice.send('bob', { n: 1 });
+    await alice.send('bob', { n: 2 });
+    assert.equal(existsSync(cachePath), false, 'not written on the send path');
+
+    await sleep(100);
+    assert.equal(existsSync(cachePath), true, 'written after the debounce');
+  });
+
+  it('step 6: getContacts() and stop() flush pending writes', async () => {
+    const { alice, cachePath } = createAlice({ cacheSaveDelay: 60_000 });
+    await alice.start();
+    unlinkSync(cachePath);
+
+    await alice.send('bob', { n: 1 });
+    assert.equal(existsSync(cachePath), false);
+    await alice.getContacts();
+    assert.equal(existsSync(cachePath), true);
+
+    unlinkSync(cachePath);
+    await alice.send('bob', { n: 2 });
+    await alice.stop();
+    assert.equal(existsSync(cachePath), true);
+  });
+
+  it('step 7: negative presenceTtl / cacheSaveDelay are rejected', () => {
+    const base = {
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI(),
+    };
+    assert.throws(() => new A2ANetwork({ ...base, presenceTtl: -1 } as A2ANetworkInternalOptions), /presenceTtl must be >= 0/);
+    assert.throws(() => new A2ANetwork({ ...base, cacheSaveDelay: -1 } as A2ANetworkInternalOptions), /cacheSaveDelay must be >= 0/);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests for presence change events (t-129).
+ *
+ * t-129: Online/offline transitions emit 'presence-change', the optional
+ * presence poll drives them, and a contact coming online flushes its queue.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions, type PresenceChangeEvent } from '../client.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe('t-129: Contact presence change events', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  /** Alice with Bob as a contact whose presence the test flips via `bob`. */
+  function createAlice(opts: { presencePollInterval?: number } = {}) {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-presence-events-'));
+    dirs.push(dir);
+    const bob = { online: true, lastSeen: '2025-01-01T00:00:00.000Z' };
+    const delivered: string[] = [];
+    const alice = new A2ANetwork({
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => ({ ok: true, status: 200, data: [
+          { agent: 'bob', publicKey: bobKp.publicKeyBase64, endpoint: 'https://bob.example.com/inbox', since: '2025-01-01', online: bob.online, lastSeen: bob.lastSeen, keyUpdatedAt: null, recoveryInProgress: false },
+        ] }),
+      }),
+      deliverFn: async (_endpoint, envelope) => {
+        delivered.push(envelope.messageId);
+        return true;
+      },
+      dataDir: join(dir, 'data'),
+      retryDelays: [60_000],
+      presencePollInterval: opts.presencePollInterval,
+    } as A2ANetworkInternalOptions);
+    networks.push(alice);
+    return { alice, bob, delivered };
+  }
+
+  it('step 1: online/offline transitions emit presence-change', async () => {
+    const { alice, bob } = createAlice();
+    const events: PresenceChangeEvent[] = [];
+    alice.on('presence-change', (e) => events.push(e));
+
+    await alice.start();
+    assert.equal(events.length, 0, 'first fetch is a baseline, not a change');
+
+    bob.online = false;
+    bob.lastSeen = '2025-01-01T01:00:00.000Z';
+    await alice.checkPresence('bob');
+    assert.deepEqual(events, [{
+      username: 'bob',
+      community: 'default',
+      online: false,
+      lastSeen: '2025-01-01T01:00:00.000Z',
+      endpoint: 'https://bob.example.com/inbox',
+    }]);
+
+    bob.lastSeen = '2025-01-01T02:00:00.000Z';
+    await alice.checkPresence('bob');
+    assert.equal(events.length, 1, 'lastSeen alone is not a transition');
+
+    bob.online = true;
+    await alice.getContacts();
+    assert.equal(events.length, 2);
+    assert.equal(events[1]!.online, true);
+  });
+
+  it('step 2: presencePollInterval drives events without sends', async () => {
+    const { alice, bob } = createAlice({ presencePollInterval: 20 });
+    const events: PresenceChangeEvent[] = [];
+    alice.on('presence-change', (e) => events.push(e));
+    await alice.start();
+
+    bob.online = false;
+    await sleep(80);
+    assert.equal(events.length, 1);
+    assert.equal(events[0]!.online, false);
+
+    await alice.stop();
+    bob.online = true;
+    await sleep(60);
+    assert.equal(events.length, 1, 'poll stops with the client');
+  });
+
+  it('step 3: contact coming online flushes its queued messages', async () => {
+    const { alice, bob, delivered } = createAlice();
+    await alice.start();
+
+    bob.online = false;
+    const result = await alice.send('bob', { text: 'waiting' });
+    assert.equal(result.status, 'queued');
+    assert.equal(delivered.length, 0);
+
+    bob.online = true;
+    await alice.checkPresence('bob');
+    await sleep(20);
+
+    assert.deepEqual(delivered, [result.messageId], 'delivered before the 60s backoff');
+    assert.equal(alice.getQueuedMessages().length, 0);
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * Tests for double-ratchet sessions (t-134).
+ *
+ * t-134: Sessions bootstrap from the identity keys, ratchet on every turn,
+ * decrypt out-of-order and skipped messages, persist under dataDir, resolve
+ * simultaneous starts, and are used per contact by the client (v2.2) with a
+ * fallback for peers that don't advertise support.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions } from '../client.js';
+import { SessionStore, getSessionStorePath, type RatchetHeader, type SessionParties } from '../ratchet.js';
+import { buildEnvelope, MAX_SUPPORTED_VERSION } from '../messaging.js';
+import { generateX25519Keypair, sign, x25519 } from '../crypto.js';
+import { signablePayload } from '../wire.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { Message, WireEnvelope } from '../types.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+const flush = () => new Promise((r) => setImmediate(r));
+
+interface Sealed {
+  ciphertext: Buffer;
+  nonce: Buffer;
+  header: RatchetHeader;
+  messageId: string;
+}
+
+describe('t-134: Double-ratchet sessions', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  function tempDir(): string {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-ratchet-'));
+    dirs.push(dir);
+    return dir;
+  }
+
+  /** Two session stores with raw X25519 identity keys. */
+  function createStores(dir: string | null = null) {
+    const aliceId = generateX25519Keypair();
+    const bobId = generateX25519Keypair();
+    const agreement = (privateKey: Buffer) => ({ deriveSharedSecret: (peer: Buffer) => x25519(privateKey, peer) });
+    const alice: SessionParties = { self: 'alice', peer: 'bob', identity: agreement(aliceId.privateKey), peerIdentityKey: bobId.publicKey };
+    const bob: SessionParties = { self: 'bob', peer: 'alice', identity: agreement(bobId.privateKey), peerIdentityKey: aliceId.publicKey };
+    return {
+      alice,
+      bob,
+      aliceStore: new SessionStore(dir && join(dir, 'alice.json')),
+      bobStore: new SessionStore(dir && join(dir, 'bob.json')),
+    };
+  }
+
+  let counter = 0;
+  function seal(store: SessionStore, parties: SessionParties, text: string): Sealed {
+    const messageId = `m-${++counter}`;
+    return { ...store.encrypt(parties, Buffer.from(text), messageId), messageId };
+  }
+
+  function open(store: SessionStore, parties: SessionParties, sealed: Sealed): string {
+    return store.decrypt(parties, sealed.header, sealed.ciphertext, sealed.nonce, sealed.messageId).toString();
+  }
+
+  it('step 1: sessions bootstrap from identity keys and ratchet every turn', () => {
+    const { alice, bob, aliceStore, bobStore } = createStores();
+
+    const first = seal(aliceStore, alice, 'hello');
+    assert.equal(first.header.init, true);
+    assert.equal(first.header.n, 0);
+    assert.equal(open(bobStore, bob, first), 'hello');
+
+    const reply = seal(bobStore, bob, 'hi');
+    assert.equal(reply.header.init, undefined, 'only the initiator sends init');
+    assert.equal(reply.header.sid, first.header.sid);
+    assert.equal(open(aliceStore, alice, reply), 'hi');
+
+    const next = seal(aliceStore, alice, 'again');
+    assert.equal(next.header.init, undefined, 'no init once the peer replied');
+    assert.notEqual(next.header.dh, first.header.dh, 'DH ratchet step after the reply');
+    assert.equal(next.header.pn, 1);
+    assert.equal(open(bobStore, bob, next), 'again');
+  });
+
+  it('step 2: out-of-order and skipped messages decrypt', () => {
+    const { alice, bob, aliceStore, bobStore } = createStores();
+    const sent = Array.from({ length: 5 }, (_, i) => seal(aliceStore, alice, `m${i}`));
+
+    // Message 4 arrives first; message 3 is lost
+    assert.equal(open(bobStore, bob, sent[4]!), 'm4');
+    assert.equal(open(bobStore, bob, sent[0]!), 'm0');
+    assert.equal(open(bobStore, bob, sent[2]!), 'm2');
+    assert.equal(open(bobStore, bob, sent[1]!), 'm1');
+
+    // Across a ratchet step: an old-chain message arrives after the new chain
+    const reply = seal(bobStore, bob, 'reply');
+    assert.equal(open(aliceStore, alice, reply), 'reply');
+    const late = seal(bobStore, bob, 'late');
+    const bobNext = seal(aliceStore, alice, 'turn');
+    assert.equal(open(bobStore, bob, bobNext), 'turn');
+    const newChain = seal(bobStore, bob, 'new chain');
+    assert.equal(open(aliceStore, alice, newChain), 'new chain');
+    assert.equal(open(aliceStore, alice, late), 'late');
+  });
+
+  it('step 3: message keys work once; failed decryption leaves the session intact', () => {
+    const { alice, bob, aliceStore, bobStore } = createStores();
+    const first = seal(aliceStore, alice, 'one');
+    const second = seal(aliceStore, alice, 'two');
+    assert.equal(open(bobStore, bob, first), 'one');
+    assert.throws(() => open(bobStore, bob, first), 'replayed message key');
+
+    const tampered = { ...second, ciphertext: Buffer.from(second.ciphertext) };
+    tampered.ciphertext[0]! ^= 0xff;
+    assert.throws(() => open(bobStore, bob, tampered));
+    assert.equal(open(bobStore, bob, second), 'two');
+
+    assert.throws(() => bobStore.decrypt(bob, { sid: 'x' }, second.ciphertext, second.nonce, second.messageId), /Invalid ratchet header/);
+  });
+
+  it('step 4: sessions persist under dataDir with mode 0600', () => {
+    const dir = tempDir();
+    const { alice, bob, aliceStore, bobStore } = createStores(dir);
+    assert.equal(open(bobStore, bob, seal(aliceStore, alice, 'before')), 'before');
+
+    const reloadedAlice = new SessionStore(join(dir, 'alice.json'));
+    const reloadedBob = new SessionStore(join(dir, 'bob.json'));
+    const after = seal(reloadedAlice, alice, 'after restart');
+    assert.equal(after.header.n, 1, 'chain continues');
+    assert.equal(open(reloadedBob, bob, after), 'after restart');
+    assert.equal(statSync(join(dir, 'bob.json')).mode & 0o777, 0o600);
+
+    // A new identity key for the peer drops the old sessions
+    const rotated = { ...alice, peerIdentityKey: generateX25519Keypair().publicKey };
+    assert.notEqual(seal(reloadedAlice, rotated, 'new key').header.sid, after.header.sid);
+  });
+
+  it('step 5: simultaneous starts settle on the smaller initiator', () => {
+    const { alice, bob, aliceStore, bobStore } = createStores();
+    const fromAlice = seal(aliceStore, alice, 'a');
+    const fromBob = seal(bobStore, bob, 'b');
+    assert.notEqual(fromAlice.header.sid, fromBob.header.sid);
+
+    assert.equal(open(aliceStore, alice, fromBob), 'b');
+    assert.equal(open(bobStore, bob, fromAlice), 'a');
+
+    const nextAlice = seal(aliceStore, alice, 'a2');
+    const nextBob = seal(bobStore, bob, 'b2');
+    assert.equal(nextAlice.header.sid, fromAlice.header.sid);
+    assert.equal(nextBob.header.sid, fromAlice.header.sid);
+    assert.equal(open(bobStore, bob, nextAlice), 'a2');
+    assert.equal(open(aliceStore, alice, nextBob), 'b2');
+  });
+
+  /** Alice and Bob wired to each other through deliverFn. */
+  async function createPair(aliceOptions: Partial<A2ANetworkInternalOptions> = {}) {
+    const dir = tempDir();
+    const sent: WireEnvelope[] = [];
+    const received: Record<string, Message[]> = { alice: [], bob: [] };
+    const nets: Record<string, A2ANetwork> = {};
+    const deliver = async (_endpoint: string, envelope: WireEnvelope) => {
+      sent.push(envelope);
+      const target = nets[envelope.recipient]!;
+      if (envelope.type === 'receipt') target.receiveReceipt(envelope);
+      else target.receiveMessage(envelope);
+      return true;
+    };
+    const make = (name: string, kp: ReturnType<typeof genKeypair>, peer: string, peerKp: ReturnType<typeof genKeypair>, extra: Partial<A2ANetworkInternalOptions>) => {
+      const net = new A2ANetwork({
+        username: name,
+        privateKey: kp.privateKeyDer,
+        endpoint: `https://${name}.example.com/inbox`,
+        relayUrl: 'https://relay.example.com',
+        relayAPI: createMockRelayAPI({
+          getContacts: async () => ({ ok: true, status: 200, data: [contactOf(peer, peerKp.publicKeyBase64)] }),
+        }),
+        deliverFn: deliver,
+        dataDir: join(dir, name),
+        ...extra,
+      } as A2ANetworkInternalOptions);
+      net.on('message', (msg: Message) => received[name]!.push(msg));
+      nets[name] = net;
+      networks.push(net);
+      return net;
+    };
+    const alice = make('alice', aliceKp, 'bob', bobKp, aliceOptions);
+    const bob = make('bob', bobKp, 'alice', aliceKp, {});
+    await alice.start();
+    await bob.start();
+
+    // First exchange teaches both sides the other's maxVersion
+    await alice.send('bob', { n: 0 });
+    await flush();
+    return { alice, bob, sent, received, dir };
+  }
+
+  it('step 6: the ratchet option upgrades contacts that advertise 2.2', async () => {
+    const { alice, bob, sent, received, dir } = await createPair({ ratchet: true });
+    assert.equal(alice.getCachedContact('bob')!.maxVersion, MAX_SUPPORTED_VERSION);
+
+    const result = await alice.send('bob', { n: 1 });
+    await flush();
+    const envelope = sent.find((e) => e.messageId === result.messageId)!;
+    assert.equal(envelope.version, '2.2');
+    assert.equal((envelope.payload.header as RatchetHeader).init, true);
+    assert.deepEqual(received.bob.map((m) => m.encryption), ['static', 'ratchet']);
+
+    // Bob has no preference but replies on the session Alice started
+    assert.equal(sent.at(-1)!.type, 'receipt');
+    assert.equal(sent.at(-1)!.version, '2.2');
+
+    await bob.send('alice', { reply: true });
+    assert.equal(received.alice.at(-1)!.encryption, 'ratchet');
+    assert.ok(statSync(getSessionStorePath(join(dir, 'alice'))).isFile());
+  });
+
+  it('step 7: ratchet is selectable per contact and falls back for older peers', async () => {
+    const { alice, sent, received } = await createPair();
+
+    await alice.send('bob', { n: 1 });
+    assert.equal(received.bob.at(-1)!.encryption, 'forward-secret', 'off by default');
+
+    alice.setRatchet('bob', true);
+    await alice.send('bob', { n: 2 });
+    assert.equal(received.bob.at(-1)!.encryption, 'ratchet');
+
+    alice.setRatchet('bob', false);
+    await alice.send('bob', { n: 3 });
+    assert.equal(received.bob.at(-1)!.encryption, 'forward-secret');
+
+    // An older Bob advertising 2.1 gets 2.1 even when selected
+    alice.setRatchet('bob', true);
+    const fromOldBob = buildEnvelope({
+      sender: 'bob',
+      recipient: 'alice',
+      payload: { text: 'old client' },
+      senderPrivateKey: bobKp.privateKey,
+      recipientPublicKeyBase64: aliceKp.publicKeyBase64,
+      forwardSecret: true,
+    });
+    fromOldBob.payload.maxVersion = '2.1';
+    fromOldBob.signature = sign(Buffer.from(signablePayload(fromOldBob)), bobKp.privateKey).toString('base64');
+    assert.ok(alice.receiveMessage(fromOldBob, { receipt: false }));
+
+    const result = await alice.send('bob', { n: 4 });
+    assert.equal(sent.find((e) => e.messageId === result.messageId)!.version, '2.1');
+  });
+
+  it('step 8: a replayed ratchet envelope is a duplicate, not an error', async () => {
+    const { alice, bob, sent } = await createPair({ ratchet: true });
+    const duplicates: unknown[] = [];
+    bob.on('duplicate', (event) => duplicates.push(event));
+
+    const result = await alice.send('bob', { n: 1 });
+    const envelope = sent.find((e) => e.messageId === result.messageId)!;
+    assert.equal(envelope.version, '2.2');
+    assert.equal(bob.receiveMessage(envelope, { receipt: false }), null);
+    assert.equal(duplicates.length, 1);
+
+    assert.equal(alice.resetRatchet('bob'), true);
+    assert.equal(alice.resetRatchet('bob'), false);
+    const restarted = await alice.send('bob', { n: 2 });
+    const header = sent.find((e) => e.messageId === restarted.messageId)!.payload.header as RatchetHeader;
+    assert.notEqual(header.sid, (envelope.payload.header as RatchetHeader).sid);
+  });
+});
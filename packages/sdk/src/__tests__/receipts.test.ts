@@ -0,0 +1,259 @@
+/**
+ * Tests for signed delivery receipts (t-122).
+ *
+ * t-122: Receiver sends a signed receipt; sender matches it and emits 'acknowledged'.
+ *        Duplicates are acknowledged again, and expected digests survive a restart.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, createPrivateKey } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions } from '../client.js';
+import { buildEnvelope } from '../messaging.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { DeliveryStatus, WireEnvelope } from '../types.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+describe('t-122: Signed end-to-end delivery receipts', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  const malloryKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  /**
+   * Create Alice and Bob whose deliverFns POST straight into each other's
+   * handleEnvelope(), with Mallory also in Alice's contacts.
+   */
+  async function createPair(bobOptions: Partial<A2ANetworkInternalOptions> = {}) {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-receipts-'));
+    dirs.push(dir);
+    const receiptsSeen: WireEnvelope[] = [];
+    let alice: A2ANetwork;
+    let bob: A2ANetwork;
+
+    alice = new A2ANetwork({
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => ({ ok: true, status: 200, data: [
+          contactOf('bob', bobKp.publicKeyBase64),
+          contactOf('mallory', malloryKp.publicKeyBase64),
+        ] }),
+      }),
+      deliverFn: async (_ep, envelope) => (await bob.handleEnvelope(envelope)).status < 300,
+      dataDir: join(dir, 'alice'),
+    } as A2ANetworkInternalOptions);
+
+    bob = new A2ANetwork({
+      username: 'bob',
+      privateKey: bobKp.privateKeyDer,
+      endpoint: 'https://bob.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => ({ ok: true, status: 200, data: [contactOf('alice', aliceKp.publicKeyBase64)] }),
+      }),
+      deliverFn: async (_ep, envelope) => {
+        receiptsSeen.push(envelope);
+        return (await alice.handleEnvelope(envelope)).status < 300;
+      },
+      dataDir: join(dir, 'bob'),
+      ...bobOptions,
+    } as A2ANetworkInternalOptions);
+
+    networks.push(alice, bob);
+    await alice.start();
+    await bob.start();
+    return { alice, bob, receiptsSeen };
+  }
+
+  /** Let the background receipt delivery settle. */
+  function flush(): Promise<void> {
+    return new Promise((resolve) => setImmediate(resolve));
+  }
+
+  it('step 1: receipt is sent, verified, and recorded as acknowledged', async () => {
+    const { alice, receiptsSeen } = await createPair();
+    const statuses: DeliveryStatus[] = [];
+    alice.on('delivery-status', (s) => statuses.push(s));
+
+    const result = await alice.send('bob', { text: 'please ack' });
+    assert.equal(result.status, 'delivered');
+    await flush();
+
+    assert.equal(receiptsSeen.length, 1);
+    assert.equal(receiptsSeen[0]!.type, 'receipt');
+    assert.ok(!JSON.stringify(receiptsSeen[0]).includes(result.messageId), 'acknowledged id is encrypted');
+
+    const acked = statuses.filter((s) => s.status === 'acknowledged');
+    assert.equal(acked.length, 1);
+    assert.equal(acked[0]!.messageId, result.messageId);
+
+    const report = alice.getDeliveryReport(result.messageId);
+    assert.ok(report?.acknowledgedAt, 'report records acknowledgement');
+    assert.equal(report.finalStatus, 'delivered');
+  });
+
+  it('step 2: receipts can be disabled globally on the receiver', async () => {
+    const { alice, receiptsSeen } = await createPair({ receipts: false });
+    const result = await alice.send('bob', { text: 'no ack' });
+    await flush();
+
+    assert.equal(receiptsSeen.length, 0);
+    assert.equal(alice.getDeliveryReport(result.messageId)?.acknowledgedAt, undefined);
+  });
+
+  it('step 3: receipts can be skipped per message', async () => {
+    const { alice, bob, receiptsSeen } = await createPair();
+    const envelope = buildEnvelope({
+      sender: 'alice',
+      recipient: 'bob',
+      payload: { text: 'quiet' },
+      senderPrivateKey: createPrivateKey({ key: aliceKp.privateKeyDer, format: 'der', type: 'pkcs8' }),
+      recipientPublicKeyBase64: bobKp.publicKeyBase64,
+    });
+    assert.ok(bob.receiveMessage(envelope, { receipt: false }));
+    await flush();
+    assert.equal(receiptsSeen.length, 0);
+  });
+
+  it('step 4: receipt from a different contact is ignored', async () => {
+    const { alice } = await createPair();
+    const statuses: DeliveryStatus[] = [];
+    alice.on('delivery-status', (s) => statuses.push(s));
+
+    const result = await alice.send('bob', { text: 'for bob only' });
+    await flush();
+    statuses.length = 0;
+
+    // Mallory (a contact) claims to have received Bob's message
+    const forged = buildEnvelope({
+      sender: 'mallory',
+      recipient: 'alice',
+      payload: { receiptFor: result.messageId, receivedAt: new Date().toISOString(), digest: 'x' },
+      senderPrivateKey: createPrivateKey({ key: malloryKp.privateKeyDer, format: 'der', type: 'pkcs8' }),
+      recipientPublicKeyBase64: aliceKp.publicKeyBase64,
+      type: 'receipt',
+    });
+    assert.equal(alice.receiveReceipt(forged), null);
+    assert.equal(statuses.length, 0);
+  });
+
+  it('step 5: receiveMessage rejects receipt envelopes', async () => {
+    const { bob } = await createPair();
+    const receipt = buildEnvelope({
+      sender: 'alice',
+      recipient: 'bob',
+      payload: { receiptFor: 'm1', receivedAt: new Date().toISOString(), digest: 'x' },
+      senderPrivateKey: createPrivateKey({ key: aliceKp.privateKeyDer, format: 'der', type: 'pkcs8' }),
+      recipientPublicKeyBase64: bobKp.publicKeyBase64,
+      type: 'receipt',
+    });
+    assert.throws(() => bob.receiveMessage(receipt), /receiveReceipt/);
+  });
+
+  it('step 6: a duplicate is acknowledged again in case the first receipt was lost', async () => {
+    const { bob, receiptsSeen } = await createPair({ ratchet: true });
+    const envelope = buildEnvelope({
+      sender: 'alice',
+      recipient: 'bob',
+      payload: { text: 'did you get this?' },
+      senderPrivateKey: createPrivateKey({ key: aliceKp.privateKeyDer, format: 'der', type: 'pkcs8' }),
+      recipientPublicKeyBase64: bobKp.publicKeyBase64,
+    });
+    assert.ok(bob.receiveMessage(envelope));
+    assert.equal(bob.receiveMessage(envelope), null);
+    await flush();
+    assert.equal(receiptsSeen.length, 2);
+    assert.ok(receiptsSeen.every((r) => r.type === 'receipt'));
+  });
+
+  it('step 7: a receipt arriving after the sender restarts still acknowledges', async () => {
+    const held: WireEnvelope[] = [];
+    const { alice } = await createPair({
+      deliverFn: async (_ep: string, envelope: WireEnvelope) => { held.push(envelope); return true; },
+    });
+    const result = await alice.send('bob', { text: 'ack me later' });
+    await flush();
+    assert.equal(held.length, 1, 'receipt held back');
+    await alice.stop();
+
+    const restarted = new A2ANetwork({
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => ({ ok: true, status: 200, data: [contactOf('bob', bobKp.publicKeyBase64)] }),
+      }),
+      deliverFn: async () => true,
+      dataDir: join(dirs.at(-1)!, 'alice'),
+    } as A2ANetworkInternalOptions);
+    networks.push(restarted);
+    await restarted.start();
+
+    const receipt = restarted.receiveReceipt(held[0]!);
+    assert.equal(receipt?.messageId, result.messageId);
+    assert.equal(restarted.receiveReceipt(held[0]!), null, 'only once');
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Tests for replay protection (t-121).
+ *
+ * t-121: Replay cache deduplicates direct + group messages and survives restarts,
+ *        persisting through an append-only journal.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, createPrivateKey } from 'node:crypto';
+import { mkdtempSync, rmSync, existsSync, writeFileSync, readFileSync, appendFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions, type DuplicateMessageEvent } from '../client.js';
+import { buildEnvelope } from '../messaging.js';
+import { ReplayCache, getReplayCachePath } from '../replay.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { Message } from '../types.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+describe('t-121: Replay cache deduplicates direct and group messages', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  function createBob(dataDir: string): A2ANetwork {
+    const bob = new A2ANetwork({
+      username: 'bob',
+      privateKey: bobKp.privateKeyDer,
+      endpoint: 'https://bob.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => ({ ok: true, status: 200, data: [
+          { agent: 'alice', publicKey: aliceKp.publicKeyBase64, endpoint: 'https://alice.example.com/inbox', since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false },
+        ] }),
+        getGroupMembers: async () => ({ ok: true, status: 200, data: [
+          { agent: 'alice', role: 'owner', joinedAt: '' },
+          { agent: 'bob', role: 'member', joinedAt: '' },
+        ] }),
+      }),
+      deliverFn: async () => true,
+      dataDir,
+    } as A2ANetworkInternalOptions);
+    networks.push(bob);
+    return bob;
+  }
+
+  function aliceEnvelope(opts: { messageId?: string; type?: 'direct' | 'group'; groupId?: string } = {}) {
+    return buildEnvelope({
+      sender: 'alice',
+      recipient: 'bob',
+      payload: { text: 'once only' },
+      senderPrivateKey: createPrivateKey({ key: aliceKp.privateKeyDer, format: 'der', type: 'pkcs8' }),
+      recipientPublicKeyBase64: bobKp.publicKeyBase64,
+      ...opts,
+    });
+  }
+
+  it('step 1: replayed direct envelope returns null and emits duplicate', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-replay-'));
+    dirs.push(dir);
+    const bob = createBob(join(dir, 'data'));
+    await bob.start();
+
+    const messages: Message[] = [];
+    const duplicates: DuplicateMessageEvent[] = [];
+    bob.on('message', (m) => messages.push(m));
+    bob.on('duplicate', (d) => duplicates.push(d));
+
+    const envelope = aliceEnvelope();
+    assert.ok(bob.receiveMessage(envelope));
+    assert.equal(bob.receiveMessage(envelope), null);
+
+    assert.equal(messages.length, 1, 'message emitted once');
+    assert.equal(duplicates.length, 1);
+    assert.deepEqual(duplicates[0], { sender: 'alice', messageId: envelope.messageId, type: 'direct' });
+  });
+
+  it('step 2: re-signed retry with the same messageId is still a duplicate', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-replay-'));
+    dirs.push(dir);
+    const bob = createBob(join(dir, 'data'));
+    await bob.start();
+
+    assert.ok(bob.receiveMessage(aliceEnvelope({ messageId: 'retry-1' })));
+    assert.equal(bob.receiveMessage(aliceEnvelope({ messageId: 'retry-1' })), null);
+  });
+
+  it('step 3: direct and group paths share the cache', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-replay-'));
+    dirs.push(dir);
+    const bob = createBob(join(dir, 'data'));
+    await bob.start();
+
+    const group = aliceEnvelope({ messageId: 'shared-1', type: 'group', groupId: 'g1' });
+    assert.ok(await bob.receiveGroupMessage(group));
+    assert.equal(await bob.receiveGroupMessage(group), null);
+    assert.equal(bob.receiveMessage(aliceEnvelope({ messageId: 'shared-1' })), null);
+  });
+
+  it('step 4: replay window survives a restart', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-replay-'));
+    dirs.push(dir);
+    const dataDir = join(dir, 'data');
+
+    const envelope = aliceEnvelope();
+    const bob1 = createBob(dataDir);
+    await bob1.start();
+    assert.ok(bob1.receiveMessage(envelope));
+    await bob1.stop();
+    assert.equal(existsSync(getReplayCachePath(dataDir)), true);
+
+    const bob2 = createBob(dataDir);
+    await bob2.start();
+    assert.equal(bob2.receiveMessage(envelope), null, 'restart must not reopen the window');
+  });
+
+  it('step 5: entries expire after the window (minimum 2x clock skew)', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-replay-'));
+    dirs.push(dir);
+    const cache = new ReplayCache(join(dir, 'replay.json'), 1000);
+    const now = Date.now();
+
+    cache.record('alice', 'm1', now);
+    assert.equal(cache.has('alice', 'm1', now + 60_000), true, 'window clamped to >= 10 min');
+    assert.equal(cache.has('alice', 'm1', now + 11 * 60_000), false);
+    assert.equal(cache.has('mallory', 'm1', now), false, 'keyed by sender too');
+  });
+
+  it('step 6: corrupt cache file starts empty without throwing', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-replay-'));
+    dirs.push(dir);
+    const path = join(dir, 'replay.json');
+    writeFileSync(path, '{corrupt');
+
+    const cache = new ReplayCache(path);
+    assert.equal(cache.size, 0);
+    cache.record('alice', 'm1');
+    assert.equal(new ReplayCache(path).has('alice', 'm1'), true);
+  });
+
+  it('step 7: records append to a journal that is compacted, not rewritten per message', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-replay-'));
+    dirs.push(dir);
+    const path = join(dir, 'replay.json');
+    const journal = `${path}.journal`;
+
+    const cache = new ReplayCache(path);
+    for (let i = 0; i < 500; i++) cache.record('alice', `m${i}`);
+    assert.equal(existsSync(path), false, 'no snapshot rewrite per record');
+    assert.equal(readFileSync(journal, 'utf-8').trim().split('\n').length, 500);
+
+    // A torn final line (crash mid-append) is skipped; loading compacts
+    appendFileSync(journal, '["alice","m-torn');
+    const reloaded = new ReplayCache(path);
+    assert.equal(reloaded.size, 500);
+    assert.equal(reloaded.has('alice', 'm499'), true);
+    assert.equal(existsSync(journal), false);
+    assert.equal(existsSync(path), true);
+
+    // Once the journal outgrows the live entries it is folded into the snapshot
+    for (let i = 500; i < 2500; i++) reloaded.record('alice', `m${i}`);
+    assert.ok(readFileSync(journal, 'utf-8').trim().split('\n').length < 2000);
+    assert.equal(new ReplayCache(path).size, 2500);
+  });
+
+  it('step 8: an unwritable journal keeps the cache working in memory and emits persist-error once', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-replay-'));
+    dirs.push(dir);
+    // The cache's directory is a plain file, so every write fails
+    const blocker = join(dir, 'data');
+    writeFileSync(blocker, '');
+    const path = join(blocker, 'replay.json');
+
+    const cache = new ReplayCache(path);
+    const errors: Error[] = [];
+    cache.on('persist-error', (err: Error) => errors.push(err));
+    assert.doesNotThrow(() => cache.record('alice', 'm1'));
+    assert.doesNotThrow(() => cache.record('alice', 'm2'));
+    assert.doesNotThrow(() => cache.compact());
+    assert.equal(cache.has('alice', 'm1'), true);
+    assert.equal(cache.has('alice', 'm2'), true);
+    assert.equal(errors.length, 1, 'emitted once per failure streak');
+
+    // Once writes work again the whole cache is saved, not just the next record
+    rmSync(blocker);
+    cache.record('alice', 'm3');
+    const reloaded = new ReplayCache(path);
+    assert.equal(reloaded.has('alice', 'm1'), true);
+    assert.equal(reloaded.has('alice', 'm3'), true);
+    assert.equal(errors.length, 1);
+  });
+});
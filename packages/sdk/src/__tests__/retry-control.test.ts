@@ -0,0 +1,230 @@
+/**
+ * Tests for retry queue inspection and control (t-125).
+ *
+ * t-125: getQueuedMessages / cancelMessage / retryNow / dead letters + resubmit,
+ *        with consistent DeliveryReport updates and delivery-status events.
+ *
+ * Uses node:test mock.timers to control time without real waits.
+ */
+
+import { describe, it, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions } from '../client.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { DeliveryStatus } from '../types.js';
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+/** Flush microtasks so async queue processing completes. */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 3; i++) await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('t-125: Inspect, cancel and replay messages in the retry queue', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  const carolKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date', 'setInterval'] });
+  });
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+    mock.timers.reset();
+  });
+
+  /**
+   * Alice with Bob and Carol as contacts. Both start offline; flip
+   * `peers.online` to make presence checks and delivery succeed; agents in
+   * `peers.away` are still reported offline by the relay.
+   */
+  async function createAlice(dataDir?: string) {
+    if (!dataDir) {
+      const dir = mkdtempSync(join(tmpdir(), 'a2a-retry-control-'));
+      dirs.push(dir);
+      dataDir = join(dir, 'data');
+    }
+    const peers = { online: false, away: new Set<string>(), delivered: [] as string[] };
+    const alice = new A2ANetwork({
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => ({ ok: true, status: 200, data: [
+          { ...contactOf('bob', bobKp.publicKeyBase64), online: peers.online && !peers.away.has('bob') },
+          { ...contactOf('carol', carolKp.publicKeyBase64), online: peers.online && !peers.away.has('carol') },
+        ] }),
+      }),
+      deliverFn: async (_ep, envelope) => {
+        if (peers.online) peers.delivered.push(envelope.messageId);
+        return peers.online;
+      },
+      retryPolicy: { initialDelayMs: 60_000, maxAttempts: 2 },
+      receipts: false,
+      dataDir,
+    } as A2ANetworkInternalOptions);
+    networks.push(alice);
+    await alice.start();
+    return { alice, peers, dataDir };
+  }
+
+  it('step 1: getQueuedMessages lists queued messages', async () => {
+    const { alice } = await createAlice();
+    const r1 = await alice.send('bob', { n: 1 });
+    const r2 = await alice.send('carol', { n: 2 });
+
+    const queued = alice.getQueuedMessages();
+    assert.deepEqual(queued.map((m) => [m.messageId, m.recipient, m.status]), [
+      [r1.messageId, 'bob', 'pending'],
+      [r2.messageId, 'carol', 'pending'],
+    ]);
+    queued[0]!.payload = {}; // snapshot — must not affect the queue
+    assert.deepEqual(alice.getQueuedMessages()[0]!.payload, { n: 1 });
+  });
+
+  it('step 2: cancelMessage removes the message and updates the report', async () => {
+    const { alice, peers } = await createAlice();
+    const statuses: DeliveryStatus[] = [];
+    alice.on('delivery-status', (s) => statuses.push(s));
+    const result = await alice.send('bob', { text: 'never mind' });
+
+    assert.equal(alice.cancelMessage(result.messageId), true);
+    assert.equal(alice.cancelMessage(result.messageId), false, 'already gone');
+    assert.equal(alice.getQueuedMessages().length, 0);
+    assert.deepEqual(statuses.at(-1), { messageId: result.messageId, status: 'cancelled', attempts: 0, recipient: 'bob', reason: 'Cancelled' });
+
+    const report = alice.getDeliveryReport(result.messageId)!;
+    assert.equal(report.finalStatus, 'cancelled');
+    assert.equal(report.reason, 'Cancelled');
+
+    peers.online = true;
+    mock.timers.tick(60_000);
+    await flush();
+    assert.deepEqual(peers.delivered, [], 'cancelled message is never sent');
+  });
+
+  it('step 3: retryNow by messageId or recipient skips the backoff', async () => {
+    const { alice, peers } = await createAlice();
+    const toBob1 = await alice.send('bob', { n: 1 });
+    const toBob2 = await alice.send('bob', { n: 2 });
+    const toCarol = await alice.send('carol', { n: 3 });
+    peers.online = true;
+    peers.away.add('bob'); // otherwise Bob coming online flushes his queue by itself
+
+    assert.equal(alice.retryNow(toCarol.messageId), 1);
+    await flush();
+    assert.deepEqual(peers.delivered, [toCarol.messageId]);
+    assert.equal(alice.getDeliveryReport(toCarol.messageId)!.finalStatus, 'delivered');
+
+    peers.away.delete('bob');
+    assert.equal(alice.retryNow('bob@relay.example.com'), 2, 'qualified names resolve to the recipient');
+    await flush();
+    assert.deepEqual(peers.delivered.slice(1).sort(), [toBob1.messageId, toBob2.messageId].sort());
+    assert.equal(alice.getQueuedMessages().length, 0);
+    assert.equal(alice.retryNow('bob'), 0, 'nothing left to retry');
+  });
+
+  it('step 4: failed messages become dead letters and can be resubmitted', async () => {
+    const { alice, peers } = await createAlice();
+    const statuses: DeliveryStatus[] = [];
+    alice.on('delivery-status', (s) => statuses.push(s));
+    const result = await alice.send('bob', { text: 'persistent' });
+
+    mock.timers.tick(60_000);
+    await flush();
+    mock.timers.tick(180_000);
+    await flush();
+
+    const [dead] = alice.getDeadLetters();
+    assert.equal(dead!.messageId, result.messageId);
+    assert.equal(dead!.status, 'failed');
+    assert.equal(dead!.reason, 'Gave up after 2 retry attempt(s)');
+    assert.equal(alice.getDeliveryReport(result.messageId)!.finalStatus, 'failed');
+
+    peers.online = true;
+    assert.equal(alice.resubmitMessage(result.messageId), true);
+    assert.equal(alice.getDeadLetters().length, 0);
+    assert.equal(alice.getQueuedMessages()[0]!.attempts, 0, 'attempts reset');
+    assert.equal(alice.getDeliveryReport(result.messageId)!.reason, undefined);
+
+    mock.timers.tick(60_000);
+    await flush();
+    assert.deepEqual(peers.delivered, [result.messageId], 'same messageId on resubmit');
+    assert.equal(alice.getDeliveryReport(result.messageId)!.finalStatus, 'delivered');
+    assert.equal(statuses.at(-1)!.status, 'delivered');
+
+    assert.equal(alice.resubmitMessage(result.messageId), false, 'no longer a dead letter');
+  });
+
+  it('step 5: dead letters survive a restart and can be discarded', async () => {
+    const { alice, dataDir } = await createAlice();
+    const result = await alice.send('bob', { text: 'expiring' }, { ttl: 1000 });
+    mock.timers.tick(2000);
+    await flush();
+    assert.equal(alice.getDeadLetters()[0]!.status, 'expired');
+    await alice.stop();
+
+    const { alice: restarted } = await createAlice(dataDir);
+    assert.deepEqual(restarted.getDeadLetters().map((m) => m.messageId), [result.messageId]);
+    assert.equal(restarted.discardDeadLetter(result.messageId), true);
+    assert.equal(restarted.discardDeadLetter(result.messageId), false);
+    assert.equal(restarted.getDeadLetters().length, 0);
+  });
+});
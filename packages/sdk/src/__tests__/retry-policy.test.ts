@@ -0,0 +1,273 @@
+/**
+ * Tests for configurable retry policy (t-124).
+ *
+ * t-124: Backoff/jitter/max-age policy, per-send ttl/deadline/maxAttempts,
+ *        and expiry/failure reasons in DeliveryStatus and DeliveryReport.
+ *
+ * Uses node:test mock.timers to control time without real waits.
+ */
+
+import { describe, it, mock, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions } from '../client.js';
+import { RetryQueue } from '../retry.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { DeliveryStatus } from '../types.js';
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+/** Flush microtasks so async process() completes after timer tick. */
+function flush(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/** Install an always-failing send function that records the time between attempts. */
+function scheduleOf(queue: RetryQueue): number[] {
+  const delays: number[] = [];
+  let last = Date.now();
+  queue.setSendFn(async () => {
+    delays.push(Date.now() - last);
+    last = Date.now();
+    return false;
+  });
+  return delays;
+}
+
+describe('t-124: Configurable retry policy', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date', 'setInterval', 'setTimeout'] });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  it('step 1: exponential backoff honours factor, cap and maxAttempts', async () => {
+    const queue = new RetryQueue(10, { initialDelayMs: 1000, backoffFactor: 2, maxDelayMs: 3000, maxAttempts: 4 });
+    const delays = scheduleOf(queue);
+    const events: DeliveryStatus[] = [];
+    queue.on('delivery-status', (evt) => events.push(evt));
+
+    queue.enqueue('msg-1', 'bob', {});
+    for (let i = 0; i < 12; i++) {
+      mock.timers.tick(1000);
+      await flush();
+    }
+
+    assert.deepEqual(delays, [1000, 2000, 3000, 3000], '1s, 2s, then capped at 3s');
+    const failed = events.find((e) => e.status === 'failed');
+    assert.equal(failed?.attempts, 4);
+    assert.match(failed!.reason!, /Gave up after 4 retry attempt/);
+    queue.stop();
+  });
+
+  it('step 2: jitter randomizes each delay within ±fraction', () => {
+    mock.method(Math, 'random', () => 0); // lowest possible jitter
+    const low = new RetryQueue(10, { initialDelayMs: 10_000, jitter: 0.5 });
+    low.enqueue('a', 'bob', {});
+    low.stop();
+
+    mock.method(Math, 'random', () => 0.999999); // highest possible jitter
+    const high = new RetryQueue(10, { initialDelayMs: 10_000, jitter: 0.5 });
+    high.enqueue('b', 'bob', {});
+    high.stop();
+
+    const lowAt = low.list()[0]!.nextRetryAt;
+    const highAt = high.list()[0]!.nextRetryAt;
+    assert.equal(lowAt - Date.now(), 5000);
+    assert.equal(highAt - Date.now(), 15_000);
+  });
+
+  it('step 3: maxAgeMs and per-message expiresAt control expiry, with reason', async () => {
+    const queue = new RetryQueue(10, { maxAgeMs: 5000, initialDelayMs: 60_000 });
+    const events: DeliveryStatus[] = [];
+    queue.on('delivery-status', (evt) => events.push(evt));
+
+    queue.enqueue('short', 'bob', {});
+    queue.enqueue('long', 'bob', {}, undefined, { expiresAt: Date.now() + 20_000 });
+
+    mock.timers.tick(6000);
+    await flush();
+    assert.deepEqual(events.filter((e) => e.status === 'expired').map((e) => e.messageId), ['short']);
+    assert.match(events.at(-1)!.reason!, /^Expired at .* after 0 retry attempt/);
+
+    mock.timers.tick(15_000);
+    await flush();
+    assert.deepEqual(events.filter((e) => e.status === 'expired').map((e) => e.messageId), ['short', 'long']);
+    queue.stop();
+  });
+
+  it('step 4: per-message maxAttempts overrides the policy', async () => {
+    const queue = new RetryQueue(10, [1000]);
+    queue.setSendFn(async () => false);
+    const events: DeliveryStatus[] = [];
+    queue.on('delivery-status', (evt) => events.push(evt));
+
+    queue.enqueue('msg-1', 'bob', {}, undefined, { maxAttempts: 3 });
+    for (let i = 0; i < 5; i++) {
+      mock.timers.tick(1000);
+      await flush();
+    }
+    assert.equal(events.filter((e) => e.status === 'sending').length, 3, 'last delay reused past the schedule');
+    assert.equal(events.at(-1)!.status, 'failed');
+    queue.stop();
+  });
+});
+
+describe('t-124: send() options and DeliveryReport reasons', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date', 'setInterval'] });
+  });
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+    mock.timers.reset();
+  });
+
+  /** Alice with Bob as an offline contact, so every send is queued. */
+  async function createAlice(overrides: Partial<A2ANetworkInternalOptions> = {}) {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-retry-policy-'));
+    dirs.push(dir);
+    const alice = new A2ANetwork({
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => ({ ok: true, status: 200, data: [{ ...contactOf('bob', bobKp.publicKeyBase64), online: false }] }),
+      }),
+      deliverFn: async () => false,
+      dataDir: join(dir, 'data'),
+      ...overrides,
+    } as A2ANetworkInternalOptions);
+    networks.push(alice);
+    await alice.start();
+    return alice;
+  }
+
+  it('step 1: ttl expires a queued message and the report carries the reason', async () => {
+    const alice = await createAlice({ retryPolicy: { initialDelayMs: 60_000 } });
+    const statuses: DeliveryStatus[] = [];
+    alice.on('delivery-status', (s) => statuses.push(s));
+
+    const result = await alice.send('bob', { text: 'urgent' }, { ttl: 5000 });
+    assert.equal(result.status, 'queued');
+
+    mock.timers.tick(6000);
+    await flush();
+
+    assert.equal(statuses.at(-1)!.status, 'expired');
+    const report = alice.getDeliveryReport(result.messageId)!;
+    assert.equal(report.finalStatus, 'expired');
+    assert.match(report.reason!, /^Expired at .*: Recipient offline$/);
+  });
+
+  it('step 2: retry policy failure is recorded with the last error', async () => {
+    const alice = await createAlice({ retryPolicy: { initialDelayMs: 1000, backoffFactor: 1, maxAttempts: 2 } });
+    const result = await alice.send('bob', { text: 'hi' });
+
+    for (let i = 0; i < 3; i++) {
+      mock.timers.tick(1000);
+      await flush();
+      await flush();
+    }
+
+    const report = alice.getDeliveryReport(result.messageId)!;
+    assert.equal(report.finalStatus, 'failed');
+    assert.equal(report.reason, 'Gave up after 2 retry attempt(s): Recipient offline');
+  });
+
+  it('step 3: deadline in the past fails without sending; invalid deadline throws', async () => {
+    const alice = await createAlice();
+    const past = await alice.send('bob', { text: 'late' }, { deadline: new Date(Date.now() - 1) });
+    assert.equal(past.status, 'failed');
+    assert.equal(past.error, 'Deadline has already passed');
+
+    await assert.rejects(alice.send('bob', {}, { deadline: 'not a date' }), /Invalid deadline/);
+  });
+
+  it('step 4: invalid retryPolicy is rejected at construction', () => {
+    assert.throws(() => new A2ANetwork({
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      retryPolicy: { jitter: 2 },
+    }), /retryPolicy.jitter/);
+    assert.throws(() => new A2ANetwork({
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      retryPolicy: { maxAttempts: 0 },
+    }), /retryPolicy.maxAttempts must be a positive integer/);
+  });
+
+  it('step 5: invalid per-send ttl and maxAttempts throw before anything is queued', async () => {
+    const alice = await createAlice();
+    await assert.rejects(alice.send('bob', {}, { ttl: NaN }), /ttl must be >= 0/);
+    await assert.rejects(alice.send('bob', {}, { ttl: -1 }), /ttl must be >= 0/);
+    await assert.rejects(alice.send('bob', {}, { maxAttempts: 0 }), /maxAttempts must be a positive integer/);
+    await assert.rejects(alice.send('bob', {}, { maxAttempts: NaN }), /maxAttempts must be a positive integer/);
+    assert.equal(alice.getQueuedMessages().length, 0);
+  });
+});
@@ -1,14 +1,19 @@
 /**
- * Tests for retry queue (t-053).
+ * Tests for retry queue (t-053, t-123).
  *
  * t-053: Retry queue backoff timing, expiry, bounded size.
+ * t-123: Retry queue persists to disk and restores after a restart, and
+ *        survives a dataDir it can't write to.
  *
  * Uses node:test mock.timers to control time without real waits.
  */
 
 import { describe, it, mock, beforeEach, afterEach } from 'node:test';
 import assert from 'node:assert/strict';
-import { RetryQueue } from '../retry.js';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { RetryQueue, getRetryQueuePath } from '../retry.js';
 
 /** Flush microtasks so async process() completes after timer tick. */
 function flush(): Promise<void> {
@@ -253,4 +258,168 @@ describe('Retry queue: timer management', () => {
 
     queue.stop();
   });
+
+  it('retryNow() during a slow send neither overlaps it nor expires it', async () => {
+    const queue = new RetryQueue(10);
+    const statuses: string[] = [];
+    queue.on('delivery-status', (evt) => statuses.push(`${evt.messageId}:${evt.status}`));
+
+    let release!: (ok: boolean) => void;
+    let inFlight = 0;
+    let maxInFlight = 0;
+    queue.setSendFn(async (msg) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      const ok = msg.messageId === 'msg-slow' ? await new Promise<boolean>((r) => { release = r; }) : true;
+      inFlight--;
+      return ok;
+    });
+
+    queue.enqueue('msg-slow', 'bob', {}, undefined, { expiresAt: Date.now() + 15_000 });
+    mock.timers.tick(10_000);
+    await flush();
+    assert.ok(statuses.includes('msg-slow:sending'));
+
+    // The slow send outlives its expiry; a retryNow() pass is requested meanwhile
+    queue.enqueue('msg-other', 'carol', {});
+    mock.timers.tick(10_000);
+    assert.equal(queue.retryNow((msg) => msg.messageId === 'msg-other'), 1);
+    await flush();
+    assert.ok(!statuses.includes('msg-other:sending'), 'second pass waits for the first');
+
+    release(true);
+    await flush();
+    await flush();
+
+    assert.equal(maxInFlight, 1);
+    assert.ok(statuses.includes('msg-slow:delivered'));
+    assert.ok(!statuses.includes('msg-slow:expired'));
+    assert.ok(statuses.includes('msg-other:delivered'), 'the requested pass runs afterwards');
+    assert.equal(queue.size, 0);
+    queue.stop();
+  });
+});
+
+describe('t-123: Retry queue persists across restarts', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date', 'setInterval', 'setTimeout'] });
+    dir = mkdtempSync(join(tmpdir(), 'a2a-retry-'));
+    path = getRetryQueuePath(dir);
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('step 1: enqueue writes a private snapshot', () => {
+    const queue = new RetryQueue(10, undefined, undefined, path);
+    queue.enqueue('msg-1', 'bob', { text: 'hello' }, 'g1');
+    queue.stop();
+
+    const data = JSON.parse(readFileSync(path, 'utf-8'));
+    assert.equal(data.messages.length, 1);
+    assert.equal(data.messages[0].messageId, 'msg-1');
+    assert.equal(data.messages[0].groupId, 'g1');
+    assert.equal(statSync(path).mode & 0o777, 0o600, 'payloads are plaintext — owner-only');
+  });
+
+  it('step 2: restore keeps createdAt/attempts and emits delivery-status', async () => {
+    const queue1 = new RetryQueue(10, undefined, undefined, path);
+    queue1.setSendFn(async () => false);
+    queue1.enqueue('msg-1', 'bob', { text: 'hello' });
+    mock.timers.tick(10_000); // first attempt fails
+    await flush();
+    queue1.stop();
+
+    const queue2 = new RetryQueue(10, undefined, undefined, path);
+    const events: Array<{ messageId: string; status: string; attempts: number }> = [];
+    queue2.on('delivery-status', (evt) => events.push(evt));
+    const restored = queue2.restore();
+
+    assert.equal(restored.length, 1);
+    assert.equal(restored[0]!.attempts, 1);
+    assert.equal(restored[0]!.createdAt, 0, 'createdAt from the first process');
+    assert.deepEqual(events, [{ messageId: 'msg-1', status: 'pending', attempts: 1, recipient: 'bob' }]);
+
+    // Backoff continues: second attempt 30s after the first, not 10s
+    const sendFn = mock.fn(async () => true);
+    queue2.setSendFn(sendFn);
+    mock.timers.tick(10_000);
+    await flush();
+    assert.equal(sendFn.mock.callCount(), 0);
+    mock.timers.tick(20_000);
+    await flush();
+    assert.equal(sendFn.mock.callCount(), 1);
+    assert.equal(events.at(-1)!.status, 'delivered');
+    assert.deepEqual(JSON.parse(readFileSync(path, 'utf-8')).messages, [], 'delivered message removed from disk');
+
+    queue2.stop();
+  });
+
+  it('step 3: message interrupted mid-send restores as pending', async () => {
+    const queue1 = new RetryQueue(10, undefined, undefined, path);
+    queue1.setSendFn(() => new Promise(() => { /* never settles — simulated crash */ }));
+    queue1.enqueue('msg-1', 'bob', {});
+    mock.timers.tick(10_000);
+    await flush();
+    queue1.stop();
+
+    const queue2 = new RetryQueue(10, undefined, undefined, path);
+    const [msg] = queue2.restore();
+    assert.equal(msg!.status, 'pending');
+    assert.equal(msg!.attempts, 1, 'interrupted attempt still counts');
+    queue2.stop();
+  });
+
+  it('step 4: expiry counts from the original createdAt', async () => {
+    const queue1 = new RetryQueue(10, undefined, undefined, path);
+    queue1.enqueue('msg-old', 'bob', {});
+    queue1.stop();
+
+    mock.timers.tick(3_601_000); // process was down for over an hour
+
+    const queue2 = new RetryQueue(10, undefined, undefined, path);
+    const events: string[] = [];
+    queue2.on('delivery-status', (evt) => events.push(evt.status));
+    queue2.restore();
+    mock.timers.tick(1000);
+    await flush();
+
+    assert.deepEqual(events, ['pending', 'expired']);
+    assert.equal(queue2.size, 0);
+    queue2.stop();
+  });
+
+  it('step 5: missing or corrupt file restores nothing', () => {
+    const queue1 = new RetryQueue(10, undefined, undefined, path);
+    assert.deepEqual(queue1.restore(), []);
+
+    writeFileSync(path, '{corrupt');
+    const queue2 = new RetryQueue(10, undefined, undefined, path);
+    assert.deepEqual(queue2.restore(), []);
+    assert.equal(queue2.enqueue('msg-1', 'bob', {}), true);
+    queue2.stop();
+    assert.equal(JSON.parse(readFileSync(path, 'utf-8')).messages.length, 1, 'next save rewrites the file');
+  });
+
+  it('step 6: an unwritable dataDir reports once and the queue keeps working', async () => {
+    writeFileSync(join(dir, 'not-a-dir'), '');
+    const queue = new RetryQueue(10, undefined, undefined, getRetryQueuePath(join(dir, 'not-a-dir')));
+    const errors: Error[] = [];
+    queue.on('persist-error', (err) => errors.push(err));
+    queue.setSendFn(async () => true);
+
+    assert.equal(queue.enqueue('msg-1', 'bob', {}), true);
+    assert.equal(queue.enqueue('msg-2', 'bob', {}), true);
+    assert.equal(errors.length, 1, 'reported once per failure streak');
+
+    mock.timers.tick(10_000);
+    await flush();
+    assert.equal(queue.size, 0, 'delivered from memory');
+    queue.stop();
+  });
 });
@@ -0,0 +1,178 @@
+/**
+ * Tests for contact roster sync events (t-130).
+ *
+ * t-130: Refreshed relay contacts are diffed against the cache to emit
+ * 'contact-added', 'contact-removed' and 'contact-updated', driven by the
+ * scheduled roster refresh.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions, type ContactChangeEvent } from '../client.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+describe('t-130: Contact roster sync events', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  const carolKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  /** Alice whose relay returns `roster.contacts`; collects roster events. */
+  function createAlice(opts: { rosterRefreshInterval?: number } = {}) {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-roster-'));
+    dirs.push(dir);
+    const roster = { contacts: [contactOf('bob', bobKp.publicKeyBase64)], fetches: 0 };
+    const alice = new A2ANetwork({
+      username: 'alice',
+      privateKey: aliceKp.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => {
+          roster.fetches++;
+          return { ok: true, status: 200, data: roster.contacts.map((c) => ({ ...c })) };
+        },
+      }),
+      deliverFn: async () => true,
+      dataDir: join(dir, 'data'),
+      ...(opts.rosterRefreshInterval !== undefined && { rosterRefreshInterval: opts.rosterRefreshInterval }),
+    } as A2ANetworkInternalOptions);
+    networks.push(alice);
+
+    const events: Array<[string, ContactChangeEvent]> = [];
+    for (const name of ['contact-added', 'contact-removed', 'contact-updated'] as const) {
+      alice.on(name, (e) => events.push([name, e]));
+    }
+    return { alice, roster, events };
+  }
+
+  it('step 1: first fetch is a baseline; later diffs emit added/removed', async () => {
+    const { alice, roster, events } = createAlice();
+    await alice.start();
+    assert.equal(events.length, 0);
+
+    roster.contacts.push(contactOf('carol', carolKp.publicKeyBase64));
+    await alice.getContacts();
+    assert.equal(events.length, 1);
+    assert.equal(events[0]![0], 'contact-added');
+    assert.equal(events[0]![1].username, 'carol');
+    assert.equal(events[0]![1].community, 'default');
+    assert.equal(events[0]![1].contact.publicKey, carolKp.publicKeyBase64);
+
+    roster.contacts = roster.contacts.filter((c) => c.agent !== 'bob');
+    await alice.getContacts();
+    assert.equal(events.length, 2);
+    assert.equal(events[1]![0], 'contact-removed');
+    assert.equal(events[1]![1].username, 'bob');
+    assert.equal(events[1]![1].contact.endpoint, 'https://bob.example.com/inbox', 'carries the last cached view');
+    assert.equal(alice.getCachedContact('bob'), undefined);
+  });
+
+  it('step 2: endpoint and key changes emit contact-updated', async () => {
+    const { alice, roster, events } = createAlice();
+    await alice.start();
+
+    roster.contacts[0] = { ...roster.contacts[0]!, endpoint: 'https://bob.example.net/inbox' };
+    await alice.checkPresence('bob');
+    roster.contacts[0] = { ...roster.contacts[0]!, publicKey: carolKp.publicKeyBase64 };
+    await alice.checkPresence('bob');
+    roster.contacts[0] = { ...roster.contacts[0]!, online: false };
+    await alice.checkPresence('bob');
+
+    assert.deepEqual(events.map(([name, e]) => [name, e.username, e.changed]), [
+      ['contact-updated', 'bob', ['endpoint']],
+      ['contact-updated', 'bob', ['publicKey']],
+    ]);
+    assert.equal(events[0]![1].contact.endpoint, 'https://bob.example.net/inbox');
+  });
+
+  it('step 3: scheduled roster refresh drives events and stops with the client', async () => {
+    const { alice, roster, events } = createAlice({ rosterRefreshInterval: 20 });
+    await alice.start();
+
+    roster.contacts.push(contactOf('carol', carolKp.publicKeyBase64));
+    await sleep(80);
+    assert.deepEqual(events.map(([name, e]) => [name, e.username]), [['contact-added', 'carol']]);
+
+    await alice.stop();
+    const fetches = roster.fetches;
+    await sleep(60);
+    assert.equal(roster.fetches, fetches, 'no refreshes after stop()');
+  });
+
+  it('step 4: the schedule is on by default; rosterRefreshInterval 0 disables it', async () => {
+    const timer = (net: unknown) => (net as { rosterRefreshTimer: unknown }).rosterRefreshTimer;
+    const byDefault = createAlice();
+    await byDefault.alice.start();
+    assert.ok(timer(byDefault.alice), 'refreshes every 5 minutes without any option');
+
+    const { alice, roster } = createAlice({ rosterRefreshInterval: 0 });
+    await alice.start();
+    assert.equal(timer(alice), null);
+    const fetches = roster.fetches;
+    await sleep(50);
+    assert.equal(roster.fetches, fetches);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Tests for key fingerprints and safety-number verification (t-132).
+ *
+ * t-132: getFingerprint/getSafetyNumber describe the pinned key, both sides
+ * derive the same safety number, and markVerified state is cleared when the
+ * pinned key changes.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions } from '../client.js';
+import { keyFingerprint, safetyNumber } from '../crypto.js';
+import type { KeyChangePolicy } from '../types.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+describe('t-132: Key fingerprints and safety-number verification', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  const malloryKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  function tempDataDir(): string {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-safety-'));
+    dirs.push(dir);
+    return join(dir, 'data');
+  }
+
+  /** A network for `self` whose relay reports `relay.peerKey` for `peer`. */
+  function createNetwork(
+    self: { name: string; kp: ReturnType<typeof genKeypair> },
+    peer: { name: string; kp: ReturnType<typeof genKeypair> },
+    opts: { dataDir?: string; keyChangePolicy?: KeyChangePolicy } = {},
+  ) {
+    const relay = { peerKey: peer.kp.publicKeyBase64 };
+    const network = new A2ANetwork({
+      username: self.name,
+      privateKey: self.kp.privateKeyDer,
+      endpoint: `https://${self.name}.example.com/inbox`,
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI({
+        getContacts: async () => ({ ok: true, status: 200, data: [contactOf(peer.name, relay.peerKey)] }),
+      }),
+      deliverFn: async () => true,
+      dataDir: opts.dataDir ?? tempDataDir(),
+      ...(opts.keyChangePolicy && { keyChangePolicy: opts.keyChangePolicy }),
+    } as A2ANetworkInternalOptions);
+    networks.push(network);
+    return { network, relay };
+  }
+
+  const alice = { name: 'alice', kp: aliceKp };
+  const bob = { name: 'bob', kp: bobKp };
+
+  it('step 1: getFingerprint describes the pinned key', async () => {
+    const { network } = createNetwork(alice, bob);
+    await network.start();
+    assert.equal(network.getFingerprint('bob'), keyFingerprint(bobKp.publicKeyBase64));
+    assert.equal(network.getFingerprint('stranger'), undefined);
+  });
+
+  it('step 2: both sides derive the same safety number', async () => {
+    const { network: aliceNet } = createNetwork(alice, bob);
+    const { network: bobNet } = createNetwork(bob, alice);
+    await aliceNet.start();
+    await bobNet.start();
+
+    const number = aliceNet.getSafetyNumber('bob')!;
+    assert.match(number, /^(\d{5} ){11}\d{5}$/);
+    assert.equal(bobNet.getSafetyNumber('alice'), number);
+    assert.equal(safetyNumber(aliceKp.publicKeyBase64, bobKp.publicKeyBase64), number);
+    assert.notEqual(safetyNumber(aliceKp.publicKeyBase64, malloryKp.publicKeyBase64), number);
+    assert.equal(aliceNet.getSafetyNumber('stranger'), undefined);
+  });
+
+  it('step 3: markVerified is exposed on Contact and survives a restart', async () => {
+    const dataDir = tempDataDir();
+    const first = createNetwork(alice, bob, { dataDir });
+    await first.network.start();
+    assert.equal((await first.network.getContacts())[0]!.verified, false);
+
+    assert.equal(first.network.markVerified('bob'), true);
+    assert.equal((await first.network.getContacts())[0]!.verified, true);
+    assert.equal(first.network.markVerified('stranger'), false);
+    await first.network.stop();
+
+    const second = createNetwork(alice, bob, { dataDir });
+    await second.network.start();
+    assert.equal((await second.network.getContacts())[0]!.verified, true);
+
+    second.network.markVerified('bob', false);
+    assert.equal(second.network.getCachedContact('bob')!.verified, undefined);
+  });
+
+  it('step 4: a key change clears verification (warn policy)', async () => {
+    const { network, relay } = createNetwork(alice, bob);
+    await network.start();
+    network.markVerified('bob');
+
+    relay.peerKey = malloryKp.publicKeyBase64;
+    const contacts = await network.getContacts();
+    assert.equal(contacts[0]!.verified, false);
+    assert.equal(network.getFingerprint('bob'), keyFingerprint(malloryKp.publicKeyBase64));
+  });
+
+  it('step 5: under block-until-approved verification lasts until the new key is approved', async () => {
+    const { network, relay } = createNetwork(alice, bob, { keyChangePolicy: 'block-until-approved' });
+    await network.start();
+    network.markVerified('bob');
+
+    relay.peerKey = malloryKp.publicKeyBase64;
+    await network.getContacts();
+    assert.equal(network.getCachedContact('bob')!.verified, true, 'pinned key is unchanged');
+    assert.equal(network.getFingerprint('bob'), keyFingerprint(bobKp.publicKeyBase64));
+
+    network.approveContactKey('bob');
+    assert.equal(network.getCachedContact('bob')!.verified, undefined);
+    assert.equal(network.getFingerprint('bob'), keyFingerprint(malloryKp.publicKeyBase64));
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Tests for sender-key group encryption (t-137).
+ *
+ * t-137: v2.3 group envelopes carry one shared ciphertext plus a content key
+ * wrapped per member, receiveGroupMessage() decrypts them, and sendToGroup()
+ * uses them only in 'sender-key' mode for members that advertise support.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions } from '../client.js';
+import { buildEnvelope, processEnvelope, sealGroupPayload, SENDER_KEY_VERSION } from '../messaging.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { GroupMessage, WireEnvelope } from '../types.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+describe('t-137: Sender-key group encryption', () => {
+  const keys = { alice: genKeypair(), bob: genKeypair(), carol: genKeypair() };
+  type Name = keyof typeof keys;
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  function groupEnvelope(to: Name, sealed: ReturnType<typeof sealGroupPayload>, type: WireEnvelope['type'] = 'group'): WireEnvelope {
+    return buildEnvelope({
+      sender: 'alice',
+      recipient: to,
+      payload: {},
+      senderPrivateKey: keys.alice.privateKey,
+      recipientPublicKeyBase64: keys[to].publicKeyBase64,
+      type,
+      ...(type === 'group' && { groupId: 'g1' }),
+      senderKey: sealed,
+    });
+  }
+
+  function processAs(name: Name, envelope: WireEnvelope) {
+    return processEnvelope({ envelope, recipientPrivateKey: keys[name].privateKey, senderPublicKeyBase64: keys.alice.publicKeyBase64 });
+  }
+
+  it('step 1: members share one ciphertext and unwrap their own content key', () => {
+    const sealed = sealGroupPayload({ text: 'to everyone' });
+    const toBob = groupEnvelope('bob', sealed);
+    const toCarol = groupEnvelope('carol', sealed);
+
+    assert.equal(toBob.version, SENDER_KEY_VERSION);
+    assert.equal(toBob.messageId, sealed.messageId);
+    assert.equal(toBob.payload.ciphertext, toCarol.payload.ciphertext, 'encrypted once');
+    assert.equal(toBob.payload.ephemeralKey, toCarol.payload.ephemeralKey);
+    assert.notEqual(toBob.payload.wrappedKey, toCarol.payload.wrappedKey);
+
+    const atBob = processAs('bob', toBob);
+    assert.deepEqual(atBob.payload, { text: 'to everyone' });
+    assert.equal(atBob.encryption, 'sender-key');
+    assert.deepEqual(processAs('carol', toCarol).payload, { text: 'to everyone' });
+  });
+
+  it('step 2: a member cannot unwrap another member\'s key', () => {
+    const toBob = groupEnvelope('bob', sealGroupPayload({ text: 'for bob' }));
+    // Re-address to Carol: the signature no longer matches, and even
+    // unsigned, Carol's key does not unwrap Bob's content key
+    assert.throws(() => processAs('carol', { ...toBob, recipient: 'carol' }));
+  });
+
+  it('step 3: sender-key envelopes must be group envelopes', () => {
+    const direct = groupEnvelope('bob', sealGroupPayload({ text: 'x' }), 'direct');
+    assert.throws(() => processAs('bob', direct), /only valid for group envelopes/);
+  });
+
+  /** Alice owns g1 with Bob and Carol; deliveries go straight to their receiveGroupMessage(). */
+  async function createGroup(aliceOptions: Partial<A2ANetworkInternalOptions> = {}) {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-senderkey-'));
+    dirs.push(dir);
+    const sent: WireEnvelope[] = [];
+    const received: Record<string, GroupMessage> = {};
+    const nets: Partial<Record<Name, A2ANetwork>> = {};
+    const members = (['alice', 'bob', 'carol'] as const).map((agent) => ({
+      agent, role: agent === 'alice' ? 'owner' : 'member', joinedAt: '',
+    })) as RelayGroupMember[];
+
+    const make = (name: Name, extra: Partial<A2ANetworkInternalOptions>) => {
+      const others = (Object.keys(keys) as Name[]).filter((n) => n !== name);
+      const net = new A2ANetwork({
+        username: name,
+        privateKey: keys[name].privateKeyDer,
+        endpoint: `https://${name}.example.com/inbox`,
+        relayUrl: 'https://relay.example.com',
+        relayAPI: createMockRelayAPI({
+          getContacts: async () => ({ ok: true, status: 200, data: others.map((n) => contactOf(n, keys[n].publicKeyBase64)) }),
+          getGroupMembers: async () => ({ ok: true, status: 200, data: members }),
+        }),
+        deliverFn: async (_endpoint, envelope) => {
+          sent.push(envelope);
+          const msg = await nets[envelope.recipient as Name]!.receiveGroupMessage(envelope);
+          if (msg) received[envelope.recipient] = msg;
+          return true;
+        },
+        receipts: false,
+        dataDir: join(dir, name),
+        ...extra,
+      } as A2ANetworkInternalOptions);
+      nets[name] = net;
+      networks.push(net);
+      return net;
+    };
+
+    const alice = make('alice', aliceOptions);
+    make('bob', {});
+    make('carol', {});
+    for (const net of Object.values(nets)) await net!.start();
+    // Bob runs this SDK and has advertised it; Carol's support is unknown
+    alice.getCachedContact('bob')!.maxVersion = SENDER_KEY_VERSION;
+    return { alice, sent, received };
+  }
+
+  it('step 4: sender-key mode encrypts once for supporting members, pairwise for others', async () => {
+    const { alice, sent, received } = await createGroup({ groupEncryption: 'sender-key' });
+    const result = await alice.sendToGroup('g1', { text: 'hello group' });
+    assert.deepEqual(result.delivered.sort(), ['bob', 'carol']);
+
+    const version = (to: string) => sent.find((e) => e.recipient === to)!.version;
+    assert.equal(version('bob'), '2.3');
+    assert.equal(version('carol'), '2.0');
+    assert.equal(received.bob!.encryption, 'sender-key');
+    assert.equal(received.carol!.encryption, 'static');
+    for (const msg of Object.values(received)) {
+      assert.equal(msg.messageId, result.messageId);
+      assert.deepEqual(msg.payload, { text: 'hello group' });
+    }
+  });
+
+  it('step 5: pairwise stays the default', async () => {
+    const { alice, sent } = await createGroup();
+    await alice.sendToGroup('g1', { text: 'hello group' });
+    assert.deepEqual(sent.map((e) => e.version).sort(), ['2.0', '2.1']);
+  });
+
+  it('step 6: invalid groupEncryption is rejected', () => {
+    assert.throws(() => new A2ANetwork({
+      username: 'alice',
+      privateKey: keys.alice.privateKeyDer,
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI(),
+      groupEncryption: 'shared',
+    } as unknown as A2ANetworkInternalOptions), /Invalid groupEncryption: 'shared'/);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Tests for the Signer/KeyAgreement abstraction and the key agent (t-141).
+ *
+ * t-141: LocalSigner and AgentSigner sign and derive like the raw key, the
+ * client, relay auth and envelopes work through a key agent in another
+ * process, agent failures surface as errors instead of hangs, and the agent
+ * only listens in a private directory.
+ */
+
+import { describe, it, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, createPublicKey, createHash, verify } from 'node:crypto';
+import { mkdtempSync, rmSync, statSync, writeFileSync, chmodSync, symlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { once } from 'node:events';
+
+import { A2ANetwork, type A2ANetworkInternalOptions } from '../client.js';
+import { LocalSigner } from '../signer.js';
+import { AgentSigner, serveKeyAgent } from '../key-agent.js';
+import { HttpRelayAPI } from '../relay-api.js';
+import { buildEnvelope, processEnvelope, decodePublicKeyRaw } from '../messaging.js';
+import { ed25519PubToX25519, generateX25519Keypair, x25519, ed25519PrivToX25519, getEd25519RawKeys } from '../crypto.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { Message, WireEnvelope } from '../types.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+const flush = () => new Promise((r) => setImmediate(r));
+
+/** Run serveKeyAgent() in a child process holding `privateKeyDer`; resolves once it listens. */
+async function startAgent(dir: string, privateKeyDer: Buffer): Promise<{ child: ChildProcess; socketPath: string }> {
+  const socketPath = join(dir, 'agent.sock');
+  const script = join(dir, 'agent.mts');
+  const src = (name: string) => JSON.stringify(fileURLToPath(new URL(`../${name}.ts`, import.meta.url)));
+  writeFileSync(script, [
+    `import { serveKeyAgent } from ${src('key-agent')};`,
+    `import { LocalSigner } from ${src('signer')};`,
+    "await serveKeyAgent(process.argv[2], new LocalSigner(Buffer.from(process.env.AGENT_KEY, 'base64')));",
+    "process.stdout.write('ready\\n');",
+  ].join('\n'));
+  const child = spawn(process.execPath, ['--import', 'tsx', script, socketPath], {
+    env: { ...process.env, AGENT_KEY: privateKeyDer.toString('base64') },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  await once(child.stdout!, 'data');
+  return { child, socketPath };
+}
+
+describe('t-141: Signer abstraction and key agent', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  let agentDir: string;
+  let agent: { child: ChildProcess; socketPath: string };
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+  let signers: AgentSigner[] = [];
+
+  before(async () => {
+    agentDir = mkdtempSync(join(tmpdir(), 'a2a-agent-'));
+    agent = await startAgent(agentDir, aliceKp.privateKeyDer);
+  });
+
+  after(() => {
+    agent.child.kill();
+    rmSync(agentDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const s of signers) await s.close();
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+    signers = [];
+  });
+
+  function agentSigner(options?: { timeout?: number }): AgentSigner {
+    const signer = new AgentSigner(agent.socketPath, options);
+    signers.push(signer);
+    return signer;
+  }
+
+  const bobX25519 = () => ed25519PubToX25519(decodePublicKeyRaw(bobKp.publicKeyBase64));
+  const aliceX25519Priv = () => ed25519PrivToX25519(getEd25519RawKeys(aliceKp.privateKey).seed);
+
+  it('step 1: LocalSigner signs and derives with the raw key', () => {
+    const signer = new LocalSigner(aliceKp.privateKeyDer);
+    assert.equal(signer.publicKey, aliceKp.publicKeyBase64);
+    const data = Buffer.from('hello');
+    assert.ok(verify(null, data, createPublicKey(aliceKp.privateKey), signer.sign(data)));
+    assert.deepEqual(signer.deriveSharedSecret(bobX25519()), x25519(aliceX25519Priv(), bobX25519()));
+
+    const rsa = generateKeyPairSync('rsa', { modulusLength: 1024 }).privateKey.export({ type: 'pkcs8', format: 'der' });
+    assert.throws(() => new LocalSigner(rsa), /Expected Ed25519 private key, got 'rsa'/);
+  });
+
+  it('step 2: AgentSigner answers from the agent process, whose socket is private', () => {
+    const signer = agentSigner();
+    assert.equal(signer.publicKey, aliceKp.publicKeyBase64);
+    const data = Buffer.from('relay signing string');
+    assert.ok(verify(null, data, createPublicKey(aliceKp.privateKey), signer.sign(data)));
+    const ephemeral = generateX25519Keypair();
+    assert.deepEqual(signer.deriveSharedSecret(ephemeral.publicKey), x25519(aliceX25519Priv(), ephemeral.publicKey));
+    assert.throws(() => signer.deriveSharedSecret(Buffer.alloc(5)), /Invalid X25519 public key/);
+    assert.equal(statSync(agent.socketPath).mode & 0o777, 0o600);
+  });
+
+  it('step 3: envelopes interoperate between agent and in-memory keys', () => {
+    const signer = agentSigner();
+    for (const forwardSecret of [false, true]) {
+      const toBob = buildEnvelope({
+        sender: 'alice',
+        recipient: 'bob',
+        payload: { forwardSecret },
+        senderPrivateKey: signer,
+        recipientPublicKeyBase64: bobKp.publicKeyBase64,
+        forwardSecret,
+      });
+      assert.deepEqual(processEnvelope({ envelope: toBob, recipientPrivateKey: bobKp.privateKey, senderPublicKeyBase64: aliceKp.publicKeyBase64 }).payload, { forwardSecret });
+
+      const toAlice = buildEnvelope({
+        sender: 'bob',
+        recipient: 'alice',
+        payload: { forwardSecret },
+        senderPrivateKey: bobKp.privateKey,
+        recipientPublicKeyBase64: aliceKp.publicKeyBase64,
+        forwardSecret,
+      });
+      assert.deepEqual(processEnvelope({ envelope: toAlice, recipientPrivateKey: signer, senderPublicKeyBase64: bobKp.publicKeyBase64 }).payload, { forwardSecret });
+    }
+  });
+
+  it('step 4: relay requests are signed through the signer', async () => {
+    const signer = agentSigner();
+    const api = new HttpRelayAPI('https://relay.example.com', 'alice', signer);
+    const realFetch = globalThis.fetch;
+    let headers: Record<string, string> = {};
+    globalThis.fetch = (async (_url: string, init: RequestInit) => {
+      headers = init.headers as Record<string, string>;
+      return new Response('{}', { status: 200 });
+    }) as typeof fetch;
+    try {
+      assert.equal((await api.heartbeat('https://alice.example.com/inbox')).ok, true);
+    } finally {
+      globalThis.fetch = realFetch;
+    }
+    const [user, sig] = headers['Authorization']!.replace('Signature ', '').split(':');
+    assert.equal(user, 'alice');
+    const bodyHash = createHash('sha256').update(JSON.stringify({ endpoint: 'https://alice.example.com/inbox' })).digest('hex');
+    const signingString = `PUT /presence\n${headers['X-Timestamp']}\n${bodyHash}`;
+    assert.ok(verify(null, Buffer.from(signingString), createPublicKey(aliceKp.privateKey), Buffer.from(sig!, 'base64')));
+  });
+
+  /** Alice (key in the agent) and Bob (key in memory) wired to each other through deliverFn. */
+  async function createPair(options: Partial<A2ANetworkInternalOptions> = {}) {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-signer-'));
+    dirs.push(dir);
+    const sent: WireEnvelope[] = [];
+    const received: Record<string, Message[]> = { alice: [], bob: [] };
+    const nets: Record<string, A2ANetwork> = {};
+    const deliver = async (_endpoint: string, envelope: WireEnvelope) => {
+      sent.push(envelope);
+      const target = nets[envelope.recipient]!;
+      if (envelope.type === 'receipt') target.receiveReceipt(envelope);
+      else target.receiveMessage(envelope);
+      return true;
+    };
+    const make = (name: string, key: Partial<A2ANetworkInternalOptions>, peer: string, peerKp: ReturnType<typeof genKeypair>) => {
+      const net = new A2ANetwork({
+        username: name,
+        endpoint: `https://${name}.example.com/inbox`,
+        relayUrl: 'https://relay.example.com',
+        relayAPI: createMockRelayAPI({
+          getContacts: async () => ({ ok: true, status: 200, data: [contactOf(peer, peerKp.publicKeyBase64)] }),
+        }),
+        deliverFn: deliver,
+        dataDir: join(dir, name),
+        ...key,
+        ...options,
+      } as A2ANetworkInternalOptions);
+      net.on('message', (msg: Message) => received[name]!.push(msg));
+      nets[name] = net;
+      networks.push(net);
+      return net;
+    };
+    const alice = make('alice', { signer: agentSigner() }, 'bob', bobKp);
+    const bob = make('bob', { privateKey: bobKp.privateKeyDer }, 'alice', aliceKp);
+    await alice.start();
+    await bob.start();
+    return { alice, bob, sent, received };
+  }
+
+  it('step 5: a client with an agent-held key exchanges every envelope version', async () => {
+    const { alice, bob, received } = await createPair({ ratchet: true });
+    await alice.send('bob', { n: 0 });
+    await flush();
+    await bob.send('alice', { n: 1 });
+    await alice.send('bob', { n: 2 });
+    await bob.send('alice', { n: 3 });
+
+    assert.deepEqual(received.bob.map((m) => m.payload.n), [0, 2]);
+    assert.deepEqual(received.alice.map((m) => m.payload.n), [1, 3]);
+    assert.deepEqual(received.bob.map((m) => m.encryption), ['static', 'ratchet']);
+    assert.deepEqual(received.alice.map((m) => m.encryption), ['ratchet', 'ratchet']);
+    assert.equal(alice.getSafetyNumber('bob'), bob.getSafetyNumber('alice'));
+  });
+
+  it('step 6: an unreachable or silent agent throws instead of hanging', async () => {
+    assert.throws(() => new AgentSigner(join(agentDir, 'missing.sock')), /Key agent unavailable/);
+
+    const silentDir = mkdtempSync(join(tmpdir(), 'a2a-agent-silent-'));
+    dirs.push(silentDir);
+    const { createServer } = await import('node:net');
+    const silent = createServer(() => { /* never answers */ });
+    const socketPath = join(silentDir, 'silent.sock');
+    await new Promise<void>((resolve) => silent.listen(socketPath, resolve));
+    try {
+      const started = Date.now();
+      // The silent server lives on this thread, which AgentSigner blocks: it can't even accept
+      assert.throws(() => new AgentSigner(socketPath, { timeout: 200 }), /did not answer within 200 ms/);
+      assert.ok(Date.now() - started < 2000);
+    } finally {
+      silent.close();
+    }
+  });
+
+  it('step 7: privateKey and signer are mutually exclusive', () => {
+    const base = {
+      username: 'alice',
+      endpoint: 'https://alice.example.com/inbox',
+      relayUrl: 'https://relay.example.com',
+      relayAPI: createMockRelayAPI(),
+    };
+    const signer = new LocalSigner(aliceKp.privateKeyDer);
+    assert.throws(() => new A2ANetwork({ ...base, privateKey: aliceKp.privateKeyDer, signer }), /privateKey and signer are mutually exclusive/);
+    assert.throws(() => new A2ANetwork(base), /Either privateKey or signer must be provided/);
+    assert.ok(new A2ANetwork({ ...base, signer }));
+  });
+
+  it('step 8: the agent socket only goes in a directory private to its user', async () => {
+    const base = mkdtempSync(join(tmpdir(), 'a2a-agent-dir-'));
+    dirs.push(base);
+    const key = new LocalSigner(aliceKp.privateKeyDer);
+
+    // A missing directory is created with mode 0700
+    const socketPath = join(base, 'run', 'key.sock');
+    const server = await serveKeyAgent(socketPath, key);
+    try {
+      assert.equal(statSync(join(base, 'run')).mode & 0o777, 0o700);
+      assert.equal(statSync(socketPath).mode & 0o777, 0o600);
+    } finally {
+      server.close();
+    }
+
+    // Others could reach the socket before its chmod: refused before listening
+    chmodSync(base, 0o755);
+    await assert.rejects(() => serveKeyAgent(join(base, 'key.sock'), key), /must be a directory owned by this user with mode 0700/);
+    symlinkSync(join(base, 'run'), join(base, 'link'));
+    await assert.rejects(() => serveKeyAgent(join(base, 'link', 'key.sock'), key), /must be a directory owned by this user with mode 0700/);
+  });
+});
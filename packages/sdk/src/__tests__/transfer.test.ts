@@ -0,0 +1,311 @@
+/**
+ * Tests for chunked file transfer (t-139).
+ *
+ * t-139: sendFile() stages a file or stream, sends it as encrypted
+ * 'file-chunk' envelopes and leaves undelivered chunks to the retry queue
+ * (also across a restart); the recipient stores chunks under dataDir,
+ * verifies the SHA-256 on reassembly and emits 'file-received'. Chunk
+ * size, unfinished transfers per sender and their lifetime are bounded.
+ */
+
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, randomBytes, createHash, randomUUID } from 'node:crypto';
+import { mkdtempSync, rmSync, writeFileSync, readFileSync, existsSync, readdirSync, utimesSync } from 'node:fs';
+import { once } from 'node:events';
+import { Readable } from 'node:stream';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+
+import { A2ANetwork, type A2ANetworkInternalOptions, type FileProgressEvent } from '../client.js';
+import { buildEnvelope, MAX_SUPPORTED_VERSION } from '../messaging.js';
+import type { IRelayAPI, RelayResponse, RelayContact, RelayPendingRequest, RelayBroadcast, RelayGroup, RelayGroupMember, RelayGroupInvitation, RelayGroupChange } from '../relay-api.js';
+import type { ReceivedFile, WireEnvelope } from '../types.js';
+
+function genKeypair() {
+  const kp = generateKeyPairSync('ed25519');
+  return {
+    privateKey: kp.privateKey,
+    publicKeyBase64: Buffer.from(kp.publicKey.export({ type: 'spki', format: 'der' })).toString('base64'),
+    privateKeyDer: kp.privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer,
+  };
+}
+
+/** Create a mock relay API with optional overrides. */
+function createMockRelayAPI(overrides?: Partial<IRelayAPI>): IRelayAPI {
+  const notCalled = async (): Promise<RelayResponse> => ({ ok: true, status: 200 });
+  return {
+    requestContact: notCalled,
+    acceptContact: notCalled,
+    denyContact: notCalled,
+    removeContact: notCalled,
+    getContacts: async () => ({ ok: true, status: 200, data: [] as RelayContact[] }),
+    getPendingRequests: async () => ({ ok: true, status: 200, data: [] as RelayPendingRequest[] }),
+    heartbeat: notCalled,
+    createBroadcast: async () => ({ ok: true, status: 200, data: { broadcastId: 'b1' } }),
+    listBroadcasts: async () => ({ ok: true, status: 200, data: [] as RelayBroadcast[] }),
+    revokeAgent: notCalled,
+    rotateKey: notCalled,
+    recoverKey: notCalled,
+    createGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    getGroup: async () => ({ ok: true, status: 200, data: { groupId: 'g1', name: 'test', owner: 'a', status: 'active', createdAt: '' } as RelayGroup }),
+    inviteToGroup: notCalled,
+    acceptGroupInvitation: notCalled,
+    declineGroupInvitation: notCalled,
+    leaveGroup: notCalled,
+    removeMember: notCalled,
+    dissolveGroup: notCalled,
+    listGroups: async () => ({ ok: true, status: 200, data: [] as RelayGroup[] }),
+    getGroupMembers: async () => ({ ok: true, status: 200, data: [] as RelayGroupMember[] }),
+    getGroupInvitations: async () => ({ ok: true, status: 200, data: [] as RelayGroupInvitation[] }),
+    getGroupChanges: async () => ({ ok: true, status: 200, data: [] as RelayGroupChange[] }),
+    transferGroupOwnership: notCalled,
+    ...overrides,
+  };
+}
+
+function contactOf(agent: string, publicKey: string): RelayContact {
+  return { agent, publicKey, endpoint: `https://${agent}.example.com/inbox`, since: '2025-01-01', online: true, lastSeen: null, keyUpdatedAt: null, recoveryInProgress: false };
+}
+
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+describe('t-139: Chunked file transfer', () => {
+  const aliceKp = genKeypair();
+  const bobKp = genKeypair();
+  let dirs: string[] = [];
+  let networks: A2ANetwork[] = [];
+
+  afterEach(async () => {
+    for (const n of networks) {
+      try { await n.stop(); } catch { /* ignore */ }
+    }
+    for (const d of dirs) rmSync(d, { recursive: true, force: true });
+    dirs = [];
+    networks = [];
+  });
+
+  function tempDir(): string {
+    const dir = mkdtempSync(join(tmpdir(), 'a2a-file-'));
+    dirs.push(dir);
+    return dir;
+  }
+
+  /**
+   * Alice and Bob delivering through each other's handleEnvelope(). `drop`
+   * makes a delivery fail; Alice already knows Bob supports file transfer.
+   */
+  async function createPair(opts: {
+    dir?: string;
+    drop?: (e: WireEnvelope) => boolean;
+    alice?: Partial<A2ANetworkInternalOptions>;
+    bob?: Partial<A2ANetworkInternalOptions>;
+  } = {}) {
+    const dir = opts.dir ?? tempDir();
+    const sent: WireEnvelope[] = [];
+    const nets: Record<string, A2ANetwork> = {};
+    const deliver = async (_endpoint: string, envelope: WireEnvelope) => {
+      sent.push(envelope);
+      if (opts.drop?.(envelope)) return false;
+      const res = await nets[envelope.recipient]!.handleEnvelope(envelope);
+      return res.status === 200 || res.status === 409;
+    };
+    const make = (name: string, kp: ReturnType<typeof genKeypair>, peer: string, peerKp: ReturnType<typeof genKeypair>, extra: Partial<A2ANetworkInternalOptions>) => {
+      const net = new A2ANetwork({
+        username: name,
+        privateKey: kp.privateKeyDer,
+        endpoint: `https://${name}.example.com/inbox`,
+        relayUrl: 'https://relay.example.com',
+        relayAPI: createMockRelayAPI({
+          getContacts: async () => ({ ok: true, status: 200, data: [contactOf(peer, peerKp.publicKeyBase64)] }),
+        }),
+        deliverFn: deliver,
+        receipts: false,
+        dataDir: join(dir, name),
+        ...extra,
+      } as A2ANetworkInternalOptions);
+      nets[name] = net;
+      networks.push(net);
+      return net;
+    };
+    const alice = make('alice', aliceKp, 'bob', bobKp, opts.alice ?? {});
+    const bob = make('bob', bobKp, 'alice', aliceKp, opts.bob ?? {});
+    await alice.start();
+    await bob.start();
+    alice.getCachedContact('bob')!.maxVersion = MAX_SUPPORTED_VERSION;
+    return { alice, bob, sent, dir };
+  }
+
+  function progressOf(net: A2ANetwork): FileProgressEvent[] {
+    const events: FileProgressEvent[] = [];
+    net.on('file-progress', (e) => events.push(e));
+    return events;
+  }
+
+  it('step 1: a file is sent in chunks and reassembled under dataDir', async () => {
+    const { alice, bob, sent, dir } = await createPair();
+    const content = randomBytes(150 * 1024);
+    const source = join(tempDir(), 'dataset.bin');
+    writeFileSync(source, content);
+    const sendProgress = progressOf(alice);
+    const receiveProgress = progressOf(bob);
+    const received = once(bob, 'file-received') as Promise<[ReceivedFile]>;
+
+    const result = await alice.sendFile('bob', source, { kind: 'dataset' }, { chunkSize: 64 * 1024 });
+    assert.equal(result.status, 'delivered');
+    assert.equal(result.chunks, 3);
+    assert.equal(result.size, content.length);
+    assert.deepEqual(sent.map((e) => [e.type, e.messageId]), [0, 1, 2].map((i) => ['file-chunk', `${result.transferId}:${i}`]));
+
+    const [file] = await received;
+    assert.equal(file.transferId, result.transferId);
+    assert.equal(file.sender, 'alice');
+    assert.equal(file.name, 'dataset.bin');
+    assert.equal(file.sha256, sha256(content));
+    assert.deepEqual(file.metadata, { kind: 'dataset' });
+    assert.equal(file.path, join(dir, 'bob', 'files', result.transferId, 'dataset.bin'));
+    assert.deepEqual(readFileSync(file.path), content);
+
+    assert.deepEqual(sendProgress.map((e) => [e.direction, e.chunksDone, e.chunks]), [['send', 1, 3], ['send', 2, 3], ['send', 3, 3]]);
+    assert.deepEqual(receiveProgress.map((e) => [e.direction, e.peer, e.chunksDone]), [['receive', 'alice', 1], ['receive', 'alice', 2], ['receive', 'alice', 3]]);
+    assert.equal(alice.getDeliveryReport(result.transferId)!.finalStatus, 'delivered');
+    assert.ok(!existsSync(join(dir, 'alice', 'transfers', 'outgoing', result.transferId)), 'staged copy removed');
+    assert.ok(!existsSync(join(dir, 'bob', 'transfers', 'incoming', result.transferId)), 'chunks removed');
+  });
+
+  it('step 2: streams, names and empty content', async () => {
+    const { alice, bob } = await createPair();
+    const files: ReceivedFile[] = [];
+    bob.on('file-received', (f) => files.push(f));
+
+    const parts = [Buffer.from('hello '), Buffer.from('stream')];
+    const streamed = await alice.sendFile('bob', Readable.from(parts), {}, { name: 'greeting.txt' });
+    const empty = await alice.sendFile('bob', Readable.from([]), {}, { name: '../../escape.txt' });
+    assert.equal(streamed.status, 'delivered');
+    assert.equal(empty.chunks, 1, 'an empty file is one empty chunk');
+
+    assert.equal(readFileSync(files[0]!.path, 'utf-8'), 'hello stream');
+    assert.equal(files[0]!.name, 'greeting.txt');
+    assert.equal(files[1]!.size, 0);
+    assert.equal(dirname(files[1]!.path), dirname(files[0]!.path).replace(streamed.transferId, empty.transferId), 'directories stripped from the name');
+    assert.equal(files[1]!.name, '../../escape.txt');
+    assert.ok(files[1]!.path.endsWith('escape.txt'));
+  });
+
+  it('step 3: undelivered chunks are retried through the retry queue', async () => {
+    let dropped = false;
+    const { alice, bob, sent } = await createPair({
+      drop: (e) => e.messageId.endsWith(':1') && !dropped && (dropped = true),
+    });
+    const content = randomBytes(100 * 1024);
+    const received = once(bob, 'file-received') as Promise<[ReceivedFile]>;
+
+    const result = await alice.sendFile('bob', Readable.from([content]), {}, { chunkSize: 40 * 1024 });
+    assert.equal(result.status, 'queued');
+    const queued = alice.getQueuedMessages();
+    assert.deepEqual(queued.map((m) => [m.messageId, m.kind]), [[result.transferId, 'file']]);
+
+    const delivered = new Promise((resolve) => alice.on('delivery-status', (s) => s.status === 'delivered' && resolve(s)));
+    assert.equal(alice.retryNow(result.transferId), 1);
+    const [file] = await received;
+    await delivered;
+    assert.deepEqual(readFileSync(file.path), content);
+    assert.deepEqual(sent.map((e) => e.messageId.split(':')[1]), ['0', '1', '1', '2'], 'chunk 0 not resent');
+    assert.equal(alice.getQueuedMessages().length, 0);
+  });
+
+  it('step 4: a restarted sender resumes from the missing chunks', async () => {
+    let online = false;
+    const first = await createPair({ drop: (e) => !online && e.messageId.endsWith(':2') });
+    const content = randomBytes(100 * 1024);
+    const result = await first.alice.sendFile('bob', Readable.from([content]), {}, { chunkSize: 40 * 1024 });
+    assert.equal(result.status, 'queued');
+    await first.alice.stop();
+    await first.bob.stop();
+
+    online = true;
+    const second = await createPair({ dir: first.dir });
+    const received = once(second.bob, 'file-received') as Promise<[ReceivedFile]>;
+    assert.equal(second.alice.retryNow(result.transferId), 1);
+    const [file] = await received;
+    assert.deepEqual(readFileSync(file.path), content);
+    assert.deepEqual(second.sent.map((e) => e.messageId), [`${result.transferId}:2`]);
+  });
+
+  it('step 5: the recipient rejects bad chunks', async () => {
+    const { bob, dir } = await createPair({ bob: { maxFileBytes: 1024 } });
+    const chunk = (payload: Record<string, unknown>) => buildEnvelope({
+      sender: 'alice',
+      recipient: 'bob',
+      payload: {
+        transferId: randomUUID(), name: 'x', size: 4, sha256: sha256(Buffer.from('abcd')),
+        chunkSize: 4, count: 1, index: 0, metadata: {}, data: Buffer.from('abcd').toString('base64'),
+        ...payload,
+      },
+      senderPrivateKey: aliceKp.privateKey,
+      recipientPublicKeyBase64: bobKp.publicKeyBase64,
+      type: 'file-chunk',
+    });
+
+    assert.throws(() => bob.receiveFileChunk(chunk({ sha256: sha256(Buffer.from('other')) })), /File hash mismatch/);
+    assert.throws(() => bob.receiveFileChunk(chunk({ transferId: '../../etc' })), /Malformed file chunk/);
+    assert.throws(() => bob.receiveFileChunk(chunk({ count: 2 })), /Malformed file chunk/);
+    assert.throws(() => bob.receiveFileChunk(chunk({ data: Buffer.from('abc').toString('base64') })), /Malformed file chunk/);
+    const big = await bob.handleEnvelope(chunk({ size: 4096, chunkSize: 4096, data: Buffer.alloc(4096).toString('base64') }));
+    assert.deepEqual(big, { status: 400, body: { error: 'File exceeds 1024 bytes' } });
+    assert.deepEqual(readdirSync(join(dir, 'bob', 'transfers', 'incoming')), [], 'nothing kept');
+  });
+
+  it('step 6: contacts must advertise file transfer support', async () => {
+    const { alice, dir } = await createPair();
+    delete alice.getCachedContact('bob')!.maxVersion;
+    const result = await alice.sendFile('bob', Readable.from([Buffer.from('x')]));
+    assert.deepEqual(result, { status: 'failed', transferId: '', size: 0, chunks: 0, error: 'Contact does not support file transfer' });
+    assert.ok(!existsSync(join(dir, 'alice', 'transfers')));
+    await assert.rejects(() => alice.sendFile('bob', 'x', {}, { chunkSize: 0 }), /chunkSize must be a positive integer/);
+  });
+
+  it('step 7: chunk layout, unfinished transfers and file size are bounded', async () => {
+    const { alice, bob, dir } = await createPair({ alice: { maxFileBytes: 1024 } });
+    const incoming = join(dir, 'bob', 'transfers', 'incoming');
+    // First chunk of a two-chunk transfer: 16 KB + 1 byte
+    const content = randomBytes(16 * 1024 + 1);
+    const firstChunk = (transferId: string, payload: Record<string, unknown> = {}) => buildEnvelope({
+      sender: 'alice',
+      recipient: 'bob',
+      payload: {
+        transferId, name: 'x', size: content.length, sha256: sha256(content),
+        chunkSize: 16 * 1024, count: 2, index: 0, metadata: {},
+        data: content.subarray(0, 16 * 1024).toString('base64'),
+        ...payload,
+      },
+      senderPrivateKey: aliceKp.privateKey,
+      recipientPublicKeyBase64: bobKp.publicKeyBase64,
+      type: 'file-chunk',
+    });
+
+    // Tiny chunks would let a sender make one file thousands of chunk files
+    const tiny = Buffer.alloc(3000);
+    assert.throws(() => bob.receiveFileChunk(firstChunk(randomUUID(), {
+      size: tiny.length, sha256: sha256(tiny), chunkSize: 1000, count: 3, data: tiny.subarray(0, 1000).toString('base64'),
+    })), /Malformed file chunk/);
+
+    // At most four unfinished transfers per sender
+    const ids = Array.from({ length: 4 }, () => randomUUID());
+    for (const id of ids) assert.equal(bob.receiveFileChunk(firstChunk(id))?.chunksDone, 1);
+    assert.throws(() => bob.receiveFileChunk(firstChunk(randomUUID())), /Too many unfinished file transfers from 'alice'/);
+    assert.equal(bob.receiveFileChunk(firstChunk(ids[0]!, { index: 1, data: content.subarray(16 * 1024).toString('base64') }))?.chunksDone, 2);
+
+    // An unfinished transfer idle for a day is deleted, making room again
+    const stale = (Date.now() - 25 * 60 * 60 * 1000) / 1000;
+    utimesSync(join(incoming, ids[1]!), stale, stale);
+    assert.equal(bob.receiveFileChunk(firstChunk(randomUUID()))?.chunksDone, 1);
+    assert.ok(!existsSync(join(incoming, ids[1]!)));
+    assert.equal(readdirSync(incoming).length, 3);
+
+    // The sender checks maxFileBytes and chunkSize before anything is sent
+    await assert.rejects(() => alice.sendFile('bob', Readable.from([Buffer.alloc(2048)])), /File exceeds 1024 bytes/);
+    assert.deepEqual(readdirSync(join(dir, 'alice', 'transfers', 'outgoing')), [], 'staged copy removed');
+    await assert.rejects(() => alice.sendFile('bob', 'x', {}, { chunkSize: 1024 }), /chunkSize must be at least 16384/);
+  });
+});
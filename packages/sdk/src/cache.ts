@@ -20,6 +20,14 @@ export interface CachedContact {
   lastSeen: string | null;
   /** Which community this contact belongs to (undefined for legacy caches) */
   community?: string;
+  /** Trust-on-first-use pin: first-seen or last approved public key (undefined for legacy caches) */
+  pinnedKey?: string;
+  /** Pinned key was verified out-of-band (markVerified); cleared when the pin changes */
+  verified?: boolean;
+  /** Highest envelope version the contact has advertised (learned from its envelopes) */
+  maxVersion?: string;
+  /** The relay reports a key recovery in progress for the contact */
+  recoveryInProgress?: boolean;
 }
 
 export interface CacheData {
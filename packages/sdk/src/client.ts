@@ -5,13 +5,22 @@
  */
 
 import { EventEmitter } from 'node:events';
-import { createPrivateKey, generateKeyPairSync, randomUUID, sign as cryptoSign, type KeyObject } from 'node:crypto';
+import { createServer, type Server } from 'node:http';
+import type { Readable } from 'node:stream';
+import { generateKeyPairSync, randomUUID } from 'node:crypto';
 import type {
   A2ANetworkOptions,
   CommunityConfig,
   CommunityStatusEvent,
   SendResult,
+  SendOptions,
+  SendFileOptions,
+  FileSendResult,
+  ReceivedFile,
+  RetryPolicy,
   GroupSendResult,
+  GroupDeliveryReport,
+  GroupMemberDelivery,
   GroupMessage,
   Message,
   ContactRequest,
@@ -19,10 +28,20 @@ import type {
   Broadcast,
   DeliveryStatus,
   DeliveryReport,
+  DeliveryReceipt,
   Contact,
   WireEnvelope,
   KeyRotationResult,
   KeyRotationCommunityResult,
+  IdentityRotationResult,
+  KeyRotationNoticeFailure,
+  KeyPolicy,
+  KeyStatus,
+  KeyChangePolicy,
+  RecoveryPolicy,
+  GroupEncryption,
+  PayloadCompression,
+  PayloadPadding,
 } from './types.js';
 import {
   HttpRelayAPI,
@@ -43,12 +62,36 @@ import {
   type CachedContact,
 } from './cache.js';
 import { CommunityRelayManager, parseQualifiedName } from './community-manager.js';
-import { RetryQueue } from './retry.js';
+import { RetryQueue, getRetryQueuePath, type QueuedMessage } from './retry.js';
 import {
   buildEnvelope,
-  processEnvelope,
+  verifyEnvelope,
+  decryptEnvelope,
+  isSessionEnvelope,
   httpDeliver,
+  payloadDigest,
+  sealGroupPayload,
+  sealedGroupVersion,
+  FORWARD_SECRET_VERSION,
+  RATCHET_VERSION,
+  COMPRESSION_VERSION,
+  FILE_TRANSFER_VERSION,
+  PADDING_VERSION,
+  type BuildEnvelopeOptions,
+  type ProcessedMessage,
 } from './messaging.js';
+import { validateEnvelope, isVersionCompatible, isAtLeastVersion, parseVersion } from './wire.js';
+import { ReplayCache, getReplayCachePath } from './replay.js';
+import { ReceiptStore, getReceiptStorePath } from './receipts.js';
+import { createInboxHandler, type InboxHandler, type InboxOptions, type InboxResponse } from './inbox.js';
+import { SessionStore, getSessionStorePath, type SessionCipher } from './ratchet.js';
+import { KeyCache } from './key-cache.js';
+import { DEFAULT_COMPRESSION_THRESHOLD, DEFAULT_MAX_DECOMPRESSED_BYTES, type CompressOptions } from './compression.js';
+import { keyFingerprint, safetyNumber } from './crypto.js';
+import { LocalSigner, type IdentityKey, type Signer } from './signer.js';
+import { Keystore } from './keystore.js';
+import { KeyAgeStore, getKeyAgeStorePath } from './key-ages.js';
+import { TransferStore, pendingChunks, DEFAULT_MAX_FILE_BYTES, MIN_CHUNK_SIZE, type FileHeader } from './transfer.js';
 
 /** Delivery function signature: POST envelope to endpoint, return success. */
 export type DeliverFn = (endpoint: string, envelope: WireEnvelope) => Promise<boolean>;
@@ -66,15 +109,102 @@ export interface GroupMemberChangeEvent {
   action: 'joined' | 'left' | 'removed' | 'invited' | 'ownership-transferred';
 }
 
+export interface DuplicateMessageEvent {
+  sender: string;
+  messageId: string;
+  type: WireEnvelope['type'];
+  groupId?: string;
+}
+
+export interface PresenceChangeEvent {
+  username: string;
+  community: string;
+  online: boolean;
+  lastSeen: string | null;
+  endpoint: string | null;
+}
+
+export interface ContactChangeEvent {
+  username: string;
+  community: string;
+  /** The relay's current view of the contact (the last cached view for 'contact-removed') */
+  contact: Contact;
+  /** Which fields changed ('contact-updated' only) */
+  changed?: Array<'endpoint' | 'publicKey'>;
+}
+
+export interface ContactKeyChangedEvent {
+  username: string;
+  community: string;
+  /** Fingerprint of the pinned (previously trusted) key */
+  oldFingerprint: string;
+  /** Fingerprint of the key the relay now reports */
+  newFingerprint: string;
+  keyUpdatedAt: string | null;
+  /** True under the 'warn' policy (new key trusted); false until approveContactKey() under 'block-until-approved' */
+  approved: boolean;
+}
+
+export interface ContactRecoveryEvent {
+  username: string;
+  community: string;
+  /** True when a key recovery started, false when it ended (completed or abandoned) */
+  recoveryInProgress: boolean;
+}
+
+export interface FileProgressEvent {
+  transferId: string;
+  direction: 'send' | 'receive';
+  /** The recipient when sending, the sender when receiving */
+  peer: string;
+  name: string;
+  size: number;
+  chunks: number;
+  /** Chunks delivered (send) or received (receive) so far */
+  chunksDone: number;
+}
+
+export interface KeyRotatedEvent {
+  /** The community of a community-specific key; undefined for the default key */
+  community?: string;
+  communities: string[];
+  oldPublicKey: string;
+  publicKey: string;
+  /** The new Ed25519 private key (PKCS8 DER) — store it unless the client has a keystore */
+  privateKey: Buffer;
+}
+
+export interface KeyRotationFailedEvent {
+  community?: string;
+  /** The key that is still in use */
+  publicKey: string;
+  error: string;
+}
+
 export interface A2ANetworkEvents {
   message: [msg: Message];
+  duplicate: [event: DuplicateMessageEvent];
   'contact-request': [req: ContactRequest];
   broadcast: [broadcast: Broadcast];
   'delivery-status': [status: DeliveryStatus];
   'group-invitation': [invitation: GroupInvitationEvent];
   'group-member-change': [change: GroupMemberChangeEvent];
   'group-message': [msg: GroupMessage];
+  'group-delivery-complete': [report: GroupDeliveryReport];
   'community:status': [event: CommunityStatusEvent];
+  'presence-change': [event: PresenceChangeEvent];
+  'contact-added': [event: ContactChangeEvent];
+  'contact-removed': [event: ContactChangeEvent];
+  'contact-updated': [event: ContactChangeEvent];
+  'contact:key-changed': [event: ContactKeyChangedEvent];
+  'contact:recovery': [event: ContactRecoveryEvent];
+  'file-progress': [event: FileProgressEvent];
+  'file-received': [file: ReceivedFile];
+  'key:expiring': [status: KeyStatus];
+  'key:rotated': [event: KeyRotatedEvent];
+  'key:rotation-failed': [event: KeyRotationFailedEvent];
+  'retry-queue:persist-error': [error: Error];
+  'replay-cache:persist-error': [error: Error];
 }
 
 export interface A2ANetworkInternalOptions extends A2ANetworkOptions {
@@ -84,7 +214,7 @@ export interface A2ANetworkInternalOptions extends A2ANetworkOptions {
   relayAPIs?: Record<string, IRelayAPI>;
   /** Injectable delivery function (for testing). If not provided, uses HTTP POST. */
   deliverFn?: DeliverFn;
-  /** Custom retry delays in ms (for testing). Default: [10000, 30000, 90000]. */
+  /** Explicit retry delay schedule in ms (for testing). Overrides retryPolicy. */
   retryDelays?: number[];
   /** Custom retry process interval in ms (for testing). Default: 1000. */
   retryProcessInterval?: number;
@@ -93,6 +223,24 @@ export interface A2ANetworkInternalOptions extends A2ANetworkOptions {
 /** Regex for valid community names: alphanumeric + hyphen, 1-64 chars. */
 const COMMUNITY_NAME_RE = /^[a-zA-Z0-9][a-zA-Z0-9-]{0,63}$/;
 
+/** Throws unless padding is unset or a known scheme (the option and per-send overrides). */
+function validatePadding(padding: string | undefined): void {
+  if (padding && !['none', 'padme', 'bucket'].includes(padding)) {
+    throw new Error(`Invalid padding: '${padding}'`);
+  }
+}
+
+/** Throws if a per-send override is out of range (send(), sendFile(), resubmitMessage()). */
+function validateSendOptions(options: SendOptions): void {
+  validatePadding(options.padding);
+  if (options.ttl !== undefined && !(Number.isFinite(options.ttl) && options.ttl >= 0)) {
+    throw new Error('ttl must be >= 0');
+  }
+  if (options.maxAttempts !== undefined && !(Number.isInteger(options.maxAttempts) && options.maxAttempts >= 1)) {
+    throw new Error('maxAttempts must be a positive integer');
+  }
+}
+
 /**
  * Validate and normalize SDK config. Returns resolved communities array.
  * Throws on invalid config.
@@ -107,6 +255,43 @@ function validateConfig(options: A2ANetworkOptions): CommunityConfig[] {
   if (!relayUrl && !communities) {
     throw new Error('Either relayUrl or communities must be provided');
   }
+  if (options.privateKey && options.signer) {
+    throw new Error('privateKey and signer are mutually exclusive');
+  }
+  if (!options.privateKey && !options.signer) {
+    throw new Error('Either privateKey or signer must be provided');
+  }
+
+  if (options.retryPolicy) validateRetryPolicy(options.retryPolicy);
+  if (options.keyPolicy) validateKeyPolicy(options.keyPolicy);
+  if (options.keyChangePolicy && !['warn', 'block-until-approved'].includes(options.keyChangePolicy)) {
+    throw new Error(`Invalid keyChangePolicy: '${options.keyChangePolicy}'`);
+  }
+  if (options.recoveryPolicy && !['allow', 'warn', 'refuse'].includes(options.recoveryPolicy)) {
+    throw new Error(`Invalid recoveryPolicy: '${options.recoveryPolicy}'`);
+  }
+  if (options.groupEncryption && !['pairwise', 'sender-key'].includes(options.groupEncryption)) {
+    throw new Error(`Invalid groupEncryption: '${options.groupEncryption}'`);
+  }
+  if (options.compression && !['none', 'gzip', 'br'].includes(options.compression)) {
+    throw new Error(`Invalid compression: '${options.compression}'`);
+  }
+  validatePadding(options.padding);
+  for (const [name, value] of Object.entries({
+    presenceTtl: options.presenceTtl,
+    cacheSaveDelay: options.cacheSaveDelay,
+    presencePollInterval: options.presencePollInterval,
+    rosterRefreshInterval: options.rosterRefreshInterval,
+    keyCacheSize: options.keyCacheSize,
+    compressionThreshold: options.compressionThreshold,
+    maxDecompressedBytes: options.maxDecompressedBytes,
+    maxFileBytes: options.maxFileBytes,
+    rotationGracePeriod: options.rotationGracePeriod,
+  })) {
+    if (value !== undefined && !(value >= 0)) {
+      throw new Error(`${name} must be >= 0`);
+    }
+  }
 
   // Single-relay → implicit 'default' community
   if (relayUrl) {
@@ -132,33 +317,100 @@ function validateConfig(options: A2ANetworkOptions): CommunityConfig[] {
     if (!c.primary) {
       throw new Error(`Community '${c.name}' is missing required field: primary`);
     }
+    if (c.privateKey && c.signer) {
+      throw new Error(`Community '${c.name}': privateKey and signer are mutually exclusive`);
+    }
   }
 
   return communities!;
 }
 
+/** Throws if any retry policy field is out of range. */
+function validateRetryPolicy(policy: RetryPolicy): void {
+  const { maxAttempts, initialDelayMs, backoffFactor, maxDelayMs, jitter, maxAgeMs } = policy;
+  if (maxAttempts !== undefined && !(Number.isInteger(maxAttempts) && maxAttempts >= 1)) {
+    throw new Error('retryPolicy.maxAttempts must be a positive integer');
+  }
+  for (const [name, value] of Object.entries({ initialDelayMs, maxDelayMs, maxAgeMs })) {
+    if (value !== undefined && !(value >= 0)) {
+      throw new Error(`retryPolicy.${name} must be >= 0`);
+    }
+  }
+  if (backoffFactor !== undefined && !(backoffFactor >= 1)) {
+    throw new Error('retryPolicy.backoffFactor must be >= 1');
+  }
+  if (jitter !== undefined && !(jitter >= 0 && jitter <= 1)) {
+    throw new Error('retryPolicy.jitter must be between 0 and 1');
+  }
+}
+
+/** Throws if any key policy field is out of range. */
+function validateKeyPolicy(policy: KeyPolicy): void {
+  const { maxKeyAge, rotationWindow, notifyBefore, checkInterval } = policy;
+  if (!(maxKeyAge > 0)) {
+    throw new Error('keyPolicy.maxKeyAge must be > 0');
+  }
+  for (const [name, value] of Object.entries({ rotationWindow, notifyBefore, checkInterval })) {
+    if (value !== undefined && !(value >= 0)) {
+      throw new Error(`keyPolicy.${name} must be >= 0`);
+    }
+  }
+}
+
+const DEFAULT_KEY_NOTIFY_BEFORE = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_KEY_CHECK_INTERVAL = 60 * 60 * 1000;
+
+const KEY_CHANGED_ERROR = 'Contact key changed; approve it with approveContactKey()';
+const RECOVERY_ERROR = 'Contact key recovery in progress; their key may be about to change';
+
 export class A2ANetwork extends EventEmitter {
-  private options: A2ANetworkOptions & { dataDir: string; heartbeatInterval: number; retryQueueMax: number; failoverThreshold: number };
+  private options: A2ANetworkOptions & { dataDir: string; heartbeatInterval: number; retryQueueMax: number; failoverThreshold: number; receipts: boolean; presenceTtl: number; cacheSaveDelay: number; rosterRefreshInterval: number; keyChangePolicy: KeyChangePolicy; recoveryPolicy: RecoveryPolicy; forwardSecrecy: boolean; ratchet: boolean; groupEncryption: GroupEncryption; compression: PayloadCompression | 'none'; compressionThreshold: number; maxDecompressedBytes: number; maxFileBytes: number; padding: PayloadPadding | 'none'; rotationGracePeriod: number };
   /** Resolved communities (always present — single relayUrl creates 'default' community). */
   readonly communities: CommunityConfig[];
   private started = false;
   private relayAPI: IRelayAPI;
   private communityManager: CommunityRelayManager;
-  private privateKeyObj: KeyObject;
+  /** Our identity key: in memory (privateKey) or behind the `signer` option. */
+  private identity: IdentityKey;
+  /** Keys replaced by rotateIdentity(), still tried for decryption until `until` */
+  private retiredIdentities: Array<{ identity: IdentityKey; until: number }> = [];
   /** Per-community contact caches keyed by community name. */
   private caches: Map<string, CacheData> = new Map();
+  /** When each community's contacts were last fetched from its relay (drives presenceTtl). */
+  private contactsFetchedAt: Map<string, number> = new Map();
+  /** In-flight relay getContacts calls per community, shared by concurrent callers. */
+  private contactsInFlight: Map<string, Promise<RelayContact[] | null>> = new Map();
+  /** Communities whose cache changed since the last write to disk. */
+  private dirtyCaches: Set<string> = new Set();
+  private cacheSaveTimer: ReturnType<typeof setTimeout> | null = null;
+  private presencePollTimer: ReturnType<typeof setInterval> | null = null;
+  private rosterRefreshTimer: ReturnType<typeof setInterval> | null = null;
+  private keyCheckTimer: ReturnType<typeof setInterval> | null = null;
   private retryQueue: RetryQueue;
   private deliverFn: DeliverFn;
   private deliveryReports: Map<string, DeliveryReport> = new Map();
   private static MAX_DELIVERY_REPORTS = 500;
+  private groupDeliveryReports: Map<string, GroupDeliveryReport> = new Map();
+  private static MAX_GROUP_DELIVERY_REPORTS = 100;
+  /** Digests of sent messages awaiting a receipt and of received ones we acknowledged. */
+  private receipts: ReceiptStore;
   private seenBroadcastIds: Set<string> = new Set();
   private static MAX_SEEN_BROADCAST_IDS = 1000;
   private seenContactRequestIds: Set<string> = new Set();
   private static MAX_SEEN_CONTACT_REQUEST_IDS = 500;
   private memberCache: Map<string, { members: RelayGroupMember[]; fetchedAt: number }> = new Map();
   private static MEMBER_CACHE_TTL = 60_000; // 60s staleness threshold
-  private seenGroupMessageIds: Set<string> = new Set();
-  private static MAX_SEEN_GROUP_MSG_IDS = 1000;
+  private replayCache: ReplayCache;
+  private sessions: SessionStore;
+  private keyCache: KeyCache;
+  private transfers: TransferStore;
+  /** Set when created by fromKeystore(): rotateKey() persists new keys to it */
+  private keystore: Keystore | null = null;
+  /** When our keys went into use (only with a keyPolicy) */
+  private keyAges: KeyAgeStore | null;
+  /** In-flight checkKeys() run, shared by concurrent callers */
+  private keyCheck: Promise<KeyStatus[]> | null = null;
+  private inboxServer: Server | null = null;
 
   constructor(options: A2ANetworkInternalOptions) {
     super();
@@ -171,18 +423,26 @@ export class A2ANetwork extends EventEmitter {
       heartbeatInterval: 5 * 60 * 1000,
       retryQueueMax: 100,
       failoverThreshold: 3,
+      receipts: true,
+      presenceTtl: 0,
+      cacheSaveDelay: 1000,
+      rosterRefreshInterval: 5 * 60 * 1000,
+      keyChangePolicy: 'warn',
+      recoveryPolicy: 'warn',
+      forwardSecrecy: true,
+      ratchet: false,
+      groupEncryption: 'pairwise',
+      compression: 'none',
+      compressionThreshold: DEFAULT_COMPRESSION_THRESHOLD,
+      maxDecompressedBytes: DEFAULT_MAX_DECOMPRESSED_BYTES,
+      maxFileBytes: DEFAULT_MAX_FILE_BYTES,
+      padding: 'none',
+      rotationGracePeriod: 24 * 60 * 60 * 1000,
       ...options,
     };
 
-    // Convert Buffer (PKCS8 DER) to KeyObject and validate key type
-    this.privateKeyObj = createPrivateKey({
-      key: Buffer.from(this.options.privateKey),
-      format: 'der',
-      type: 'pkcs8',
-    });
-    if (this.privateKeyObj.asymmetricKeyType !== 'ed25519') {
-      throw new Error(`Expected Ed25519 private key, got '${this.privateKeyObj.asymmetricKeyType}'`);
-    }
+    // Wrap a PKCS8 DER key in a LocalSigner (validates the key type)
+    this.identity = this.options.signer ?? new LocalSigner(this.options.privateKey!);
 
     // Build CommunityRelayManager — handles per-community API instances and heartbeats
     // When relayAPI is injected (single relay backward compat), use it as default:primary
@@ -193,7 +453,7 @@ export class A2ANetwork extends EventEmitter {
     this.communityManager = new CommunityRelayManager(
       this.communities,
       this.options.username,
-      this.privateKeyObj,
+      this.identity,
       this.options.failoverThreshold,
       managerAPIs,
     );
@@ -206,52 +466,107 @@ export class A2ANetwork extends EventEmitter {
       this.emit('community:status', event);
     });
 
+    // Replay protection for direct + group messages, persisted under dataDir
+    this.replayCache = new ReplayCache(getReplayCachePath(this.options.dataDir), options.replayWindow);
+    // Cache couldn't be written (dataDir full or read-only): messages are still
+    // accepted and deduplicated, but the window won't survive a restart
+    this.replayCache.on('persist-error', (err: Error) => this.emit('replay-cache:persist-error', err));
+
+    // Receipt digests, persisted so receipts match across restarts
+    this.receipts = new ReceiptStore(getReceiptStorePath(this.options.dataDir), this.options.cacheSaveDelay);
+
+    // Double-ratchet sessions and per-contact preferences, persisted under dataDir
+    this.sessions = new SessionStore(getSessionStorePath(this.options.dataDir));
+
+    // Derived pairwise keys, reused across envelopes (in memory only)
+    this.keyCache = new KeyCache(options.keyCacheSize);
+
+    // Staged outgoing and partial incoming file transfers, under dataDir
+    this.transfers = new TransferStore(this.options.dataDir);
+
+    // Key creation times for the key lifecycle policy, under dataDir
+    this.keyAges = options.keyPolicy ? new KeyAgeStore(getKeyAgeStorePath(this.options.dataDir)) : null;
+
     // Delivery function: injectable for testing, defaults to HTTP POST
     this.deliverFn = options.deliverFn || httpDeliver;
 
-    // Retry queue with configurable timing
+    // Retry queue with configurable timing, persisted under dataDir
     this.retryQueue = new RetryQueue(
       this.options.retryQueueMax,
-      options.retryDelays,
+      options.retryDelays ?? options.retryPolicy,
       options.retryProcessInterval,
+      getRetryQueuePath(this.options.dataDir),
     );
 
     // Wire retry queue's send function with delivery tracking
     this.retryQueue.setSendFn(async (msg) => {
+      if (msg.kind === 'file') return this.deliverFile(msg.messageId, false, msg.padding);
       const contact = this.getCachedContact(msg.recipient);
       if (!contact) return false;
+      const blocked = this.sendBlockedReason(contact);
+      if (blocked) {
+        this.recordAttempt(msg.messageId, false, '', undefined, blocked, 0, msg.recipient);
+        return false;
+      }
 
       const startTime = Date.now();
       const presence = await this.checkPresence(msg.recipient);
       if (!presence.online) {
-        this.recordAttempt(msg.messageId, presence.online, presence.endpoint || '', undefined, 'Recipient offline', Date.now() - startTime);
+        this.recordAttempt(msg.messageId, presence.online, presence.endpoint || '', undefined, 'Recipient offline', Date.now() - startTime, msg.recipient);
+        return false;
+      }
+
+      // The presence check refreshed the contact: a key change or recovery it
+      // found blocks this attempt too
+      const current = this.getCachedContact(msg.recipient) ?? contact;
+      const blockedNow = this.sendBlockedReason(current);
+      if (blockedNow) {
+        this.recordAttempt(msg.messageId, false, '', undefined, blockedNow, Date.now() - startTime, msg.recipient);
         return false;
       }
 
-      const endpoint = presence.endpoint || contact.endpoint;
+      const endpoint = presence.endpoint || current.endpoint;
       if (!endpoint) return false;
 
       const envelope = buildEnvelope({
         sender: this.options.username,
         recipient: msg.recipient,
         payload: msg.payload,
-        senderPrivateKey: this.privateKeyObj,
-        recipientPublicKeyBase64: contact.publicKey,
+        senderPrivateKey: this.identity,
+        recipientPublicKeyBase64: this.trustedKey(current),
         messageId: msg.messageId,
         type: msg.groupId ? 'group' : 'direct',
         groupId: msg.groupId,
+        ...this.envelopeEncryption(current),
+        ...this.envelopeCompression(current),
+        ...this.envelopePadding(current, msg.padding),
+        keyCache: this.keyCache,
       });
 
       const success = await this.deliverFn(endpoint, envelope);
-      this.recordAttempt(msg.messageId, true, endpoint, success ? 200 : 0, success ? undefined : 'Delivery failed', Date.now() - startTime);
+      this.recordAttempt(msg.messageId, true, endpoint, success ? 200 : 0, success ? undefined : 'Delivery failed', Date.now() - startTime, msg.recipient);
       if (success) this.finalizeReport(msg.messageId, 'delivered');
       return success;
     });
 
-    // Forward retry queue delivery-status events
+    // Forward retry queue delivery-status events; record why a message gave up
     this.retryQueue.on('delivery-status', (status: DeliveryStatus) => {
+      if (status.groupId) {
+        this.updateGroupMember(status);
+      } else if (status.status === 'expired' || status.status === 'failed') {
+        const lastError = this.deliveryReports.get(status.messageId)?.attempts.at(-1)?.error;
+        this.finalizeReport(status.messageId, status.status, lastError ? `${status.reason}: ${lastError}` : status.reason);
+      } else if (status.status === 'cancelled') {
+        this.finalizeReport(status.messageId, 'cancelled', status.reason);
+        this.receipts.settle(status.messageId);
+        this.transfers.removeOutgoing(status.messageId);
+      }
       this.emit('delivery-status', status);
     });
+
+    // Queue snapshot couldn't be written (dataDir full or read-only): sends
+    // still work, but queued messages won't survive a restart
+    this.retryQueue.on('persist-error', (err: Error) => this.emit('retry-queue:persist-error', err));
   }
 
   /**
@@ -266,7 +581,31 @@ export class A2ANetwork extends EventEmitter {
     };
   }
 
-  /** Start the network client (loads cache, begins heartbeat, starts retry queue). */
+  /**
+   * Create a client whose identity keys come from a passphrase-encrypted
+   * keystore (see Keystore.create()). The default key becomes `privateKey`;
+   * a stored community key is used for a configured community of that name
+   * unless the community sets its own privateKey or signer.
+   *
+   * rotateKey() then requires the new private key and writes it back to the
+   * keystore.
+   */
+  static fromKeystore(path: string, passphrase: string, options: Omit<A2ANetworkInternalOptions, 'privateKey' | 'signer'>): A2ANetwork {
+    const keystore = Keystore.open(path, passphrase);
+    const keys = keystore.keys();
+    const network = new A2ANetwork({
+      ...options,
+      privateKey: keys.privateKey,
+      communities: options.communities?.map((c) => {
+        const stored = keys.communities?.[c.name];
+        return stored && !c.privateKey && !c.signer ? { ...c, privateKey: stored } : c;
+      }),
+    });
+    network.keystore = keystore;
+    return network;
+  }
+
+  /** Start the network client (loads cache, begins heartbeat, restores and starts retry queue). */
   async start(): Promise<void> {
     if (this.started) return;
 
@@ -290,23 +629,70 @@ export class A2ANetwork extends EventEmitter {
     // Start periodic heartbeat timers (per-community)
     this.communityManager.startHeartbeats(this.options.endpoint, this.options.heartbeatInterval);
 
-    // Start retry queue processing
+    // Scheduled roster refresh and optional presence poll — diffs against the
+    // cache drive 'contact-*' and 'presence-change' events
+    const refreshAll = () => {
+      for (const community of this.communities) {
+        void this.fetchContacts(community.name, true);
+      }
+    };
+    if (this.options.rosterRefreshInterval) {
+      this.rosterRefreshTimer = setInterval(refreshAll, this.options.rosterRefreshInterval);
+    }
+    if (this.options.presencePollInterval) {
+      this.presencePollTimer = setInterval(refreshAll, this.options.presencePollInterval);
+    }
+
+    // Reload messages queued before the last shutdown/crash, then start processing
+    for (const msg of this.retryQueue.restore()) {
+      if (!this.deliveryReports.has(msg.messageId)) this.initReport(msg.messageId);
+      if (!msg.groupId && !msg.kind) this.expectReceipt(msg.messageId, msg.recipient, msg.payload);
+    }
     this.retryQueue.start();
 
+    // Drop incoming file transfers abandoned while we were down
+    this.transfers.expireIncoming();
+
+    // Key lifecycle policy: check key ages now and on a schedule
+    if (this.keyAges) {
+      const checkKeys = () => void this.checkKeys().catch(() => { /* retried on the next check */ });
+      checkKeys();
+      const interval = this.options.keyPolicy!.checkInterval ?? DEFAULT_KEY_CHECK_INTERVAL;
+      if (interval) this.keyCheckTimer = setInterval(checkKeys, interval);
+    }
+
     this.started = true;
   }
 
   /** Stop the network client. */
   async stop(): Promise<void> {
+    // Close the built-in inbox server (if listen() was used)
+    if (this.inboxServer) {
+      const server = this.inboxServer;
+      this.inboxServer = null;
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
     if (!this.started) return;
 
-    // Stop all community heartbeats
+    // Stop all community heartbeats, the roster refresh, the presence poll and key checks
     this.communityManager.stopHeartbeats();
+    for (const timer of [this.rosterRefreshTimer, this.presencePollTimer, this.keyCheckTimer]) {
+      if (timer) clearInterval(timer);
+    }
+    this.rosterRefreshTimer = null;
+    this.presencePollTimer = null;
+    this.keyCheckTimer = null;
 
     // Stop retry queue
     this.retryQueue.stop();
 
-    // Flush all community caches
+    // Fold the replay journal into its snapshot; write pending receipt digests
+    this.replayCache.compact();
+    this.receipts.flush();
+
+    // Flush all community caches (supersedes any pending debounced save)
+    this.cancelCacheSave();
     for (const community of this.communities) {
       const cache = this.caches.get(community.name);
       if (cache) {
@@ -387,25 +773,20 @@ export class A2ANetwork extends EventEmitter {
 
     const results = await Promise.allSettled(
       this.communities.map(async (community) => {
-        try {
-          const api = this.communityManager.getActiveApi(community.name);
-          const result = await api.getContacts();
-          if (result.ok && result.data) {
-            this.updateContactsCache(result.data, community.name);
-            return { community: community.name, contacts: result.data };
-          }
-        } catch { /* relay unreachable */ }
-        return { community: community.name, contacts: null };
+        const contacts = await this.fetchContacts(community.name, true);
+        return { community: community.name, contacts };
       }),
     );
 
+    this.flushContactsCaches();
+
     // Collect relay results
     for (const r of results) {
       if (r.status === 'fulfilled' && r.value.contacts) {
         for (const c of r.value.contacts) {
           if (seen.has(c.agent)) continue;
           seen.add(c.agent);
-          allContacts.push(toContact(c));
+          allContacts.push(toContact(c, this.findContact(c.agent, r.value.community)?.contact.verified));
         }
       }
     }
@@ -420,16 +801,7 @@ export class A2ANetwork extends EventEmitter {
       for (const c of cache.contacts) {
         if (seen.has(c.username)) continue;
         seen.add(c.username);
-        allContacts.push({
-          username: c.username,
-          publicKey: c.publicKey,
-          endpoint: c.endpoint || '',
-          addedAt: c.addedAt,
-          online: c.online || false,
-          lastSeen: c.lastSeen || null,
-          keyUpdatedAt: null,
-          recoveryInProgress: false,
-        });
+        allContacts.push(fromCached(c));
       }
     }
     return allContacts;
@@ -479,41 +851,103 @@ export class A2ANetwork extends EventEmitter {
     return { username: parsed.username, community: this.communities[0].name };
   }
 
+  /**
+   * Trust the key the relay currently reports for a contact, replacing its
+   * pin. Needed under the 'block-until-approved' policy after a
+   * contact:key-changed event; queued messages to the contact are retried.
+   * Returns false if the contact is unknown or its key has not changed.
+   */
+  approveContactKey(nameOrQualified: string): boolean {
+    const found = this.findContact(nameOrQualified);
+    if (!found || found.contact.pinnedKey === found.contact.publicKey) return false;
+
+    found.contact.pinnedKey = found.contact.publicKey;
+    delete found.contact.verified;
+    saveCache(getCommunityCachePath(this.options.dataDir, found.community), found.cache);
+    if (this.started) this.retryQueue.retryNow((msg) => msg.recipient === found.contact.username);
+    return true;
+  }
+
+  /**
+   * Fingerprint of the contact's pinned key (16 groups of 4 hex digits), for
+   * comparing with the fingerprint the contact reports for itself.
+   * Undefined if the contact is not in the local cache.
+   */
+  getFingerprint(nameOrQualified: string): string | undefined {
+    const found = this.findContact(nameOrQualified);
+    return found && keyFingerprint(found.contact.pinnedKey ?? found.contact.publicKey);
+  }
+
+  /**
+   * Safety number for this agent and a contact (60 digits in groups of 5),
+   * derived from both Ed25519 keys. Both sides compute the same number; a
+   * mismatch read over another channel means one side sees a substituted key.
+   * Undefined if the contact is not in the local cache.
+   */
+  getSafetyNumber(nameOrQualified: string): string | undefined {
+    const found = this.findContact(nameOrQualified);
+    if (!found) return undefined;
+    return safetyNumber(this.identity.publicKey, found.contact.pinnedKey ?? found.contact.publicKey);
+  }
+
+  /**
+   * Record that the contact's pinned key was verified out-of-band (e.g. by
+   * comparing safety numbers), or clear it with `verified = false`. Exposed as
+   * `Contact.verified`; cleared automatically when the pinned key changes.
+   * Returns false if the contact is not in the local cache.
+   */
+  markVerified(nameOrQualified: string, verified = true): boolean {
+    const found = this.findContact(nameOrQualified);
+    if (!found) return false;
+
+    if (verified) found.contact.verified = true;
+    else delete found.contact.verified;
+    saveCache(getCommunityCachePath(this.options.dataDir, found.community), found.cache);
+    return true;
+  }
+
+  /**
+   * Choose per contact whether to use a double-ratchet session (v2.2):
+   * true/false override the `ratchet` option, undefined follows it again
+   * (or replies on a session the contact started). Contacts that don't advertise 2.2 keep the static/forward-secret scheme
+   * either way. Persisted under dataDir.
+   */
+  setRatchet(nameOrQualified: string, enabled: boolean | undefined): void {
+    this.sessions.setEnabled(this.resolveContactCommunity(nameOrQualified).username, enabled);
+  }
+
+  /**
+   * Discard the ratchet session(s) with a contact, e.g. after the contact
+   * lost its session state. The next ratchet message starts a new session.
+   * Returns false if there was none.
+   */
+  resetRatchet(nameOrQualified: string): boolean {
+    return this.sessions.reset(this.resolveContactCommunity(nameOrQualified).username);
+  }
+
   // --- Presence ---
 
   /**
    * Check if a contact is online. Uses contacts data (which includes
    * online/lastSeen in v3) rather than a separate presence endpoint.
+   *
+   * Relay data younger than `presenceTtl` is served from the local cache;
+   * `forceRefresh` always asks the relay. Concurrent checks against the same
+   * community share one relay request.
    */
-  async checkPresence(username: string): Promise<{ agent: string; online: boolean; endpoint?: string; lastSeen: string }> {
+  async checkPresence(username: string, options: { forceRefresh?: boolean } = {}): Promise<{ agent: string; online: boolean; endpoint?: string; lastSeen: string }> {
     // Resolve which community this contact belongs to
     const resolved = this.resolveContactCommunity(username);
-    const api = this.communityManager.getActiveApi(resolved.community);
 
-    // Try relay contacts (which now include presence info)
-    try {
-      const result = await api.getContacts();
-      if (result.ok && result.data) {
-        this.updateContactsCache(result.data, resolved.community);
-        const contact = result.data.find(c => c.agent === resolved.username);
-        if (contact) {
-          return {
-            agent: resolved.username,
-            online: contact.online,
-            endpoint: contact.endpoint || undefined,
-            lastSeen: contact.lastSeen || '',
-          };
-        }
-      }
-    } catch {
-      // Relay unreachable — fall back to cache
-    }
+    // Refresh the community's contacts (which include presence info) unless still fresh
+    await this.fetchContacts(resolved.community, options.forceRefresh);
 
-    // Fall back to cached contact data
-    const cached = this.getCachedContact(username);
+    // Prefer the resolved community's data, then any other community's
+    const cached = this.caches.get(resolved.community)?.contacts.find((c) => c.username === resolved.username)
+      ?? this.getCachedContact(resolved.username);
     if (cached) {
       return {
-        agent: username,
+        agent: resolved.username,
         online: cached.online || false,
         endpoint: cached.endpoint || undefined,
         lastSeen: cached.lastSeen || '',
@@ -534,8 +968,19 @@ export class A2ANetwork extends EventEmitter {
    * 3. Build encrypted envelope (X25519 ECDH + AES-256-GCM, Ed25519 signed)
    * 4. Deliver to recipient's endpoint
    * 5. If delivery fails, queue for retry
+   *
+   * `options.ttl` / `options.deadline` / `options.maxAttempts` override the
+   * retry policy for this message only, and `options.padding` the `padding`
+   * option (throws if it is not a known scheme).
    */
-  async send(to: string, payload: Record<string, unknown>): Promise<SendResult> {
+  async send(to: string, payload: Record<string, unknown>, options: SendOptions = {}): Promise<SendResult> {
+    validateSendOptions(options);
+    const expiresAt = resolveExpiry(options);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      return { status: 'failed', messageId: '', error: 'Deadline has already passed' };
+    }
+    const queueOptions = { expiresAt, maxAttempts: options.maxAttempts, padding: options.padding };
+
     // Resolve qualified name to {username, community}
     const resolved = this.resolveContactCommunity(to);
     const recipientName = resolved.username;
@@ -554,38 +999,57 @@ export class A2ANetwork extends EventEmitter {
     if (!contact.publicKey) {
       return { status: 'failed', messageId: '', error: 'Contact has no public key' };
     }
+    if (this.isKeyBlocked(contact)) {
+      return { status: 'failed', messageId: '', error: KEY_CHANGED_ERROR };
+    }
+
+    // Check presence (using unqualified name — already resolved above)
+    const startTime = Date.now();
+    const presence = await this.checkPresence(recipientName, { forceRefresh: options.forceRefresh });
+
+    // The presence check refreshed the contact, including its key and recovery
+    // flag: refuse before anything is built, reported or expected for it
+    const current = this.getCachedContact(recipientName) ?? contact;
+    if (this.isKeyBlocked(current)) {
+      return { status: 'failed', messageId: '', error: KEY_CHANGED_ERROR };
+    }
+    if (this.isRecoveryBlocked(current)) {
+      return { status: 'failed', messageId: '', error: RECOVERY_ERROR };
+    }
+    const warning = current.recoveryInProgress && this.options.recoveryPolicy === 'warn' ? RECOVERY_ERROR : undefined;
 
     // Build encrypted, signed envelope (always unqualified names in wire format)
     const envelope = buildEnvelope({
       sender: this.options.username,
       recipient: recipientName,
       payload,
-      senderPrivateKey: this.privateKeyObj,
-      recipientPublicKeyBase64: contact.publicKey,
+      senderPrivateKey: this.identity,
+      recipientPublicKeyBase64: this.trustedKey(current),
+      ...this.envelopeEncryption(current),
+      ...this.envelopeCompression(current),
+      ...this.envelopePadding(current, options.padding),
+      keyCache: this.keyCache,
     });
 
-    // Initialize delivery report
+    // Initialize delivery report and remember what a receipt must acknowledge
     this.initReport(envelope.messageId);
-
-    // Check presence (using unqualified name — already resolved above)
-    const startTime = Date.now();
-    const presence = await this.checkPresence(recipientName);
+    this.expectReceipt(envelope.messageId, recipientName, payload);
 
     if (!presence.online) {
       this.recordAttempt(envelope.messageId, false, '', undefined, 'Recipient offline', Date.now() - startTime);
       // Offline — queue for retry
-      const queued = this.retryQueue.enqueue(envelope.messageId, recipientName, payload);
+      const queued = this.retryQueue.enqueue(envelope.messageId, recipientName, payload, undefined, queueOptions);
       if (queued) {
-        return { status: 'queued', messageId: envelope.messageId };
+        return { status: 'queued', messageId: envelope.messageId, ...(warning && { warning }) };
       }
-      this.finalizeReport(envelope.messageId, 'failed');
+      this.finalizeReport(envelope.messageId, 'failed', 'Retry queue full');
       return { status: 'failed', messageId: envelope.messageId, error: 'Retry queue full' };
     }
 
     // Online — try direct delivery
     const endpoint = presence.endpoint || contact.endpoint;
     if (!endpoint) {
-      this.finalizeReport(envelope.messageId, 'failed');
+      this.finalizeReport(envelope.messageId, 'failed', 'No endpoint for recipient');
       return { status: 'failed', messageId: envelope.messageId, error: 'No endpoint for recipient' };
     }
 
@@ -594,15 +1058,15 @@ export class A2ANetwork extends EventEmitter {
 
     if (delivered) {
       this.finalizeReport(envelope.messageId, 'delivered');
-      return { status: 'delivered', messageId: envelope.messageId };
+      return { status: 'delivered', messageId: envelope.messageId, ...(warning && { warning }) };
     }
 
     // Delivery failed — queue for retry
-    const queued = this.retryQueue.enqueue(envelope.messageId, recipientName, payload);
+    const queued = this.retryQueue.enqueue(envelope.messageId, recipientName, payload, undefined, queueOptions);
     if (queued) {
-      return { status: 'queued', messageId: envelope.messageId };
+      return { status: 'queued', messageId: envelope.messageId, ...(warning && { warning }) };
     }
-    this.finalizeReport(envelope.messageId, 'failed');
+    this.finalizeReport(envelope.messageId, 'failed', 'Delivery failed and retry queue full');
     return { status: 'failed', messageId: envelope.messageId, error: 'Delivery failed and retry queue full' };
   }
 
@@ -612,10 +1076,19 @@ export class A2ANetwork extends EventEmitter {
    * Verifies the sender is a contact, checks Ed25519 signature,
    * decrypts AES-256-GCM payload, and emits 'message' event.
    *
-   * Returns null if the message is not addressed to this agent.
-   * Throws on non-contact sender, invalid signature, or decryption failure.
+   * Returns null (and emits 'duplicate') if this (sender, messageId) was
+   * already processed within the replay window.
+   * Throws on misaddressed envelope, non-contact sender, invalid signature, or decryption failure.
+   *
+   * Unless `options.receipt` is false (or receipts are disabled globally),
+   * a signed receipt is sent back to the sender in the background, and sent
+   * again for each duplicate in case the first was lost.
    */
-  receiveMessage(envelope: WireEnvelope): Message {
+  receiveMessage(envelope: WireEnvelope, options?: { receipt?: boolean }): Message | null {
+    if (envelope.type === 'receipt') {
+      throw new Error('Receipt envelope — use receiveReceipt()');
+    }
+
     // Validate it's addressed to us
     if (envelope.recipient !== this.options.username) {
       throw new Error(`Message not addressed to us (to: ${envelope.recipient})`);
@@ -631,12 +1104,21 @@ export class A2ANetwork extends EventEmitter {
       throw new Error(`No public key for sender '${envelope.sender}'`);
     }
 
-    // Verify signature + decrypt
-    const processed = processEnvelope({
-      envelope,
-      recipientPrivateKey: this.privateKeyObj,
-      senderPublicKeyBase64: contact.publicKey,
-    });
+    const sendReceipt = this.options.receipts && options?.receipt !== false;
+
+    // Verify signature + decrypt. A replayed ratchet envelope comes back null.
+    const processed = this.openEnvelope(envelope, contact);
+    if (!processed) {
+      if (sendReceipt) this.resendReceipt(contact, envelope.messageId);
+      return null;
+    }
+
+    // Replay check (after verification, so forged envelopes can't probe the cache).
+    // The first receipt may have been lost, so a duplicate is acknowledged again.
+    if (this.isReplay(envelope)) {
+      if (sendReceipt) this.resendReceipt(contact, envelope.messageId, payloadDigest(processed.payload));
+      return null;
+    }
 
     const msg: Message = {
       sender: processed.sender,
@@ -644,26 +1126,339 @@ export class A2ANetwork extends EventEmitter {
       timestamp: processed.timestamp,
       payload: processed.payload,
       verified: processed.verified,
+      encryption: processed.encryption,
     };
 
     // Emit event
     this.emit('message', msg);
 
+    if (sendReceipt) {
+      const digest = payloadDigest(processed.payload);
+      this.receipts.recordReceived(envelope.sender, processed.messageId, digest);
+      this.sendReceipt(contact, processed.messageId, digest).catch(() => {
+        // Best effort — the sender still has its HTTP-level delivery status
+      });
+    }
+
     return msg;
   }
 
-  // --- Admin ---
+  /**
+   * Process an incoming delivery receipt for a message we sent.
+   *
+   * Verifies and decrypts the receipt, checks it comes from the original
+   * recipient and acknowledges exactly the payload we sent, then records
+   * it in the DeliveryReport and emits 'delivery-status' with 'acknowledged'.
+   *
+   * Returns null for duplicates and for receipts that don't match a pending
+   * message (unknown, already acknowledged, wrong sender, or digest mismatch).
+   * Throws on misaddressed envelope, non-contact sender, invalid signature, or decryption failure.
+   */
+  receiveReceipt(envelope: WireEnvelope): DeliveryReceipt | null {
+    if (envelope.type !== 'receipt') {
+      throw new Error('Not a receipt envelope');
+    }
+    if (envelope.recipient !== this.options.username) {
+      throw new Error(`Message not addressed to us (to: ${envelope.recipient})`);
+    }
+
+    const contact = this.getCachedContact(envelope.sender);
+    if (!contact?.publicKey) {
+      throw new Error(`Sender '${envelope.sender}' is not a contact`);
+    }
+
+    const processed = this.openEnvelope(envelope, contact);
+    if (!processed || this.isReplay(envelope)) return null;
+
+    const { receiptFor, receivedAt, digest } = processed.payload;
+    if (typeof receiptFor !== 'string' || typeof receivedAt !== 'string') {
+      throw new Error('Malformed receipt payload');
+    }
+
+    const pending = this.receipts.getExpected(receiptFor);
+    if (!pending || pending.recipient !== envelope.sender || pending.digest !== digest) {
+      return null;
+    }
+    this.receipts.settle(receiptFor);
+
+    const report = this.deliveryReports.get(receiptFor);
+    if (report) report.acknowledgedAt = receivedAt;
+
+    this.emit('delivery-status', {
+      messageId: receiptFor,
+      status: 'acknowledged',
+      attempts: report?.attempts.length ?? 0,
+      recipient: envelope.sender,
+    } satisfies DeliveryStatus);
+
+    return { messageId: receiptFor, from: envelope.sender, receivedAt };
+  }
+
+  // --- File Transfer ---
+
+  /**
+   * Send a file (path) or stream to a contact as encrypted chunks.
+   *
+   * The content is first copied under dataDir and hashed, then sent as
+   * 'file-chunk' envelopes sharing a transferId. If a chunk can't be
+   * delivered, the rest is left to the retry queue as one entry
+   * (messageId = transferId) that resends only the missing chunks, also after
+   * a restart. The recipient checks the SHA-256 on reassembly and emits
+   * 'file-received'. 'file-progress' fires after each delivered chunk.
+   *
+   * The contact must advertise v2.5 (an envelope from it came from an SDK with
+   * file transfer). Delivery problems are reported in the result; throws if
+   * the source can't be read or is larger than maxFileBytes (checked while
+   * staging, before anything is sent), or chunkSize or padding is invalid.
+   */
+  async sendFile(
+    to: string,
+    source: Readable | string,
+    metadata: Record<string, unknown> = {},
+    options: SendFileOptions = {},
+  ): Promise<FileSendResult> {
+    if (options.chunkSize !== undefined && !(Number.isSafeInteger(options.chunkSize) && options.chunkSize > 0)) {
+      throw new Error('chunkSize must be a positive integer');
+    }
+    if (options.chunkSize !== undefined && options.chunkSize < MIN_CHUNK_SIZE) {
+      // Recipients reject smaller chunks unless the whole file fits in one
+      throw new Error(`chunkSize must be at least ${MIN_CHUNK_SIZE}`);
+    }
+    validateSendOptions(options);
+    const failed = (error: string): FileSendResult => ({ status: 'failed', transferId: '', size: 0, chunks: 0, error });
+    const expiresAt = resolveExpiry(options);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      return failed('Deadline has already passed');
+    }
+
+    const resolved = this.resolveContactCommunity(to);
+    let contact = this.getCachedContact(resolved.username);
+    if (!contact) {
+      await this.refreshContactsForCommunity(resolved.community);
+      contact = this.getCachedContact(resolved.username);
+      if (!contact) return failed('Not a contact');
+    }
+    if (!contact.publicKey) return failed('Contact has no public key');
+    const blocked = this.sendBlockedReason(contact);
+    if (blocked) return failed(blocked);
+    if (!supportsVersion(contact, FILE_TRANSFER_VERSION)) {
+      return failed('Contact does not support file transfer');
+    }
+
+    const transfer = await this.transfers.stage(resolved.username, source, {
+      name: options.name,
+      chunkSize: options.chunkSize,
+      metadata,
+      maxBytes: this.options.maxFileBytes,
+    });
+    const result = { transferId: transfer.transferId, size: transfer.size, chunks: transfer.count };
+    this.initReport(transfer.transferId);
+
+    if (await this.deliverFile(transfer.transferId, options.forceRefresh, options.padding)) {
+      return { status: 'delivered', ...result };
+    }
+    // deliverFile()'s contact refresh may have found a key change or recovery:
+    // fail as send() does rather than queue chunks that can't go out
+    const blockedNow = this.sendBlockedReason(this.getCachedContact(resolved.username) ?? contact);
+    if (blockedNow) {
+      this.transfers.removeOutgoing(transfer.transferId);
+      this.finalizeReport(transfer.transferId, 'failed', blockedNow);
+      return { status: 'failed', ...result, error: blockedNow };
+    }
+    const queued = this.retryQueue.enqueue(transfer.transferId, resolved.username, { transferId: transfer.transferId }, undefined, {
+      expiresAt,
+      maxAttempts: options.maxAttempts,
+      kind: 'file',
+      padding: options.padding,
+    });
+    if (queued) {
+      return { status: 'queued', ...result };
+    }
+    this.transfers.removeOutgoing(transfer.transferId);
+    this.finalizeReport(transfer.transferId, 'failed', 'Retry queue full');
+    return { status: 'failed', ...result, error: 'Retry queue full' };
+  }
 
   /**
-   * Get an admin interface using the provided admin private key.
-   * Admin ops require the caller to be registered as an admin on the relay.
+   * Process an incoming file-chunk envelope.
+   *
+   * Verifies and decrypts it like a direct message, stores the chunk under
+   * dataDir and emits 'file-progress'. The last missing chunk completes the
+   * transfer: the file is hash-checked, saved to
+   * {dataDir}/files/<transferId>/<name> and announced with 'file-received'.
+   *
+   * Returns null (and emits 'duplicate') for a chunk already received.
+   * Throws on misaddressed envelope, non-contact sender, invalid signature,
+   * decryption failure, a malformed chunk (including chunks under 16 KB in a
+   * multi-chunk transfer), a file over maxFileBytes, a fifth unfinished
+   * transfer from the same sender, or a hash mismatch. Unfinished transfers
+   * idle for 24 hours are deleted on start() and before each new transfer.
+   */
+  receiveFileChunk(envelope: WireEnvelope): FileProgressEvent | null {
+    if (envelope.type !== 'file-chunk') {
+      throw new Error('Not a file-chunk envelope');
+    }
+    if (envelope.recipient !== this.options.username) {
+      throw new Error(`Message not addressed to us (to: ${envelope.recipient})`);
+    }
+
+    const contact = this.getCachedContact(envelope.sender);
+    if (!contact?.publicKey) {
+      throw new Error(`Sender '${envelope.sender}' is not a contact`);
+    }
+
+    const processed = this.openEnvelope(envelope, contact);
+    if (!processed) return null;
+
+    // Only record the chunk as seen once it is stored, so a chunk that failed
+    // to store is accepted when the sender retries it
+    if (this.replayCache.has(envelope.sender, envelope.messageId)) {
+      this.isReplay(envelope); // Emits 'duplicate'
+      return null;
+    }
+    const accepted = this.transfers.accept(envelope.sender, processed.payload, this.options.maxFileBytes);
+    this.replayCache.record(envelope.sender, envelope.messageId);
+
+    const progress = this.emitFileProgress('receive', envelope.sender, accepted.header, accepted.received);
+    if (accepted.path) {
+      const { transferId, name, size, sha256, metadata } = accepted.header;
+      this.emit('file-received', { transferId, sender: envelope.sender, name, size, sha256, metadata, path: accepted.path } satisfies ReceivedFile);
+    }
+    return progress;
+  }
+
+  // --- Inbox ---
+
+  /**
+   * Dispatch a raw inbound POST body (parsed JSON) by envelope type.
+   *
+   * Framework-agnostic core of the built-in inbox — call it from any HTTP
+   * route and send back the returned status and body. Never throws.
+   *
+   * Routing:
+   * - direct → receiveMessage()
+   * - group → receiveGroupMessage() (409 for duplicates)
+   * - receipt → receiveReceipt()
+   * - file-chunk → receiveFileChunk() (409 for duplicates)
+   * - key-rotation → receiveKeyRotation()
+   * - contact-request → checkContactRequests()
+   * - contact-response, revocation → refresh contacts from the relay
+   * - broadcast → checkBroadcasts()
+   *
+   * Notification types (contact-request, contact-response, revocation,
+   * broadcast) are treated as hints only: their contents are not trusted,
+   * the relay remains the source of truth.
+   */
+  async handleEnvelope(data: unknown): Promise<InboxResponse> {
+    if (!validateEnvelope(data)) {
+      return { status: 400, body: { error: 'Invalid envelope structure' } };
+    }
+    const envelope = data;
+    if (!isVersionCompatible(envelope.version)) {
+      return { status: 400, body: { error: `Incompatible version: ${envelope.version}` } };
+    }
+    if (envelope.recipient !== this.options.username) {
+      return { status: 400, body: { error: `Message not addressed to us (to: ${envelope.recipient})` } };
+    }
+
+    const isMessage = envelope.type === 'direct' || envelope.type === 'group' || envelope.type === 'receipt'
+      || envelope.type === 'file-chunk' || envelope.type === 'key-rotation';
+    if (isMessage && !this.getCachedContact(envelope.sender)) {
+      return { status: 403, body: { error: `Sender '${envelope.sender}' is not a contact` } };
+    }
+
+    try {
+      switch (envelope.type) {
+        case 'direct': {
+          const msg = this.receiveMessage(envelope);
+          if (!msg) {
+            return { status: 409, body: { error: 'Duplicate message', messageId: envelope.messageId } };
+          }
+          return { status: 200, body: { ok: true, messageId: msg.messageId } };
+        }
+        case 'receipt': {
+          const receipt = this.receiveReceipt(envelope);
+          return { status: 200, body: { ok: true, acknowledged: receipt !== null } };
+        }
+        case 'file-chunk': {
+          const progress = this.receiveFileChunk(envelope);
+          if (!progress) {
+            return { status: 409, body: { error: 'Duplicate message', messageId: envelope.messageId } };
+          }
+          return { status: 200, body: { ok: true, messageId: envelope.messageId } };
+        }
+        case 'key-rotation': {
+          const updated = await this.receiveKeyRotation(envelope);
+          return { status: 200, body: { ok: true, updated } };
+        }
+        case 'group': {
+          const msg = await this.receiveGroupMessage(envelope);
+          if (!msg) {
+            return { status: 409, body: { error: 'Duplicate message', messageId: envelope.messageId } };
+          }
+          return { status: 200, body: { ok: true, messageId: msg.messageId } };
+        }
+        case 'contact-request':
+          await this.checkContactRequests();
+          return { status: 202, body: { ok: true } };
+        case 'contact-response':
+        case 'revocation':
+          await this.refreshContactsForCommunity(this.resolveContactCommunity(envelope.sender).community);
+          return { status: 202, body: { ok: true } };
+        case 'broadcast':
+          await this.checkBroadcasts();
+          return { status: 202, body: { ok: true } };
+        default:
+          return { status: 400, body: { error: `Unsupported envelope type: ${envelope.type}` } };
+      }
+    } catch (err) {
+      return { status: 400, body: { error: err instanceof Error ? err.message : String(err) } };
+    }
+  }
+
+  /**
+   * Create a node:http request listener that receives envelopes POSTed by
+   * other agents and dispatches them via handleEnvelope().
+   *
+   * @example
+   * ```typescript
+   * http.createServer(network.createInboxHandler()).listen(8443);
+   * ```
    */
-  asAdmin(adminPrivateKey: Buffer) {
-    const adminKeyObj = createPrivateKey({
-      key: adminPrivateKey,
-      format: 'der',
-      type: 'pkcs8',
+  createInboxHandler(options?: InboxOptions): InboxHandler {
+    return createInboxHandler((body) => this.handleEnvelope(body), options);
+  }
+
+  /**
+   * Start a built-in HTTP inbox server on the given port.
+   * The server is closed by stop(). Terminate TLS in front of it (reverse proxy)
+   * if the advertised endpoint is HTTPS.
+   */
+  async listen(port: number, host?: string, options?: InboxOptions): Promise<Server> {
+    if (this.inboxServer) {
+      throw new Error('Inbox server already listening');
+    }
+    const server = createServer(this.createInboxHandler(options));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
     });
+    this.inboxServer = server;
+    return server;
+  }
+
+  // --- Admin ---
+
+  /**
+   * Get an admin interface using the provided admin private key (PKCS8 DER),
+   * or a Signer holding it. Admin ops require the caller to be registered as
+   * an admin on the relay.
+   */
+  asAdmin(adminPrivateKey: Buffer | Signer) {
+    const adminSigner = Buffer.isBuffer(adminPrivateKey) ? new LocalSigner(adminPrivateKey) : adminPrivateKey;
     const relayAPI = this.relayAPI;
 
     return {
@@ -673,7 +1468,7 @@ export class A2ANetwork extends EventEmitter {
        */
       broadcast: async (type: string, payload: Record<string, unknown>): Promise<void> => {
         const payloadStr = JSON.stringify(payload);
-        const sig = cryptoSign(null, Buffer.from(payloadStr), adminKeyObj);
+        const sig = adminSigner.sign(Buffer.from(payloadStr));
         const signatureBase64 = Buffer.from(sig).toString('base64');
         const result = await relayAPI.createBroadcast(type, payloadStr, signatureBase64);
         if (!result.ok) {
@@ -702,27 +1497,23 @@ export class A2ANetwork extends EventEmitter {
    * - Returns per-community success/failure results
    * - Emits 'key:rotation-partial' on partial failure
    * - Throws only if ALL communities fail
+   *
+   * With a keystore (fromKeystore()), `privateKey` (the new key, PKCS8 DER)
+   * is required, and is saved for the communities that accepted it in one
+   * atomic write.
    */
-  async rotateKey(newPublicKey: string, options?: { communities?: string[] }): Promise<KeyRotationResult> {
+  async rotateKey(newPublicKey: string, options?: { communities?: string[]; privateKey?: Buffer }): Promise<KeyRotationResult> {
+    if (options?.privateKey && new LocalSigner(options.privateKey).publicKey !== newPublicKey) {
+      throw new Error('privateKey does not match newPublicKey');
+    }
+    if (this.keystore && !options?.privateKey) {
+      throw new Error('privateKey is required to rotate a key held in a keystore');
+    }
     const targets = options?.communities ?? this.communityManager.getDefaultKeyCommunities();
     const results: KeyRotationCommunityResult[] = [];
 
     for (const communityName of targets) {
-      try {
-        const api = this.communityManager.getActiveApi(communityName);
-        const result = await api.rotateKey(this.options.username, newPublicKey);
-        results.push({
-          community: communityName,
-          success: result.ok,
-          error: result.ok ? undefined : (result.error || 'Unknown error'),
-        });
-      } catch (err) {
-        results.push({
-          community: communityName,
-          success: false,
-          error: err instanceof Error ? err.message : String(err),
-        });
-      }
+      results.push(await this.rotateOnRelay(communityName, newPublicKey));
     }
 
     const successes = results.filter(r => r.success);
@@ -738,17 +1529,425 @@ export class A2ANetwork extends EventEmitter {
       throw new Error(`Key rotation failed on all communities: ${failures.map(f => f.community).join(', ')}`);
     }
 
+    if (this.keystore) {
+      this.saveRotatedKey(successes.map(r => r.community), options!.privateKey!);
+    }
+
+    // Keys derived for the old identity are no longer needed
+    this.keyCache.clear();
+
     return { results };
   }
 
-  /** Initiate key recovery (unauthenticated — verifies via owner email). */
-  async recoverKey(ownerEmail: string, newPublicKey: string): Promise<void> {
-    const result = await this.relayAPI.recoverKey(this.options.username, ownerEmail, newPublicKey);
-    if (!result.ok) {
-      throw new Error(result.error || 'Failed to initiate key recovery');
+  /**
+   * Replace this agent's identity key end to end: generate a keypair, rotate
+   * it on every community using the default key, then switch envelope and
+   * relay signing to it and notify contacts.
+   *
+   * - Communities that fail are retried up to `retries` times (default: 2).
+   *   If some still fail, the others are rotated back to the old key and the
+   *   call throws; the old key stays in use.
+   * - With a keystore (fromKeystore()), the new key is saved before the switch.
+   * - The old key keeps decrypting incoming envelopes for rotationGracePeriod,
+   *   for messages peers encrypted before they learned the new key.
+   * - Ratchet sessions restart on the next send to each contact.
+   * - Each contact with a known endpoint gets a 'key-rotation' notice signed
+   *   with the old key, prompting it to re-fetch the key from the relay.
+   *   The switch is done by then, so notices that fail are reported in
+   *   `noticeFailures` rather than thrown.
+   *
+   * Requires a privateKey identity (a signer-held key can't be replaced here).
+   */
+  async rotateIdentity(options?: { retries?: number }): Promise<IdentityRotationResult> {
+    if (this.options.signer) {
+      throw new Error('rotateIdentity() requires a privateKey identity');
+    }
+    const targets = this.communityManager.getDefaultKeyCommunities();
+    if (!targets.length) {
+      throw new Error('No community uses the default key');
+    }
+    const retries = options?.retries ?? 2;
+
+    const keypair = generateKeyPairSync('ed25519');
+    const privateKey = keypair.privateKey.export({ format: 'der', type: 'pkcs8' });
+    const newIdentity = new LocalSigner(keypair.privateKey);
+    const oldIdentity = this.identity;
+
+    const results = new Map<string, KeyRotationCommunityResult>();
+    let failed = targets;
+    for (let attempt = 0; attempt <= retries && failed.length; attempt++) {
+      for (const name of failed) results.set(name, await this.rotateOnRelay(name, newIdentity.publicKey));
+      failed = failed.filter(name => !results.get(name)!.success);
+    }
+    const rotated = targets.filter(name => results.get(name)!.success);
+
+    if (failed.length) {
+      await this.rollBackRotation(rotated, newIdentity, oldIdentity.publicKey, retries, results);
+      throw new Error(`Identity rotation failed on: ${failed.join(', ')}`);
+    }
+
+    if (this.keystore) {
+      try {
+        this.keystore.update({ privateKey });
+      } catch (err) {
+        await this.rollBackRotation(rotated, newIdentity, oldIdentity.publicKey, retries, results);
+        throw err;
+      }
+    }
+
+    this.retiredIdentities.push({ identity: oldIdentity, until: Date.now() + this.options.rotationGracePeriod });
+    this.identity = newIdentity;
+    for (const name of targets) this.communityManager.setSigner(name, newIdentity);
+    this.keyAges?.record(newIdentity.publicKey);
+    this.keyCache.clear();
+    this.sessions.restartAll();
+
+    const { notified, noticeFailures } = await this.notifyKeyRotation(targets, oldIdentity, newIdentity.publicKey);
+    return { publicKey: newIdentity.publicKey, privateKey, results: [...results.values()], notified, noticeFailures };
+  }
+
+  /**
+   * Process an incoming 'key-rotation' notice: a contact replaced its key.
+   *
+   * The notice must be signed with the contact's current (old) key. It is a
+   * hint only: the contact's key is re-fetched from the relay, and the
+   * keyChangePolicy applies to it as to any other key change. Returns true
+   * if the relay now reports the announced key.
+   */
+  async receiveKeyRotation(envelope: WireEnvelope): Promise<boolean> {
+    if (envelope.type !== 'key-rotation') {
+      throw new Error('Not a key-rotation envelope');
+    }
+    if (envelope.recipient !== this.options.username) {
+      throw new Error(`Message not addressed to us (to: ${envelope.recipient})`);
+    }
+
+    const contact = this.getCachedContact(envelope.sender);
+    if (!contact?.publicKey) {
+      throw new Error(`Sender '${envelope.sender}' is not a contact`);
+    }
+
+    const processed = this.openEnvelope(envelope, contact);
+    if (!processed || this.isReplay(envelope)) return false;
+    const { publicKey } = processed.payload;
+    if (typeof publicKey !== 'string') {
+      throw new Error('Malformed key-rotation payload');
+    }
+
+    await this.refreshContactsForCommunity(contact.community ?? this.communities[0].name);
+    return this.getCachedContact(envelope.sender)?.publicKey === publicKey;
+  }
+
+  /** Announce a new public key on one community's active relay. */
+  private async rotateOnRelay(communityName: string, newPublicKey: string): Promise<KeyRotationCommunityResult> {
+    try {
+      const api = this.communityManager.getActiveApi(communityName);
+      const result = await api.rotateKey(this.options.username, newPublicKey);
+      return {
+        community: communityName,
+        success: result.ok,
+        error: result.ok ? undefined : (result.error || 'Unknown error'),
+      };
+    } catch (err) {
+      return {
+        community: communityName,
+        success: false,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }
+
+  /**
+   * Undo a failed rotateIdentity(): put the old public key back on the
+   * communities that accepted the new one (requests signed with the new key,
+   * which those relays now expect). Communities that can't be rolled back
+   * keep the new key: 'key:rotation-partial' is emitted with their results.
+   */
+  private async rollBackRotation(
+    rotated: string[],
+    newIdentity: IdentityKey,
+    oldPublicKey: string,
+    retries: number,
+    results: Map<string, KeyRotationCommunityResult>,
+  ): Promise<void> {
+    let pending = rotated;
+    for (let attempt = 0; attempt <= retries && pending.length; attempt++) {
+      const stuck: string[] = [];
+      for (const name of pending) {
+        this.communityManager.setSigner(name, newIdentity);
+        const result = await this.rotateOnRelay(name, oldPublicKey);
+        this.communityManager.setSigner(name, this.identity);
+        if (result.success) {
+          results.set(name, { community: name, success: false, error: 'Rolled back' });
+        } else {
+          stuck.push(name);
+        }
+      }
+      pending = stuck;
+    }
+    if (pending.length) {
+      this.emit('key:rotation-partial', { results: [...results.values()] });
     }
   }
 
+  /**
+   * Send each contact of the rotated communities a 'key-rotation' notice,
+   * signed with the old key the contact still has. Best effort: contacts
+   * that miss it pick up the new key on their next roster refresh. Never
+   * throws; each contact's failure is reported on its own.
+   */
+  private async notifyKeyRotation(
+    communities: string[],
+    oldIdentity: IdentityKey,
+    publicKey: string,
+  ): Promise<{ notified: string[]; noticeFailures: KeyRotationNoticeFailure[] }> {
+    const contacts = new Map<string, CachedContact>();
+    for (const name of communities) {
+      for (const contact of this.caches.get(name)?.contacts ?? []) {
+        if (contact.endpoint && contact.publicKey && !contacts.has(contact.username)) contacts.set(contact.username, contact);
+      }
+    }
+    const recipients = [...contacts.values()];
+    const outcomes = await Promise.allSettled(recipients.map(async (contact) => {
+      let envelope: WireEnvelope;
+      try {
+        envelope = buildEnvelope({
+          sender: this.options.username,
+          recipient: contact.username,
+          type: 'key-rotation',
+          payload: { publicKey },
+          senderPrivateKey: oldIdentity,
+          recipientPublicKeyBase64: contact.publicKey,
+        });
+      } catch (err) {
+        // e.g. a contact key the relay returned malformed — skip that contact only
+        throw new Error(`Could not build notice: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      if (!await this.deliverFn(contact.endpoint!, envelope)) throw new Error('Delivery failed');
+    }));
+
+    const notified: string[] = [];
+    const noticeFailures: KeyRotationNoticeFailure[] = [];
+    outcomes.forEach((outcome, i) => {
+      const contact = recipients[i]!.username;
+      if (outcome.status === 'fulfilled') {
+        notified.push(contact);
+      } else {
+        const err = outcome.reason;
+        noticeFailures.push({ contact, error: err instanceof Error ? err.message : String(err) });
+      }
+    });
+    return { notified, noticeFailures };
+  }
+
+  /**
+   * Store a rotated key: as the default key if every default-key community
+   * accepted it, otherwise as a community key for each community that did.
+   */
+  private saveRotatedKey(rotated: string[], privateKey: Buffer): void {
+    const defaultKey = this.communityManager.getDefaultKeyCommunities();
+    const replaceDefault = defaultKey.length > 0 && defaultKey.every(name => rotated.includes(name));
+    const communities: Record<string, Buffer> = {};
+    for (const name of rotated) {
+      if (!replaceDefault || !defaultKey.includes(name)) communities[name] = privateKey;
+    }
+    this.keystore!.update({ ...(replaceDefault && { privateKey }), communities });
+  }
+
+  /**
+   * Check our keys' ages against the keyPolicy. Returns the status of the
+   * default key and of each community-specific key; each has its own clock
+   * (see KeyAgeStore). Runs at start() and every keyPolicy.checkInterval.
+   *
+   * - Emits 'key:expiring' once per key, notifyBefore its expiry.
+   * - With autoRotate, rotates keys that reached the rotation window: the
+   *   default key with rotateIdentity(), a community key with rotateKey()
+   *   for that community, after which its relay requests are signed with the
+   *   new key. Emits 'key:rotated' or 'key:rotation-failed'; a failed
+   *   rotation is tried again on the next check.
+   * - Keys held by a signer, and the default key when no community uses it,
+   *   are never rotated here.
+   */
+  async checkKeys(): Promise<KeyStatus[]> {
+    if (!this.keyAges) {
+      throw new Error('checkKeys() requires a keyPolicy');
+    }
+    this.keyCheck ??= this.runKeyCheck().finally(() => { this.keyCheck = null; });
+    return this.keyCheck;
+  }
+
+  private async runKeyCheck(): Promise<KeyStatus[]> {
+    const keyAges = this.keyAges!;
+    const policy = this.options.keyPolicy!;
+    const notifyBefore = policy.notifyBefore ?? DEFAULT_KEY_NOTIFY_BEFORE;
+    const rotationWindow = policy.rotationWindow ?? 0;
+
+    const keys = this.ownKeys();
+    keyAges.track(keys.map(key => key.signer.publicKey));
+
+    const statuses: KeyStatus[] = [];
+    for (const key of keys) {
+      const status = this.keyStatus(key);
+      const expiresAt = Date.parse(status.expiresAt);
+      if (Date.now() >= expiresAt - notifyBefore && !keyAges.get(status.publicKey)?.notified) {
+        keyAges.markNotified(status.publicKey);
+        this.emit('key:expiring', status);
+      }
+      const rotatable = key.community === undefined
+        ? !this.options.signer && key.communities.length > 0
+        : !this.communities.find(c => c.name === key.community)!.signer;
+      if (policy.autoRotate && rotatable && Date.now() >= expiresAt - rotationWindow) {
+        statuses.push(await this.rotateExpiredKey(key) ?? status);
+      } else {
+        statuses.push(status);
+      }
+    }
+    return statuses;
+  }
+
+  /** Our keys: the default key (with the communities using it) and each community-specific key. */
+  private ownKeys(): Array<{ community?: string; communities: string[]; signer: Signer }> {
+    const keys: Array<{ community?: string; communities: string[]; signer: Signer }> = [
+      { communities: this.communityManager.getDefaultKeyCommunities(), signer: this.identity },
+    ];
+    for (const community of this.communities) {
+      if (!community.privateKey && !community.signer) continue;
+      keys.push({ community: community.name, communities: [community.name], signer: this.communityManager.getSigner(community.name) });
+    }
+    return keys;
+  }
+
+  private keyStatus(key: { community?: string; communities: string[]; signer: Signer }): KeyStatus {
+    const { publicKey } = key.signer;
+    const createdAt = this.keyAges!.get(publicKey)!.createdAt;
+    return {
+      ...(key.community !== undefined && { community: key.community }),
+      communities: key.communities,
+      publicKey,
+      fingerprint: keyFingerprint(publicKey),
+      createdAt: new Date(createdAt).toISOString(),
+      expiresAt: new Date(createdAt + this.options.keyPolicy!.maxKeyAge).toISOString(),
+    };
+  }
+
+  /** Rotate a key for the keyPolicy; returns the new key's status, or null if rotation failed. */
+  private async rotateExpiredKey(key: { community?: string; communities: string[]; signer: Signer }): Promise<KeyStatus | null> {
+    const oldPublicKey = key.signer.publicKey;
+    try {
+      let signer: Signer;
+      let privateKey: Buffer;
+      let communities: string[];
+      if (key.community === undefined) {
+        const result = await this.rotateIdentity();
+        signer = this.identity;
+        privateKey = result.privateKey;
+        communities = result.results.filter(r => r.success).map(r => r.community);
+      } else {
+        const keypair = generateKeyPairSync('ed25519');
+        privateKey = keypair.privateKey.export({ format: 'der', type: 'pkcs8' });
+        signer = new LocalSigner(keypair.privateKey);
+        await this.rotateKey(signer.publicKey, { communities: [key.community], privateKey });
+        this.communityManager.setSigner(key.community, signer);
+        this.keyAges!.record(signer.publicKey);
+        communities = [key.community];
+      }
+      this.emit('key:rotated', {
+        ...(key.community !== undefined && { community: key.community }),
+        communities,
+        oldPublicKey,
+        publicKey: signer.publicKey,
+        privateKey,
+      } satisfies KeyRotatedEvent);
+      return this.keyStatus({ ...key, communities, signer });
+    } catch (err) {
+      this.emit('key:rotation-failed', {
+        ...(key.community !== undefined && { community: key.community }),
+        publicKey: oldPublicKey,
+        error: err instanceof Error ? err.message : String(err),
+      } satisfies KeyRotationFailedEvent);
+      return null;
+    }
+  }
+
+  /**
+   * Start email-verified key recovery, for a key that is lost or compromised:
+   * each relay checks the owner address, stores `newPublicKey` as pending and
+   * starts its cooling-off period (1 hour). Once that is over,
+   * completeRecovery() switches to the new key.
+   *
+   * Fans out to the communities using the default key unless `communities`
+   * is given. Returns per-community results; throws only if all fail.
+   */
+  async recoverKey(ownerEmail: string, newPublicKey: string, options?: { communities?: string[] }): Promise<KeyRotationResult> {
+    const targets = options?.communities ?? this.communityManager.getDefaultKeyCommunities();
+    const results: KeyRotationCommunityResult[] = [];
+    for (const name of targets) {
+      try {
+        const result = await this.communityManager.getActiveApi(name).recoverKey(this.options.username, ownerEmail, newPublicKey);
+        results.push({ community: name, success: result.ok, error: result.ok ? undefined : (result.error || 'Unknown error') });
+      } catch (err) {
+        results.push({ community: name, success: false, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+    if (!results.some(r => r.success)) {
+      throw new Error(`Key recovery failed on all communities: ${targets.join(', ')}`);
+    }
+    return { results };
+  }
+
+  /**
+   * Finish a recovery once the cooling-off period is over: each relay
+   * replaces the agent's key with the pending one, on a rotate-key request
+   * signed with it (`privateKey`, PKCS8 DER). Relay requests to those
+   * communities are signed with the new key from then on.
+   *
+   * - If every community using the default key completed, the new key also
+   *   becomes the identity key for envelopes (the old one keeps decrypting
+   *   for rotationGracePeriod; ratchet sessions restart). A client already
+   *   running on the recovered key just updates its relays.
+   * - With a keystore, the new key is saved like a rotateKey() key.
+   * - Contacts are not notified (the old key may be in other hands): they
+   *   pick up the new key on their next roster refresh.
+   *
+   * Returns per-community results, emits 'key:rotation-partial' on partial
+   * failure and throws only if all fail.
+   */
+  async completeRecovery(privateKey: Buffer, options?: { communities?: string[] }): Promise<KeyRotationResult> {
+    const newIdentity = new LocalSigner(privateKey);
+    const targets = options?.communities ?? this.communityManager.getDefaultKeyCommunities();
+    const results: KeyRotationCommunityResult[] = [];
+    for (const name of targets) {
+      const previous = this.communityManager.getSigner(name);
+      this.communityManager.setSigner(name, newIdentity);
+      const result = await this.rotateOnRelay(name, newIdentity.publicKey);
+      if (!result.success) this.communityManager.setSigner(name, previous);
+      results.push(result);
+    }
+
+    const recovered = results.filter(r => r.success).map(r => r.community);
+    if (!recovered.length) {
+      throw new Error(`Key recovery failed on all communities: ${targets.join(', ')}`);
+    }
+    if (recovered.length < targets.length) {
+      this.emit('key:rotation-partial', { results });
+    }
+
+    if (this.keystore) {
+      this.saveRotatedKey(recovered, privateKey);
+    }
+    const defaultKey = this.communityManager.getDefaultKeyCommunities();
+    const replaceIdentity = defaultKey.length > 0 && defaultKey.every(name => recovered.includes(name));
+    if (replaceIdentity && newIdentity.publicKey !== this.identity.publicKey) {
+      this.retiredIdentities.push({ identity: this.identity, until: Date.now() + this.options.rotationGracePeriod });
+      this.identity = newIdentity;
+      this.keyCache.clear();
+      this.sessions.restartAll();
+    }
+    this.keyAges?.record(newIdentity.publicKey);
+
+    return { results };
+  }
+
   // --- Broadcasts ---
 
   /**
@@ -917,8 +2116,14 @@ export class A2ANetwork extends EventEmitter {
    * Send an encrypted message to all group members (fan-out).
    *
    * Each member receives an individually encrypted envelope (1:1 ECDH keys).
+   * With `groupEncryption: 'sender-key'`, the payload is encrypted once and
+   * members that support v2.3 (v2.4 if it was compressed, v2.6 if padded) get the same
+   * ciphertext with only the content key wrapped for them; other members (and
+   * ratchet contacts) stay pairwise.
    * Deliveries happen in parallel (max 10 concurrent, 5s timeout each).
-   * Failed deliveries are queued in the RetryQueue.
+   * Failed deliveries are queued in the RetryQueue under the same messageId
+   * (one entry per member), so retries dedup against the original on receipt.
+   * Per-member progress is tracked in getGroupDeliveryReport(messageId).
    */
   async sendToGroup(groupId: string, payload: Record<string, unknown>): Promise<GroupSendResult> {
     const messageId = randomUUID();
@@ -926,32 +2131,38 @@ export class A2ANetwork extends EventEmitter {
     const recipients = members.filter(m => m.agent !== this.options.username);
 
     const result: GroupSendResult = { messageId, delivered: [], queued: [], failed: [] };
+    this.initGroupReport(messageId, groupId, recipients.map(m => m.agent));
 
-    // Pre-fetch contacts for endpoint/presence resolution (one relay call for all)
-    let contactsMap: Map<string, { endpoint: string | null; online: boolean; publicKey: string }> = new Map();
-    try {
-      const contactsResult = await this.relayAPI.getContacts();
-      if (contactsResult.ok && contactsResult.data) {
-        this.updateContactsCache(contactsResult.data);
-        for (const c of contactsResult.data) {
-          contactsMap.set(c.agent, { endpoint: c.endpoint, online: c.online, publicKey: c.publicKey });
-        }
-      }
-    } catch {
-      // Fall back to cache — aggregate across all communities
-      for (const cache of this.caches.values()) {
-        for (const c of cache.contacts) {
-          if (!contactsMap.has(c.username)) {
-            contactsMap.set(c.username, { endpoint: c.endpoint, online: c.online || false, publicKey: c.publicKey });
-          }
-        }
+    // Pre-fetch contacts for endpoint/presence resolution (one relay call for all,
+    // skipped while within presenceTtl), then aggregate across all communities
+    await this.fetchContacts(this.communities[0].name);
+    const contactsMap: Map<string, CachedContact> = new Map();
+    for (const community of this.communities) {
+      for (const c of this.caches.get(community.name)?.contacts ?? []) {
+        if (!contactsMap.has(c.username)) contactsMap.set(c.username, c);
       }
     }
 
+    // Sender-key mode: encrypt the payload once for the whole fan-out
+    const sealed = this.options.groupEncryption === 'sender-key' ? sealGroupPayload(payload, messageId, this.compressOptions(), this.paddingFor()) : undefined;
+
+    const fail = (agent: string, reason: string) => {
+      result.failed.push(agent);
+      this.setGroupMemberStatus(messageId, agent, 'failed', reason);
+    };
+
     const deliverTo = async (member: RelayGroupMember) => {
       const contactInfo = contactsMap.get(member.agent) || this.getCachedContact(member.agent);
       if (!contactInfo?.publicKey) {
-        result.failed.push(member.agent);
+        fail(member.agent, contactInfo ? 'Contact has no public key' : 'Not a contact');
+        return;
+      }
+      if (this.isKeyBlocked(contactInfo)) {
+        fail(member.agent, KEY_CHANGED_ERROR);
+        return;
+      }
+      if (this.isRecoveryBlocked(contactInfo)) {
+        fail(member.agent, RECOVERY_ERROR);
         return;
       }
 
@@ -960,30 +2171,35 @@ export class A2ANetwork extends EventEmitter {
         sender: this.options.username,
         recipient: member.agent,
         payload,
-        senderPrivateKey: this.privateKeyObj,
+        senderPrivateKey: this.identity,
         recipientPublicKeyBase64: contactInfo.publicKey,
         messageId,
         type: 'group',
         groupId,
+        ...(sealed && supportsVersion(contactInfo, sealedGroupVersion(sealed)) && !this.useRatchet(contactInfo)
+          ? { senderKey: sealed }
+          : { ...this.envelopeEncryption(contactInfo), ...this.envelopeCompression(contactInfo), ...this.envelopePadding(contactInfo) }),
+        keyCache: this.keyCache,
       });
 
       // Check if online via contacts data (no separate presence call)
-      const online = 'online' in contactInfo ? contactInfo.online : false;
+      const online = contactInfo.online || false;
       if (!online) {
-        const retryId = randomUUID();
-        const enqueued = this.retryQueue.enqueue(retryId, member.agent, payload, groupId);
+        this.recordAttempt(messageId, false, '', undefined, 'Recipient offline', 0, member.agent);
+        const enqueued = this.retryQueue.enqueue(messageId, member.agent, payload, groupId);
         if (enqueued) result.queued.push(member.agent);
-        else result.failed.push(member.agent);
+        else fail(member.agent, 'Retry queue full');
         return;
       }
 
       const endpoint = contactInfo.endpoint;
       if (!endpoint) {
-        result.failed.push(member.agent);
+        fail(member.agent, 'No endpoint for recipient');
         return;
       }
 
       // Deliver with 5s timeout (clear timer to avoid leak)
+      const startTime = Date.now();
       try {
         let timer: ReturnType<typeof setTimeout>;
         const success = await Promise.race([
@@ -991,16 +2207,19 @@ export class A2ANetwork extends EventEmitter {
           new Promise<false>(resolve => { timer = setTimeout(() => resolve(false), 5000); }),
         ]);
         clearTimeout(timer!);
+        this.recordAttempt(messageId, true, endpoint, success ? 200 : 0, success ? undefined : 'Delivery failed', Date.now() - startTime, member.agent);
         if (success) {
           result.delivered.push(member.agent);
+          this.setGroupMemberStatus(messageId, member.agent, 'delivered');
         } else {
-          const retryId = randomUUID();
-          const enqueued = this.retryQueue.enqueue(retryId, member.agent, payload, groupId);
+          const enqueued = this.retryQueue.enqueue(messageId, member.agent, payload, groupId);
           if (enqueued) result.queued.push(member.agent);
-          else result.failed.push(member.agent);
+          else fail(member.agent, 'Delivery failed and retry queue full');
         }
-      } catch {
-        result.failed.push(member.agent);
+      } catch (err) {
+        const error = err instanceof Error ? err.message : String(err);
+        this.recordAttempt(messageId, true, endpoint, 0, error, Date.now() - startTime, member.agent);
+        fail(member.agent, error);
       }
     };
 
@@ -1014,7 +2233,8 @@ export class A2ANetwork extends EventEmitter {
    *
    * Verifies the sender's Ed25519 signature, decrypts with pairwise ECDH key,
    * validates sender is a group member, and emits 'group-message' event.
-   * Deduplicates based on messageId (last 1000 seen). Returns null for duplicates.
+   * Deduplicates on (sender, messageId) via the replay cache. Returns null
+   * (and emits 'duplicate') for duplicates.
    * If sender is not in the member cache, refreshes from relay before rejecting.
    */
   async receiveGroupMessage(envelope: WireEnvelope): Promise<GroupMessage | null> {
@@ -1028,11 +2248,6 @@ export class A2ANetwork extends EventEmitter {
       throw new Error(`Message not addressed to us (to: ${envelope.recipient})`);
     }
 
-    // Dedup: skip already-seen messageIds
-    if (this.seenGroupMessageIds.has(envelope.messageId)) {
-      return null;
-    }
-
     // Check sender is a contact (needed for public key)
     const contact = this.getCachedContact(envelope.sender);
     if (!contact?.publicKey) {
@@ -1040,11 +2255,8 @@ export class A2ANetwork extends EventEmitter {
     }
 
     // Verify signature + decrypt (same crypto as direct messages)
-    const processed = processEnvelope({
-      envelope,
-      recipientPrivateKey: this.privateKeyObj,
-      senderPublicKeyBase64: contact.publicKey,
-    });
+    const processed = this.openEnvelope(envelope, contact);
+    if (!processed) return null;
 
     // Verify sender is a member of the group
     const cachedMembers = this.memberCache.get(envelope.groupId);
@@ -1061,12 +2273,8 @@ export class A2ANetwork extends EventEmitter {
       }
     }
 
-    // Track this messageId for dedup
-    this.seenGroupMessageIds.add(envelope.messageId);
-    if (this.seenGroupMessageIds.size > A2ANetwork.MAX_SEEN_GROUP_MSG_IDS) {
-      const first = this.seenGroupMessageIds.values().next().value;
-      if (first) this.seenGroupMessageIds.delete(first);
-    }
+    // Dedup: skip already-seen (sender, messageId) pairs
+    if (this.isReplay(envelope)) return null;
 
     const msg: GroupMessage = {
       groupId: envelope.groupId,
@@ -1075,6 +2283,7 @@ export class A2ANetwork extends EventEmitter {
       timestamp: processed.timestamp,
       payload: processed.payload,
       verified: processed.verified,
+      encryption: processed.encryption,
     };
 
     this.emit('group-message', msg);
@@ -1111,6 +2320,89 @@ export class A2ANetwork extends EventEmitter {
     return this.deliveryReports.get(messageId);
   }
 
+  /**
+   * Get the delivery report for a group message: one entry per member with
+   * its attempts and status, updated as the retry queue delivers queued
+   * members. `complete` / `allDelivered` tell when every member has settled
+   * or received it; 'group-delivery-complete' fires at that point.
+   */
+  getGroupDeliveryReport(messageId: string): GroupDeliveryReport | undefined {
+    return this.groupDeliveryReports.get(messageId);
+  }
+
+  // --- Retry Queue ---
+
+  /** Messages currently waiting in the retry queue, in enqueue order. */
+  getQueuedMessages(): QueuedMessage[] {
+    return this.retryQueue.list();
+  }
+
+  /**
+   * Remove a message from the retry queue without delivering it.
+   * For a group message, cancels every member still queued, or only
+   * `recipient` if given.
+   * Emits 'delivery-status' with status 'cancelled' and marks the report cancelled.
+   * An attempt already in flight cannot be recalled.
+   * Returns false if the message is not queued.
+   */
+  cancelMessage(messageId: string, recipient?: string): boolean {
+    return this.retryQueue.cancel(messageId, recipient && parseQualifiedName(recipient).username);
+  }
+
+  /**
+   * Retry queued messages immediately instead of waiting for their backoff —
+   * e.g. when a peer is known to be back online.
+   *
+   * @param target - A messageId, or a recipient (plain or qualified name) to
+   *   retry every message queued for that agent.
+   * @returns Number of messages retried.
+   */
+  retryNow(target: string): number {
+    if (this.retryQueue.list().some((msg) => msg.messageId === target)) {
+      return this.retryQueue.retryNow((msg) => msg.messageId === target);
+    }
+    const { username } = parseQualifiedName(target);
+    return this.retryQueue.retryNow((msg) => msg.recipient === username);
+  }
+
+  /**
+   * Messages that expired or exhausted their retries (most recent 100),
+   * oldest first. Each carries the `reason` it was given up on.
+   */
+  getDeadLetters(): QueuedMessage[] {
+    return this.retryQueue.listDeadLetters();
+  }
+
+  /**
+   * Put a dead letter back into the retry queue with the same messageId.
+   * Attempts are reset and `options` (ttl/deadline/maxAttempts) apply as in send().
+   * Returns false if the message is not a dead letter or the queue is full.
+   */
+  resubmitMessage(messageId: string, options: SendOptions = {}): boolean {
+    validateSendOptions(options);
+    const resubmitted = this.retryQueue.resubmit(messageId, {
+      expiresAt: resolveExpiry(options),
+      maxAttempts: options.maxAttempts,
+    });
+    if (!resubmitted) return false;
+
+    const report = this.deliveryReports.get(messageId);
+    if (report) {
+      report.finalStatus = 'failed'; // In-flight default, as for a fresh send
+      delete report.reason;
+    } else {
+      this.initReport(messageId);
+    }
+    return true;
+  }
+
+  /** Drop a dead letter for good (and a file transfer's staged copy). Returns false if it is not a dead letter. */
+  discardDeadLetter(messageId: string): boolean {
+    if (!this.retryQueue.discardDeadLetter(messageId)) return false;
+    this.transfers.removeOutgoing(messageId);
+    return true;
+  }
+
   // --- Internal ---
 
   /** Get the community manager (for testing and advanced use). */
@@ -1125,15 +2417,419 @@ export class A2ANetwork extends EventEmitter {
 
   /** Refresh contacts for a specific community from its active relay. */
   private async refreshContactsForCommunity(communityName: string): Promise<void> {
-    try {
-      const api = this.communityManager.getActiveApi(communityName);
-      const result = await api.getContacts();
-      if (result.ok && result.data) {
-        this.updateContactsCache(result.data, communityName);
+    await this.fetchContacts(communityName, true);
+    this.flushContactsCaches();
+  }
+
+  /**
+   * Fetch a community's contacts from its active relay into the local cache.
+   *
+   * Skipped (returns null) while the last fetch is younger than presenceTtl,
+   * unless forceRefresh is set. Concurrent callers share one in-flight request.
+   * Returns null when the relay is unreachable — callers fall back to the cache.
+   * The cache file is written on a debounce; use flushContactsCaches() to
+   * persist immediately.
+   */
+  private fetchContacts(communityName: string, forceRefresh = false): Promise<RelayContact[] | null> {
+    const inFlight = this.contactsInFlight.get(communityName);
+    if (inFlight) return inFlight;
+
+    const fetchedAt = this.contactsFetchedAt.get(communityName);
+    if (!forceRefresh && fetchedAt !== undefined && Date.now() - fetchedAt < this.options.presenceTtl) {
+      return Promise.resolve(null);
+    }
+
+    const request = (async () => {
+      try {
+        const api = this.communityManager.getActiveApi(communityName);
+        const result = await api.getContacts();
+        if (result.ok && result.data) {
+          this.updateContactsCache(result.data, communityName);
+          this.contactsFetchedAt.set(communityName, Date.now());
+          return result.data;
+        }
+      } catch {
+        // Relay unreachable — keep existing cache
       }
-    } catch {
-      // Relay unreachable — keep existing cache
+      return null;
+    })().finally(() => this.contactsInFlight.delete(communityName));
+
+    this.contactsInFlight.set(communityName, request);
+    return request;
+  }
+
+  /** Write every community cache changed since the last save. */
+  private flushContactsCaches(): void {
+    const dirty = [...this.dirtyCaches];
+    this.cancelCacheSave();
+    for (const name of dirty) {
+      const cache = this.caches.get(name);
+      if (cache) saveCache(getCommunityCachePath(this.options.dataDir, name), cache);
+    }
+  }
+
+  /**
+   * Diff a community's cached roster against fresh relay contacts and emit
+   * 'contact-added' / 'contact-removed' / 'contact-updated' (endpoint or key
+   * changed), 'contact:recovery' (recovery flag flipped) and 'presence-change'
+   * (online flag flipped). A contact coming online gets its queued messages
+   * retried immediately instead of waiting for the backoff schedule.
+   */
+  private emitContactChanges(community: string, before: CachedContact[], after: CachedContact[], relay: RelayContact[]): void {
+    const previous = new Map(before.map((c) => [c.username, c]));
+    const verified = new Map(after.map((c) => [c.username, c.verified]));
+    for (const rc of relay) {
+      const old = previous.get(rc.agent);
+      previous.delete(rc.agent);
+      if (!old) {
+        this.emit('contact-added', { username: rc.agent, community, contact: toContact(rc) });
+        continue;
+      }
+
+      const changed: Array<'endpoint' | 'publicKey'> = [];
+      if ((old.endpoint || null) !== (rc.endpoint || null)) changed.push('endpoint');
+      if (old.publicKey !== rc.publicKey) changed.push('publicKey');
+      if (changed.length) {
+        this.emit('contact-updated', { username: rc.agent, community, contact: toContact(rc, verified.get(rc.agent)), changed });
+      }
+
+      const pinned = old.pinnedKey ?? old.publicKey;
+      if (old.publicKey !== rc.publicKey && rc.publicKey !== pinned) {
+        this.emit('contact:key-changed', {
+          username: rc.agent,
+          community,
+          oldFingerprint: keyFingerprint(pinned),
+          newFingerprint: keyFingerprint(rc.publicKey),
+          keyUpdatedAt: rc.keyUpdatedAt,
+          approved: this.options.keyChangePolicy === 'warn',
+        });
+      }
+
+      if ((old.recoveryInProgress || false) !== !!rc.recoveryInProgress) {
+        this.emit('contact:recovery', { username: rc.agent, community, recoveryInProgress: !!rc.recoveryInProgress });
+      }
+
+      if ((old.online || false) !== rc.online) {
+        this.emit('presence-change', {
+          username: rc.agent,
+          community,
+          online: rc.online,
+          lastSeen: rc.lastSeen,
+          endpoint: rc.endpoint,
+        });
+        if (rc.online && this.started) this.retryQueue.retryNow((msg) => msg.recipient === rc.agent);
+      }
+    }
+
+    for (const old of previous.values()) {
+      this.emit('contact-removed', { username: old.username, community, contact: fromCached(old) });
+    }
+  }
+
+  /**
+   * Trust-on-first-use pin for a refreshed contact: the relay's key if the
+   * contact is new (or the 'warn' policy accepts changes), otherwise the
+   * existing pin. Legacy cache entries pin the key they already had.
+   */
+  private pinKey(previous: CachedContact | undefined, relayKey: string): string {
+    if (!previous || this.options.keyChangePolicy === 'warn') return relayKey;
+    return previous.pinnedKey ?? previous.publicKey;
+  }
+
+  /** Whether the contact's current key is an unapproved change under 'block-until-approved'. */
+  private isKeyBlocked(contact: CachedContact): boolean {
+    return this.options.keyChangePolicy === 'block-until-approved'
+      && contact.pinnedKey !== undefined
+      && contact.pinnedKey !== contact.publicKey;
+  }
+
+  /**
+   * The key a contact's envelopes are verified and decrypted with, and its
+   * ratchet session is keyed to: the pin while a key change is unapproved,
+   * so a relay that swaps the key can't inject messages signed with it.
+   */
+  private trustedKey(contact: CachedContact): string {
+    return this.isKeyBlocked(contact) ? contact.pinnedKey! : contact.publicKey;
+  }
+
+  /** Whether the relay reports a key recovery for the contact under recoveryPolicy 'refuse'. */
+  private isRecoveryBlocked(contact: CachedContact): boolean {
+    return this.options.recoveryPolicy === 'refuse' && !!contact.recoveryInProgress;
+  }
+
+  /** Why nothing may be encrypted to the contact right now, if anything. */
+  private sendBlockedReason(contact: CachedContact): string | undefined {
+    if (this.isKeyBlocked(contact)) return KEY_CHANGED_ERROR;
+    if (this.isRecoveryBlocked(contact)) return RECOVERY_ERROR;
+    return undefined;
+  }
+
+  /**
+   * Find a contact in the cache of the community it resolves to (or `community`
+   * if given). The returned contact is the live cache entry.
+   */
+  private findContact(nameOrQualified: string, community?: string): { contact: CachedContact; cache: CacheData; community: string } | undefined {
+    const resolved = this.resolveContactCommunity(nameOrQualified);
+    const name = community ?? resolved.community;
+    const cache = this.caches.get(name);
+    const contact = cache?.contacts.find((c) => c.username === resolved.username);
+    return cache && contact ? { contact, cache, community: name } : undefined;
+  }
+
+  /**
+   * Envelope encryption for a contact: a ratchet session (v2.2) when enabled
+   * for it and it advertises support, else forward-secret (v2.1) when it
+   * supports that, else static (v2.0). Without a per-contact preference, a
+   * session the contact started is used even if the `ratchet` option is off.
+   */
+  private envelopeEncryption(contact: CachedContact): Pick<BuildEnvelopeOptions, 'forwardSecret' | 'session'> {
+    if (this.useRatchet(contact)) {
+      return { session: this.sessionCipher(contact) };
     }
+    return { forwardSecret: this.options.forwardSecrecy && supportsVersion(contact, FORWARD_SECRET_VERSION) };
+  }
+
+  /** The `compression` / `compressionThreshold` options, or undefined when compression is off. */
+  private compressOptions(): CompressOptions | undefined {
+    const { compression, compressionThreshold } = this.options;
+    return compression === 'none' ? undefined : { algorithm: compression, threshold: compressionThreshold };
+  }
+
+  /** Compress payloads for a contact when the option is on and it advertises v2.4. */
+  private envelopeCompression(contact: CachedContact): Pick<BuildEnvelopeOptions, 'compress'> {
+    const compress = this.compressOptions();
+    return compress && supportsVersion(contact, COMPRESSION_VERSION) ? { compress } : {};
+  }
+
+  /** The padding scheme for a send (`override`, else the `padding` option), or undefined for none. */
+  private paddingFor(override?: PayloadPadding | 'none'): PayloadPadding | undefined {
+    const padding = override ?? this.options.padding;
+    return padding === 'none' ? undefined : padding;
+  }
+
+  /** Pad payloads for a contact when padding is on and it advertises v2.6. */
+  private envelopePadding(contact: CachedContact, override?: PayloadPadding | 'none'): Pick<BuildEnvelopeOptions, 'pad'> {
+    const pad = this.paddingFor(override);
+    return pad && supportsVersion(contact, PADDING_VERSION) ? { pad } : {};
+  }
+
+  /** Whether a ratchet session is selected for this contact and it supports v2.2. */
+  private useRatchet(contact: CachedContact): boolean {
+    const enabled = this.sessions.isEnabled(contact.username)
+      ?? (this.options.ratchet || this.sessions.hasSession(contact.username));
+    return enabled && supportsVersion(contact, RATCHET_VERSION);
+  }
+
+  /** The ratchet session with a contact, keyed to its trusted identity key. */
+  private sessionCipher(contact: CachedContact, identity: IdentityKey = this.identity): SessionCipher {
+    return this.sessions.cipher({
+      self: this.options.username,
+      peer: contact.username,
+      identity,
+      peerIdentityKey: this.keyCache.peerX25519(this.trustedKey(contact)),
+    });
+  }
+
+  /**
+   * Verify and decrypt an envelope from a contact and note its version.
+   * A ratchet message key works once, so a replayed ratchet envelope is
+   * reported as a duplicate (null) before decryption rather than failing.
+   */
+  private openEnvelope(envelope: WireEnvelope, contact: CachedContact): ProcessedMessage | null {
+    verifyEnvelope(envelope, this.trustedKey(contact));
+    if (isSessionEnvelope(envelope) && this.replayCache.has(envelope.sender, envelope.messageId)) {
+      this.isReplay(envelope); // Emits 'duplicate'
+      return null;
+    }
+    const processed = this.decryptForIdentity(envelope, contact);
+    this.notePeerVersion(contact, envelope);
+    return processed;
+  }
+
+  /**
+   * Decrypt with the identity key, falling back to keys rotateIdentity()
+   * replaced that are still within their grace period. Throws the current
+   * key's error if none works.
+   */
+  private decryptForIdentity(envelope: WireEnvelope, contact: CachedContact): ProcessedMessage {
+    const now = Date.now();
+    this.retiredIdentities = this.retiredIdentities.filter((retired) => retired.until > now);
+    let firstError: unknown;
+    for (const identity of [this.identity, ...this.retiredIdentities.map((retired) => retired.identity)]) {
+      try {
+        return decryptEnvelope({
+          envelope,
+          recipientPrivateKey: identity,
+          senderPublicKeyBase64: this.trustedKey(contact),
+          session: this.sessionCipher(contact, identity),
+          keyCache: this.keyCache,
+          maxDecompressedBytes: this.options.maxDecompressedBytes,
+        });
+      } catch (err) {
+        firstError ??= err;
+      }
+    }
+    throw firstError;
+  }
+
+  /**
+   * Remember the envelope version a contact can process, from the latest
+   * verified envelope it sent: its advertised payload.maxVersion, else the
+   * envelope's own version (older SDKs don't advertise). Tracking the latest
+   * rather than the highest lets a downgraded peer fall back to 2.0.
+   */
+  private notePeerVersion(contact: CachedContact, envelope: WireEnvelope): void {
+    const advertised = envelope.payload.maxVersion;
+    const version = typeof advertised === 'string' && parseVersion(advertised) ? advertised : envelope.version;
+    if (version === contact.maxVersion) return;
+    contact.maxVersion = version;
+    this.scheduleCacheSave(contact.community ?? this.communities[0].name);
+  }
+
+  /** Drop the pending debounced cache save. */
+  private cancelCacheSave(): void {
+    if (this.cacheSaveTimer) {
+      clearTimeout(this.cacheSaveTimer);
+      this.cacheSaveTimer = null;
+    }
+    this.dirtyCaches.clear();
+  }
+
+  /**
+   * Check a verified envelope against the replay cache. Records it if new;
+   * emits 'duplicate' and returns true if it was already processed.
+   */
+  private isReplay(envelope: WireEnvelope): boolean {
+    if (this.replayCache.has(envelope.sender, envelope.messageId)) {
+      this.emit('duplicate', {
+        sender: envelope.sender,
+        messageId: envelope.messageId,
+        type: envelope.type,
+        ...(envelope.groupId ? { groupId: envelope.groupId } : {}),
+      } satisfies DuplicateMessageEvent);
+      return true;
+    }
+    this.replayCache.record(envelope.sender, envelope.messageId);
+    return false;
+  }
+
+  /**
+   * Send the chunks of a staged transfer that the recipient hasn't accepted
+   * yet, in order, stopping at the first failure. Used by sendFile() and the
+   * retry queue. Returns true once every chunk is delivered; the staged copy
+   * is removed then. `padding` overrides the `padding` option.
+   */
+  private async deliverFile(transferId: string, forceRefresh?: boolean, padding?: PayloadPadding | 'none'): Promise<boolean> {
+    const transfer = this.transfers.outgoing(transferId);
+    if (!transfer) return false;
+    const contact = this.getCachedContact(transfer.recipient);
+    if (!contact) return false;
+    const blocked = this.sendBlockedReason(contact);
+    if (blocked) {
+      this.recordAttempt(transferId, false, '', undefined, blocked, 0);
+      return false;
+    }
+
+    const startTime = Date.now();
+    const presence = await this.checkPresence(transfer.recipient, { forceRefresh });
+    if (!presence.online) {
+      this.recordAttempt(transferId, false, '', undefined, 'Recipient offline', Date.now() - startTime);
+      return false;
+    }
+
+    // The presence check refreshed the contact: re-check it before any chunk goes out
+    const current = this.getCachedContact(transfer.recipient) ?? contact;
+    const blockedNow = this.sendBlockedReason(current);
+    if (blockedNow) {
+      this.recordAttempt(transferId, false, '', undefined, blockedNow, Date.now() - startTime);
+      return false;
+    }
+    const endpoint = presence.endpoint || current.endpoint;
+    if (!endpoint) return false;
+
+    for (const index of pendingChunks(transfer)) {
+      const envelope = buildEnvelope({
+        sender: this.options.username,
+        recipient: transfer.recipient,
+        payload: { ...this.transfers.chunkPayload(transfer, index) },
+        senderPrivateKey: this.identity,
+        recipientPublicKeyBase64: this.trustedKey(current),
+        messageId: `${transferId}:${index}`,
+        type: 'file-chunk',
+        ...this.envelopeEncryption(current),
+        ...this.envelopeCompression(current),
+        ...this.envelopePadding(current, padding),
+        keyCache: this.keyCache,
+      });
+      if (!(await this.deliverFn(endpoint, envelope))) {
+        this.recordAttempt(transferId, true, endpoint, 0, `Delivery failed at chunk ${index + 1}/${transfer.count}`, Date.now() - startTime);
+        return false;
+      }
+      this.transfers.markDelivered(transfer, index);
+      this.emitFileProgress('send', transfer.recipient, transfer, transfer.delivered.length);
+    }
+
+    this.recordAttempt(transferId, true, endpoint, 200, undefined, Date.now() - startTime);
+    this.finalizeReport(transferId, 'delivered');
+    this.transfers.removeOutgoing(transferId);
+    return true;
+  }
+
+  private emitFileProgress(direction: FileProgressEvent['direction'], peer: string, header: FileHeader, chunksDone: number): FileProgressEvent {
+    const event: FileProgressEvent = {
+      transferId: header.transferId,
+      direction,
+      peer,
+      name: header.name,
+      size: header.size,
+      chunks: header.count,
+      chunksDone,
+    };
+    this.emit('file-progress', event);
+    return event;
+  }
+
+  /** Remember a sent direct message so a later receipt can be matched and checked. */
+  private expectReceipt(messageId: string, recipient: string, payload: Record<string, unknown>): void {
+    this.receipts.expect(messageId, { recipient, digest: payloadDigest(payload) });
+  }
+
+  /**
+   * Acknowledge a duplicate again, with the digest remembered from the first
+   * copy, else `digest` when the duplicate could be decrypted. A ratchet
+   * duplicate with no remembered digest gets nothing.
+   */
+  private resendReceipt(contact: CachedContact, messageId: string, digest?: string): void {
+    const acknowledged = this.receipts.getReceived(contact.username, messageId) ?? digest;
+    if (!acknowledged) return;
+    this.sendReceipt(contact, messageId, acknowledged).catch(() => {
+      // Best effort, as for the first receipt
+    });
+  }
+
+  /**
+   * Send a signed, encrypted receipt for a processed direct message back to
+   * its sender. Best effort: no presence check, no retry.
+   */
+  private async sendReceipt(contact: CachedContact, messageId: string, digest: string): Promise<void> {
+    if (!contact.endpoint || this.isKeyBlocked(contact)) return;
+    const envelope = buildEnvelope({
+      sender: this.options.username,
+      recipient: contact.username,
+      payload: {
+        receiptFor: messageId,
+        receivedAt: new Date().toISOString(),
+        digest,
+      },
+      senderPrivateKey: this.identity,
+      recipientPublicKeyBase64: contact.publicKey,
+      type: 'receipt',
+      ...this.envelopeEncryption(contact),
+      ...this.envelopeCompression(contact),
+      ...this.envelopePadding(contact),
+      keyCache: this.keyCache,
+    });
+    await this.deliverFn(contact.endpoint, envelope);
   }
 
   /** Initialize a delivery report for a message. */
@@ -1150,7 +2846,10 @@ export class A2ANetwork extends EventEmitter {
     }
   }
 
-  /** Record a delivery attempt. */
+  /**
+   * Record a delivery attempt — on the direct report for messageId, or on
+   * `recipient`'s entry in the group report when messageId is a group message.
+   */
   private recordAttempt(
     messageId: string,
     presenceCheck: boolean,
@@ -1158,10 +2857,12 @@ export class A2ANetwork extends EventEmitter {
     httpStatus: number | undefined,
     error: string | undefined,
     durationMs: number,
+    recipient?: string,
   ): void {
-    const report = this.deliveryReports.get(messageId);
-    if (!report) return;
-    report.attempts.push({
+    const attempts = this.deliveryReports.get(messageId)?.attempts
+      ?? (recipient ? this.getGroupMember(messageId, recipient)?.attempts : undefined);
+    if (!attempts) return;
+    attempts.push({
       timestamp: new Date().toISOString(),
       presenceCheck,
       endpoint,
@@ -1171,34 +2872,144 @@ export class A2ANetwork extends EventEmitter {
     });
   }
 
-  /** Set the final status of a delivery report. */
-  private finalizeReport(messageId: string, status: DeliveryReport['finalStatus']): void {
+  /** Initialize the group delivery report with every recipient queued. */
+  private initGroupReport(messageId: string, groupId: string, recipients: string[]): void {
+    const report: GroupDeliveryReport = {
+      messageId,
+      groupId,
+      sentAt: new Date().toISOString(),
+      members: recipients.map((recipient) => ({ recipient, status: 'queued', attempts: [] })),
+      complete: recipients.length === 0,
+      allDelivered: recipients.length === 0,
+    };
+    this.groupDeliveryReports.set(messageId, report);
+    // Evict oldest reports to prevent unbounded growth
+    if (this.groupDeliveryReports.size > A2ANetwork.MAX_GROUP_DELIVERY_REPORTS) {
+      const first = this.groupDeliveryReports.keys().next().value;
+      if (first) this.groupDeliveryReports.delete(first);
+    }
+  }
+
+  private getGroupMember(messageId: string, recipient: string): GroupMemberDelivery | undefined {
+    return this.groupDeliveryReports.get(messageId)?.members.find((m) => m.recipient === recipient);
+  }
+
+  /** Set one member's status in a group report and emit 'group-delivery-complete' when the last member settles. */
+  private setGroupMemberStatus(
+    messageId: string,
+    recipient: string,
+    status: GroupMemberDelivery['status'],
+    reason?: string,
+  ): void {
+    const report = this.groupDeliveryReports.get(messageId);
+    const member = report?.members.find((m) => m.recipient === recipient);
+    if (!report || !member) return;
+
+    member.status = status;
+    if (reason) member.reason = reason;
+    else delete member.reason;
+
+    const wasComplete = report.complete;
+    report.complete = report.members.every((m) => m.status !== 'queued');
+    report.allDelivered = report.members.every((m) => m.status === 'delivered');
+    if (report.complete && !wasComplete) {
+      this.emit('group-delivery-complete', report);
+    }
+  }
+
+  /** Apply a retry-queue status change for a group message to its report. */
+  private updateGroupMember(status: DeliveryStatus): void {
+    if (!status.recipient) return;
+    switch (status.status) {
+      case 'pending': // Queued or resubmitted
+        this.setGroupMemberStatus(status.messageId, status.recipient, 'queued');
+        break;
+      case 'delivered':
+        this.setGroupMemberStatus(status.messageId, status.recipient, 'delivered');
+        break;
+      case 'expired':
+      case 'failed': {
+        const lastError = this.getGroupMember(status.messageId, status.recipient)?.attempts.at(-1)?.error;
+        this.setGroupMemberStatus(status.messageId, status.recipient, status.status,
+          lastError ? `${status.reason}: ${lastError}` : status.reason);
+        break;
+      }
+      case 'cancelled':
+        this.setGroupMemberStatus(status.messageId, status.recipient, 'cancelled', status.reason);
+        break;
+    }
+  }
+
+  /** Set the final status (and, for expired/failed, the reason) of a delivery report. */
+  private finalizeReport(messageId: string, status: DeliveryReport['finalStatus'], reason?: string): void {
     const report = this.deliveryReports.get(messageId);
-    if (report) report.finalStatus = status;
+    if (!report) return;
+    report.finalStatus = status;
+    if (reason) report.reason = reason;
   }
 
-  /** Update the local contacts cache for a specific community. */
+  /**
+   * Update the local contacts cache for a specific community. Changes against
+   * the previous cache emit roster and presence events (see emitContactChanges).
+   */
   private updateContactsCache(contacts: RelayContact[], communityName?: string): void {
     const name = communityName || this.communities[0].name;
+    const previous = this.caches.get(name);
+    const known = new Map(previous?.contacts.map((c) => [c.username, c]));
     const cache: CacheData = {
-      contacts: contacts.map((c) => ({
-        username: c.agent,
-        publicKey: c.publicKey,
-        endpoint: c.endpoint,
-        addedAt: c.since,
-        online: c.online,
-        lastSeen: c.lastSeen,
-        community: name,
-      })),
+      contacts: contacts.map((c) => {
+        const old = known.get(c.agent);
+        const pinnedKey = this.pinKey(old, c.publicKey);
+        const entry: CachedContact = {
+          username: c.agent,
+          publicKey: c.publicKey,
+          endpoint: c.endpoint,
+          addedAt: c.since,
+          online: c.online,
+          lastSeen: c.lastSeen,
+          community: name,
+          pinnedKey,
+        };
+        // Verification covers the pinned key only
+        if (old?.verified && pinnedKey === (old.pinnedKey ?? old.publicKey)) entry.verified = true;
+        if (old?.maxVersion) entry.maxVersion = old.maxVersion;
+        if (c.recoveryInProgress) entry.recoveryInProgress = true;
+        return entry;
+      }),
       lastUpdated: new Date().toISOString(),
     };
     this.caches.set(name, cache);
-    saveCache(getCommunityCachePath(this.options.dataDir, name), cache);
+
+    if (previous) {
+      this.emitContactChanges(name, previous.contacts, cache.contacts, contacts);
+      // Keys derived from replaced or removed contact keys are stale
+      const current = new Set(cache.contacts.map((c) => c.publicKey));
+      for (const c of previous.contacts) {
+        if (!current.has(c.publicKey)) this.keyCache.invalidate(c.publicKey);
+      }
+    }
+
+    // Debounce the disk write — presence refreshes can happen on every send
+    this.scheduleCacheSave(name);
+  }
+
+  /** Mark a community cache dirty and write it after cacheSaveDelay. */
+  private scheduleCacheSave(communityName: string): void {
+    this.dirtyCaches.add(communityName);
+    if (!this.cacheSaveTimer) {
+      this.cacheSaveTimer = setTimeout(() => this.flushContactsCaches(), this.options.cacheSaveDelay);
+      this.cacheSaveTimer.unref();
+    }
   }
 }
 
+/** Whether the contact advertised at least this envelope version. */
+function supportsVersion(contact: CachedContact, version: string): boolean {
+  return !!contact.maxVersion && isAtLeastVersion(contact.maxVersion, version);
+}
+
 /** Convert a relay contact to the SDK Contact type. */
-function toContact(rc: RelayContact): Contact {
+function toContact(rc: RelayContact, verified = false): Contact {
   return {
     username: rc.agent,
     publicKey: rc.publicKey,
@@ -1208,9 +3019,40 @@ function toContact(rc: RelayContact): Contact {
     lastSeen: rc.lastSeen,
     keyUpdatedAt: rc.keyUpdatedAt,
     recoveryInProgress: rc.recoveryInProgress,
+    verified,
+  };
+}
+
+/** Convert a cached contact to the SDK Contact type (no key metadata). */
+function fromCached(c: CachedContact): Contact {
+  return {
+    username: c.username,
+    publicKey: c.publicKey,
+    endpoint: c.endpoint || '',
+    addedAt: c.addedAt,
+    online: c.online || false,
+    lastSeen: c.lastSeen || null,
+    keyUpdatedAt: null,
+    recoveryInProgress: c.recoveryInProgress || false,
+    verified: c.verified || false,
   };
 }
 
+/**
+ * Absolute expiry (ms) for a send() call, or undefined to use the retry policy's
+ * maxAgeMs. When both ttl and deadline are given the earlier one wins.
+ */
+function resolveExpiry(options: SendOptions): number | undefined {
+  const candidates: number[] = [];
+  if (options.ttl !== undefined) candidates.push(Date.now() + options.ttl);
+  if (options.deadline !== undefined) {
+    const deadline = new Date(options.deadline).getTime();
+    if (Number.isNaN(deadline)) throw new Error(`Invalid deadline: ${String(options.deadline)}`);
+    candidates.push(deadline);
+  }
+  return candidates.length > 0 ? Math.min(...candidates) : undefined;
+}
+
 /** Safely parse a JSON string, returning empty object on failure. */
 function safeParse(json: string): Record<string, unknown> {
   try {
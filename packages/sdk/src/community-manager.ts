@@ -17,8 +17,9 @@
  */
 
 import { EventEmitter } from 'node:events';
-import { createPrivateKey, type KeyObject } from 'node:crypto';
+import type { KeyObject } from 'node:crypto';
 import { HttpRelayAPI, type IRelayAPI, type RelayResponse } from './relay-api.js';
+import { LocalSigner, toSigner, type Signer } from './signer.js';
 import type { CommunityConfig, CommunityStatusEvent } from './types.js';
 
 export interface CommunityState {
@@ -26,6 +27,8 @@ export interface CommunityState {
   config: CommunityConfig;
   primaryApi: IRelayAPI;
   failoverApi: IRelayAPI | null;
+  /** Key the community's relay requests are signed with */
+  signer: Signer;
   activeRelay: 'primary' | 'failover';
   consecutiveFailures: number;
   firstSuccessSeen: boolean;
@@ -42,7 +45,7 @@ export class CommunityRelayManager extends EventEmitter {
   constructor(
     communities: CommunityConfig[],
     username: string,
-    defaultPrivateKey: KeyObject,
+    defaultPrivateKey: KeyObject | Signer,
     failoverThreshold: number,
     relayAPIs?: Record<string, IRelayAPI>,
   ) {
@@ -51,10 +54,9 @@ export class CommunityRelayManager extends EventEmitter {
     this.communityOrder = communities.map(c => c.name);
 
     for (const config of communities) {
-      // Resolve private key: community-specific or default
-      const privateKey = config.privateKey
-        ? createPrivateKey({ key: Buffer.from(config.privateKey), format: 'der', type: 'pkcs8' })
-        : defaultPrivateKey;
+      // Resolve key: community-specific signer or private key, else the default
+      const privateKey = config.signer
+        ?? (config.privateKey ? new LocalSigner(config.privateKey) : defaultPrivateKey);
 
       // Create or inject primary API
       const primaryKey = `${config.name}:primary`;
@@ -72,6 +74,7 @@ export class CommunityRelayManager extends EventEmitter {
         config,
         primaryApi,
         failoverApi,
+        signer: toSigner(privateKey),
         activeRelay: 'primary',
         consecutiveFailures: 0,
         firstSuccessSeen: false,
@@ -104,6 +107,31 @@ export class CommunityRelayManager extends EventEmitter {
     return state.primaryApi;
   }
 
+  /**
+   * Sign a community's relay requests with another key (after a key
+   * rotation). Only affects HttpRelayAPI instances; injected APIs sign
+   * however they were built to.
+   */
+  setSigner(communityName: string, signer: Signer): void {
+    const state = this.communities.get(communityName);
+    if (!state) {
+      throw new Error(`Community not found: '${communityName}'`);
+    }
+    state.signer = signer;
+    for (const api of [state.primaryApi, state.failoverApi]) {
+      if (api instanceof HttpRelayAPI) api.setSigner(signer);
+    }
+  }
+
+  /** The key a community's relay requests are signed with. Throws if community not found. */
+  getSigner(communityName: string): Signer {
+    const state = this.communities.get(communityName);
+    if (!state) {
+      throw new Error(`Community not found: '${communityName}'`);
+    }
+    return state.signer;
+  }
+
   /** Get all configured community names in config order. */
   getCommunityNames(): string[] {
     return [...this.communityOrder];
@@ -281,24 +309,24 @@ export class CommunityRelayManager extends EventEmitter {
   }
 
   /**
-   * Get community names that use the default keypair (no community-specific privateKey).
+   * Get community names that use the default keypair (no community-specific privateKey or signer).
    * Used by rotateKey() to determine which relays to fan out to.
    */
   getDefaultKeyCommunities(): string[] {
     return this.communityOrder.filter(name => {
       const state = this.communities.get(name)!;
-      return !state.config.privateKey;
+      return !state.config.privateKey && !state.config.signer;
     });
   }
 
   /**
    * Get community names that use a specific community-level keypair.
-   * Returns communities whose config.privateKey matches the given key.
+   * Returns communities whose config.privateKey (or signer) matches the given key.
    */
   getCommunitiesWithKey(communityName: string): string[] {
     const target = this.communities.get(communityName);
     if (!target) return [];
-    if (!target.config.privateKey) return this.getDefaultKeyCommunities();
+    if (!target.config.privateKey && !target.config.signer) return this.getDefaultKeyCommunities();
     // Community-specific key — only that community
     return [communityName];
   }
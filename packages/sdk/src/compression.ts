@@ -0,0 +1,63 @@
+/**
+ * Payload compression — applied to the JSON plaintext before encryption.
+ *
+ * The algorithm travels in the envelope's payload.compression field, which is
+ * covered by the signature. Senders only compress for peers that advertise
+ * support, only above a size threshold, and only when it actually saves bytes.
+ *
+ * Receivers cap the decompressed size: a 1 MB envelope of repeated bytes can
+ * inflate to gigabytes, so decompression stops at maxBytes instead of
+ * allocating the full output.
+ */
+
+import { gzipSync, gunzipSync, brotliCompressSync, brotliDecompressSync, constants } from 'node:zlib';
+import type { PayloadCompression } from './types.js';
+
+export const DEFAULT_COMPRESSION_THRESHOLD = 1024; // 1 KB
+export const DEFAULT_MAX_DECOMPRESSED_BYTES = 4 * 1024 * 1024; // 4 MB
+
+const ALGORITHMS: PayloadCompression[] = ['gzip', 'br'];
+
+export interface CompressOptions {
+  algorithm: PayloadCompression;
+  /** Plaintexts smaller than this many bytes are sent uncompressed */
+  threshold: number;
+}
+
+/**
+ * Compress a plaintext if it is at least `threshold` bytes and compression
+ * shrinks it. `compression` is undefined when the plaintext is sent as-is.
+ */
+export function compressPayload(plaintext: Buffer, opts: CompressOptions): { data: Buffer; compression?: PayloadCompression } {
+  if (plaintext.length < opts.threshold) return { data: plaintext };
+  const data = opts.algorithm === 'br'
+    ? brotliCompressSync(plaintext, { params: { [constants.BROTLI_PARAM_SIZE_HINT]: plaintext.length } })
+    : gzipSync(plaintext);
+  return data.length < plaintext.length ? { data, compression: opts.algorithm } : { data: plaintext };
+}
+
+/**
+ * Decompress a plaintext, refusing output larger than `maxBytes`.
+ *
+ * Throws on an unknown algorithm, corrupt data, or output over the limit.
+ */
+export function decompressPayload(data: Buffer, compression: unknown, maxBytes: number): Buffer {
+  if (!isPayloadCompression(compression)) {
+    throw new Error(`Unsupported payload compression: ${String(compression)}`);
+  }
+  try {
+    return compression === 'br'
+      ? brotliDecompressSync(data, { maxOutputLength: maxBytes })
+      : gunzipSync(data, { maxOutputLength: maxBytes });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`Decompressed payload exceeds ${maxBytes} bytes`);
+    }
+    throw new Error('Invalid compressed payload');
+  }
+}
+
+/** Whether a value names a supported compression algorithm. */
+export function isPayloadCompression(value: unknown): value is PayloadCompression {
+  return ALGORITHMS.includes(value as PayloadCompression);
+}
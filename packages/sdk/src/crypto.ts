@@ -91,14 +91,21 @@ export function ed25519PrivToX25519(ed25519Seed: Buffer): Buffer {
 }
 
 /**
- * Derive shared AES-256 key from X25519 ECDH.
+ * Generate an X25519 keypair as raw 32-byte keys (ephemeral per-message keys).
  */
-export function deriveSharedKey(
-  myX25519Priv: Buffer,
-  theirX25519Pub: Buffer,
-  senderId: string,
-  recipientId: string,
-): Buffer {
+export function generateX25519Keypair(): { privateKey: Buffer; publicKey: Buffer } {
+  const { privateKey, publicKey } = generateKeyPairSync('x25519');
+  return {
+    // PKCS8 DER for X25519: key at offset 16; SPKI DER: key at offset 12
+    privateKey: Buffer.from(privateKey.export({ type: 'pkcs8', format: 'der' }).subarray(16, 48)),
+    publicKey: Buffer.from(publicKey.export({ type: 'spki', format: 'der' }).subarray(12, 44)),
+  };
+}
+
+/**
+ * Raw X25519 Diffie-Hellman between 32-byte keys. Returns the 32-byte shared secret.
+ */
+export function x25519(myX25519Priv: Buffer, theirX25519Pub: Buffer): Buffer {
   const myKey = createPrivateKey({
     key: Buffer.concat([
       // X25519 PKCS8 prefix
@@ -119,12 +126,37 @@ export function deriveSharedKey(
     type: 'spki',
   });
 
-  const shared = diffieHellman({ privateKey: myKey, publicKey: theirKey });
+  return diffieHellman({ privateKey: myKey, publicKey: theirKey });
+}
 
+/**
+ * Derive shared AES-256 key from X25519 ECDH.
+ * `salt` separates key schedules (static-static vs ephemeral-static).
+ */
+export function deriveSharedKey(
+  myX25519Priv: Buffer,
+  theirX25519Pub: Buffer,
+  senderId: string,
+  recipientId: string,
+  salt = 'cc4me-e2e-v1',
+): Buffer {
+  return sharedKeyFromSecret(x25519(myX25519Priv, theirX25519Pub), senderId, recipientId, salt);
+}
+
+/**
+ * Derive the shared AES-256 key from an X25519 shared secret computed
+ * elsewhere (e.g. by a KeyAgreement). Same derivation as deriveSharedKey().
+ */
+export function sharedKeyFromSecret(
+  shared: Buffer,
+  senderId: string,
+  recipientId: string,
+  salt = 'cc4me-e2e-v1',
+): Buffer {
   // Sort sender:recipient alphabetically for consistent key derivation
   const info = [senderId, recipientId].sort().join(':');
   return Buffer.from(
-    hkdfSync('sha256', shared, 'cc4me-e2e-v1', info, 32),
+    hkdfSync('sha256', shared, salt, info, 32),
   );
 }
 
@@ -182,6 +214,35 @@ export function getEd25519RawKeys(privateKey: KeyObject): { seed: Buffer; public
   return { seed, publicKeyRaw };
 }
 
+/**
+ * Fingerprint of an Ed25519 public key (base64 SPKI DER): SHA-256 of the raw
+ * 32-byte key, as 16 space-separated groups of 4 uppercase hex digits.
+ */
+export function keyFingerprint(publicKeyBase64: string): string {
+  const spki = Buffer.from(publicKeyBase64, 'base64');
+  const hex = createHash('sha256').update(spki.subarray(spki.length - 32)).digest('hex').toUpperCase();
+  return hex.match(/.{4}/g)!.join(' ');
+}
+
+/**
+ * Pairwise safety number for two Ed25519 public keys (base64 SPKI DER): 60
+ * digits in groups of 5, the same whichever side computes it. Each key
+ * contributes 30 digits derived from SHA-512 of its raw bytes; the two halves
+ * are sorted so argument order does not matter.
+ */
+export function safetyNumber(publicKeyA: string, publicKeyB: string): string {
+  const half = (publicKeyBase64: string): string => {
+    const spki = Buffer.from(publicKeyBase64, 'base64');
+    const digest = createHash('sha512').update('a2a-safety-number').update(spki.subarray(spki.length - 32)).digest();
+    let digits = '';
+    for (let i = 0; i < 6; i++) {
+      digits += (digest.readUIntBE(i * 5, 5) % 100000).toString().padStart(5, '0');
+    }
+    return digits;
+  };
+  return [half(publicKeyA), half(publicKeyB)].sort().join('').match(/.{5}/g)!.join(' ');
+}
+
 /**
  * Sign data with Ed25519.
  * Ed25519 uses its own built-in hash (SHA-512), so algorithm is null.
@@ -0,0 +1,121 @@
+/**
+ * Inbound inbox — HTTP plumbing for receiving wire envelopes.
+ *
+ * Reads and size-limits the POST body, parses JSON, hands the result to a
+ * dispatch function (A2ANetwork.handleEnvelope) and writes its status/body
+ * back as JSON. Routing by envelope type lives in the client, so this module
+ * has no knowledge of crypto or contacts and can be reused by any framework.
+ *
+ * Status codes:
+ *   200/202 — accepted (202 when the envelope is only a hint to poll the relay)
+ *   400     — malformed JSON, invalid envelope, or processing failure
+ *   403     — sender is not a contact
+ *   405     — method other than POST
+ *   409     — duplicate (already processed) message
+ *   413     — body exceeds maxBodyBytes
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024; // 1 MB
+
+/** Result of dispatching one inbound envelope. */
+export interface InboxResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+export interface InboxOptions {
+  /** Maximum accepted request body size in bytes (default: 1 MB). */
+  maxBodyBytes?: number;
+}
+
+/** Dispatch function: receives the parsed JSON body, returns the HTTP response. */
+export type InboxDispatchFn = (body: unknown) => Promise<InboxResponse>;
+
+/** node:http request listener for the inbox. */
+export type InboxHandler = (req: IncomingMessage, res: ServerResponse) => void;
+
+/** Thrown by readBody when the request body exceeds the configured limit. */
+class BodyTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`Request body exceeds ${limit} bytes`);
+  }
+}
+
+/**
+ * Create a node:http request listener that parses inbound envelopes and
+ * passes them to `dispatch`.
+ */
+export function createInboxHandler(dispatch: InboxDispatchFn, options: InboxOptions = {}): InboxHandler {
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+  return (req, res) => {
+    handleRequest(req, res, dispatch, maxBodyBytes).catch(() => {
+      writeJson(res, { status: 500, body: { error: 'Internal error' } });
+    });
+  };
+}
+
+async function handleRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  dispatch: InboxDispatchFn,
+  maxBodyBytes: number,
+): Promise<void> {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    writeJson(res, { status: 405, body: { error: 'Method not allowed' } });
+    return;
+  }
+
+  let raw: string;
+  try {
+    raw = await readBody(req, maxBodyBytes);
+  } catch (err) {
+    if (err instanceof BodyTooLargeError) {
+      // Discard the rest of the oversized upload, then reply
+      req.resume();
+      res.setHeader('Connection', 'close');
+      writeJson(res, { status: 413, body: { error: err.message } });
+      return;
+    }
+    throw err;
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    writeJson(res, { status: 400, body: { error: 'Invalid JSON' } });
+    return;
+  }
+
+  writeJson(res, await dispatch(body));
+}
+
+/** Read the full request body as UTF-8, rejecting once it exceeds `limit` bytes. */
+function readBody(req: IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        req.removeAllListeners('data');
+        reject(new BodyTooLargeError(limit));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+function writeJson(res: ServerResponse, response: InboxResponse): void {
+  if (res.headersSent) return;
+  res.statusCode = response.status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(response.body));
+}
@@ -20,13 +20,26 @@
  */
 
 export { A2ANetwork } from './client.js';
-export type { DeliverFn, A2ANetworkEvents, A2ANetworkInternalOptions, GroupInvitationEvent, GroupMemberChangeEvent } from './client.js';
+export type { DeliverFn, A2ANetworkEvents, A2ANetworkInternalOptions, GroupInvitationEvent, GroupMemberChangeEvent, DuplicateMessageEvent, PresenceChangeEvent, ContactChangeEvent, ContactKeyChangedEvent, ContactRecoveryEvent, FileProgressEvent, KeyRotatedEvent, KeyRotationFailedEvent } from './client.js';
 export type {
   A2ANetworkOptions,
   CommunityConfig,
   CommunityStatusEvent,
   SendResult,
+  SendOptions,
+  SendFileOptions,
+  FileSendResult,
+  ReceivedFile,
+  RetryPolicy,
+  KeyChangePolicy,
+  RecoveryPolicy,
+  GroupEncryption,
+  PayloadCompression,
+  PayloadPadding,
+  EnvelopeEncryption,
   GroupSendResult,
+  GroupDeliveryReport,
+  GroupMemberDelivery,
   GroupMessage,
   Message,
   ContactRequest,
@@ -34,12 +47,33 @@ export type {
   Broadcast,
   DeliveryStatus,
   DeliveryReport,
+  DeliveryReceipt,
   Contact,
   WireEnvelope,
   KeyRotationResult,
   KeyRotationCommunityResult,
+  IdentityRotationResult,
+  KeyRotationNoticeFailure,
+  KeyPolicy,
+  KeyStatus,
 } from './types.js';
 
+// Identity keys: in-memory signer and key agent
+export { LocalSigner } from './signer.js';
+export type { Signer, KeyAgreement, IdentityKey } from './signer.js';
+export { AgentSigner, serveKeyAgent, DEFAULT_AGENT_TIMEOUT } from './key-agent.js';
+
+// Passphrase-encrypted keystore
+export { Keystore, getKeystorePath, DEFAULT_KEYSTORE_COST } from './keystore.js';
+export type { KeystoreKeys, KeystoreEntry, KeystoreOptions } from './keystore.js';
+
+// Inbound inbox (HTTP receive side)
+export { createInboxHandler } from './inbox.js';
+export type { InboxResponse, InboxOptions, InboxHandler, InboxDispatchFn } from './inbox.js';
+
+// Retry queue
+export type { QueuedMessage } from './retry.js';
+
 // Community management
 export { CommunityRelayManager, parseQualifiedName } from './community-manager.js';
 export type { CommunityState, ParsedName } from './community-manager.js';
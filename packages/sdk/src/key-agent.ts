@@ -0,0 +1,239 @@
+/**
+ * Key agent — keeps the identity key in a separate process, ssh-agent style.
+ *
+ * The agent process calls serveKeyAgent() with the key; the SDK process
+ * passes `new AgentSigner(socketPath)` as the `signer` option and never holds
+ * the key bytes. Anything that can open the socket can sign and derive with
+ * the key (but not read it), so serveKeyAgent() only listens inside a
+ * directory that only the agent's user can reach (created with mode 0700 if
+ * missing, refused otherwise). The socket itself gets mode 0600 too, but only
+ * after listen() returns, which alone would leave a window.
+ *
+ * Protocol: newline-delimited JSON over a Unix socket, one request at a time
+ * per connection, answered in order.
+ *
+ *   → { "op": "public-key" }                      ← { "result": <base64 SPKI DER> }
+ *   → { "op": "sign", "data": <base64> }          ← { "result": <base64 signature> }
+ *   → { "op": "derive", "data": <base64 X25519> } ← { "result": <base64 shared secret> }
+ *   ← { "error": "..." } on failure
+ *
+ * Signer calls are synchronous (see signer.ts), so AgentSigner talks to the
+ * socket from a worker thread and blocks on Atomics.wait() until it answers.
+ * Agent round trips therefore stall the event loop; a local agent answers in
+ * well under a millisecond.
+ */
+
+import { createServer, type Server, type Socket } from 'node:net';
+import { chmodSync, mkdirSync, lstatSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { Worker, MessageChannel, receiveMessageOnPort, type MessagePort } from 'node:worker_threads';
+import type { IdentityKey } from './signer.js';
+
+/** How long an AgentSigner waits for each answer, in ms. */
+export const DEFAULT_AGENT_TIMEOUT = 5000;
+/** Largest request line the agent accepts (signed envelopes carry their ciphertext). */
+const MAX_REQUEST_BYTES = 4 * 1024 * 1024;
+
+type AgentOp = 'public-key' | 'sign' | 'derive';
+
+interface AgentRequest {
+  op: AgentOp;
+  data?: string;
+}
+
+interface AgentResponse {
+  result?: string;
+  error?: string;
+}
+
+/**
+ * Serve an identity key on a Unix socket. Resolves once listening; close the
+ * returned server to stop.
+ *
+ * Creates the socket's directory with mode 0700 if it doesn't exist. Rejects
+ * if it exists but isn't a directory owned by this user and closed to
+ * everyone else.
+ */
+export function serveKeyAgent(socketPath: string, key: IdentityKey): Promise<Server> {
+  const server = createServer((socket) => serveConnection(socket, key));
+  return new Promise((resolve, reject) => {
+    ensurePrivateDir(dirname(socketPath)); // Throwing here rejects
+    server.once('error', reject);
+    server.listen(socketPath, () => {
+      server.off('error', reject);
+      try {
+        chmodSync(socketPath, 0o600);
+      } catch (err) {
+        // Don't leave a socket listening with the wrong mode
+        server.close();
+        reject(err);
+        return;
+      }
+      resolve(server);
+    });
+  });
+}
+
+/** Create `dir` with mode 0700, or check that an existing one is as private. */
+function ensurePrivateDir(dir: string): void {
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  // lstat: a symlink could point anywhere, so it doesn't count as private
+  const stat = lstatSync(dir);
+  const uid = process.getuid?.();
+  if (!stat.isDirectory() || (uid !== undefined && stat.uid !== uid) || (stat.mode & 0o077) !== 0) {
+    throw new Error(`Key agent socket directory '${dir}' must be a directory owned by this user with mode 0700`);
+  }
+}
+
+function serveConnection(socket: Socket, key: IdentityKey): void {
+  let buffer = '';
+  socket.setEncoding('utf-8');
+  socket.on('error', () => { /* client went away */ });
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    if (buffer.length > MAX_REQUEST_BYTES) {
+      socket.end(JSON.stringify({ error: 'Request too large' }) + '\n');
+      buffer = '';
+      return;
+    }
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+      socket.write(JSON.stringify(answer(line, key)) + '\n');
+    }
+  });
+}
+
+function answer(line: string, key: IdentityKey): AgentResponse {
+  try {
+    const request = JSON.parse(line) as AgentRequest;
+    const data = typeof request.data === 'string' ? Buffer.from(request.data, 'base64') : undefined;
+    switch (request.op) {
+      case 'public-key':
+        return { result: key.publicKey };
+      case 'sign':
+        if (!data) return { error: 'Missing data' };
+        return { result: key.sign(data).toString('base64') };
+      case 'derive':
+        if (data?.length !== 32) return { error: 'Invalid X25519 public key' };
+        return { result: key.deriveSharedSecret(data).toString('base64') };
+      default:
+        return { error: `Unknown operation: ${String(request.op)}` };
+    }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Malformed request' };
+  }
+}
+
+/**
+ * Worker thread: owns the socket connection (reconnecting after errors),
+ * forwards each request and posts the answer back, then wakes the caller.
+ */
+const WORKER_SOURCE = `
+const { workerData } = require('node:worker_threads');
+const { createConnection } = require('node:net');
+const { port, signal, socketPath } = workerData;
+const flag = new Int32Array(signal);
+let socket = null;
+let buffer = '';
+let pending = false;
+
+function reply(response) {
+  if (!pending) return;
+  pending = false;
+  port.postMessage(response);
+  Atomics.store(flag, 0, 1);
+  Atomics.notify(flag, 0);
+}
+
+function connect() {
+  const conn = createConnection(socketPath);
+  conn.setEncoding('utf-8');
+  conn.on('data', (chunk) => {
+    buffer += chunk;
+    const newline = buffer.indexOf('\\n');
+    if (newline === -1) return;
+    const line = buffer.slice(0, newline);
+    buffer = buffer.slice(newline + 1);
+    try {
+      reply(JSON.parse(line));
+    } catch {
+      reply({ error: 'Malformed key agent response' });
+    }
+  });
+  conn.on('error', (err) => reply({ error: 'Key agent unavailable: ' + err.message }));
+  conn.on('close', () => {
+    if (socket === conn) socket = null;
+    buffer = '';
+    reply({ error: 'Key agent closed the connection' });
+  });
+  return conn;
+}
+
+port.on('message', (request) => {
+  pending = true;
+  if (!socket) socket = connect();
+  socket.write(JSON.stringify(request) + '\\n');
+});
+`;
+
+/** Identity key held by a key agent (see serveKeyAgent). */
+export class AgentSigner implements IdentityKey {
+  readonly publicKey: string;
+  private worker: Worker | null = null;
+  private port!: MessagePort;
+  private flag!: Int32Array;
+
+  /** Connects and fetches the public key; throws if the agent doesn't answer. */
+  constructor(private socketPath: string, private options: { timeout?: number } = {}) {
+    this.publicKey = this.call('public-key').toString('base64');
+  }
+
+  sign(data: Buffer): Buffer {
+    return this.call('sign', data);
+  }
+
+  deriveSharedSecret(peerPublicKey: Buffer): Buffer {
+    return this.call('derive', peerPublicKey);
+  }
+
+  /** Stop the worker thread (and its connection). Later calls reconnect. */
+  async close(): Promise<void> {
+    const worker = this.worker;
+    this.worker = null;
+    await worker?.terminate();
+  }
+
+  /** Send one request and block until the agent answers or the timeout passes. */
+  private call(op: AgentOp, data?: Buffer): Buffer {
+    const timeout = this.options.timeout ?? DEFAULT_AGENT_TIMEOUT;
+    if (!this.worker) this.startWorker();
+    Atomics.store(this.flag, 0, 0);
+    this.port.postMessage({ op, ...(data && { data: data.toString('base64') }) } satisfies AgentRequest);
+    if (Atomics.wait(this.flag, 0, 0, timeout) === 'timed-out') {
+      // A late answer would be taken for the next request's: start over
+      void this.close();
+      throw new Error(`Key agent did not answer within ${timeout} ms`);
+    }
+    const response = receiveMessageOnPort(this.port)?.message as AgentResponse | undefined;
+    if (typeof response?.result !== 'string') {
+      throw new Error(response?.error ?? 'Key agent sent no result');
+    }
+    return Buffer.from(response.result, 'base64');
+  }
+
+  private startWorker(): void {
+    const { port1, port2 } = new MessageChannel();
+    const signal = new SharedArrayBuffer(4);
+    this.worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { port: port2, signal, socketPath: this.socketPath },
+      transferList: [port2],
+    });
+    this.worker.unref();
+    port1.unref();
+    this.port = port1;
+    this.flag = new Int32Array(signal);
+  }
+}
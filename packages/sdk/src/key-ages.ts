@@ -0,0 +1,106 @@
+/**
+ * Key age store — when each of our keys went into use, for the keyPolicy option.
+ *
+ * The SDK can't know when a key was generated, so a key's clock starts the
+ * first time the client sees it in use, or when the client rotates it in.
+ * Entries are keyed by public key: the default key and each community key
+ * age independently, and entries for keys no longer in use are dropped.
+ *
+ * Persisted to {dataDir}/key-ages.json (mode 0600, write-then-rename) so a
+ * restart doesn't reset the clocks. Loaded lazily on first use.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync, renameSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+
+/** Age record of one key. */
+export interface KeyAgeEntry {
+  /** When the key went into use (ms since epoch) */
+  createdAt: number;
+  /** Whether 'key:expiring' has been emitted for it */
+  notified?: boolean;
+}
+
+interface KeyAgeFile {
+  keys: Record<string, KeyAgeEntry>;
+}
+
+export class KeyAgeStore {
+  private entries: Map<string, KeyAgeEntry> = new Map();
+  private loaded = false;
+
+  constructor(private filePath: string) {}
+
+  /**
+   * Start the clock for keys seen for the first time and forget keys that
+   * are no longer in use. Persists only if something changed.
+   */
+  track(publicKeys: string[], now = Date.now()): void {
+    this.ensureLoaded();
+    let changed = false;
+    for (const publicKey of this.entries.keys()) {
+      if (!publicKeys.includes(publicKey)) {
+        this.entries.delete(publicKey);
+        changed = true;
+      }
+    }
+    for (const publicKey of publicKeys) {
+      if (!this.entries.has(publicKey)) {
+        this.entries.set(publicKey, { createdAt: now });
+        changed = true;
+      }
+    }
+    if (changed) this.save();
+  }
+
+  /** Record a key that was just rotated in. */
+  record(publicKey: string, now = Date.now()): void {
+    this.ensureLoaded();
+    this.entries.set(publicKey, { createdAt: now });
+    this.save();
+  }
+
+  get(publicKey: string): KeyAgeEntry | undefined {
+    this.ensureLoaded();
+    return this.entries.get(publicKey);
+  }
+
+  /** Remember that 'key:expiring' was emitted for a key. */
+  markNotified(publicKey: string): void {
+    const entry = this.get(publicKey);
+    if (!entry || entry.notified) return;
+    entry.notified = true;
+    this.save();
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    try {
+      if (!existsSync(this.filePath)) return;
+      const data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as KeyAgeFile;
+      for (const [publicKey, entry] of Object.entries(data?.keys ?? {})) {
+        if (typeof entry?.createdAt === 'number') this.entries.set(publicKey, entry);
+      }
+    } catch {
+      // Corrupt file — keys restart their clocks, next save rewrites it
+    }
+  }
+
+  private save(): void {
+    const data: KeyAgeFile = { keys: Object.fromEntries(this.entries) };
+    // Write-then-rename so a crash mid-write never leaves a truncated file
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    writeFileSync(tmp, JSON.stringify(data), { mode: 0o600 });
+    renameSync(tmp, this.filePath);
+  }
+}
+
+/**
+ * Get the key age file path for a data directory.
+ * Returns: {dataDir}/key-ages.json
+ */
+export function getKeyAgeStorePath(dataDir: string): string {
+  return join(dataDir, 'key-ages.json');
+}
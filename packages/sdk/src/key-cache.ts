@@ -0,0 +1,93 @@
+/**
+ * Derived key cache — memoizes the per-contact key derivations on the
+ * envelope hot path.
+ *
+ * Without it every envelope converts the peer's Ed25519 key to X25519 (a
+ * BigInt modular inversion) and runs ECDH (possibly in a key agent) + HKDF.
+ * A group fan-out repeats that for every member, and again on every retry.
+ *
+ * Cached, LRU-bounded (Map insertion order, like the replay cache):
+ * - X25519 forms of peer Ed25519 public keys (also used by v2.1 and ratchet envelopes)
+ * - static-static (v2.0) shared AES keys per (our key, their key, sender/recipient)
+ *
+ * Entries hold key material, so the cache is in-memory only; the client drops
+ * a contact's entries when its key changes and clears everything on key
+ * rotation.
+ */
+
+import type { KeyObject } from 'node:crypto';
+import { ed25519PubToX25519, sharedKeyFromSecret } from './crypto.js';
+import { toSigner, type IdentityKey } from './signer.js';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+export class KeyCache {
+  /** key → derived value and the peer public key it belongs to. Insertion order == LRU order. */
+  private entries: Map<string, { value: Buffer; peerKey: string }> = new Map();
+  private derived = 0;
+
+  /** `maxEntries` 0 disables caching (every call derives). */
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  /** X25519 public key for a peer's Ed25519 public key (base64 SPKI DER). */
+  peerX25519(publicKeyBase64: string): Buffer {
+    return this.memo(`x25519\n${publicKeyBase64}`, publicKeyBase64, () => {
+      const der = Buffer.from(publicKeyBase64, 'base64');
+      // SPKI DER for Ed25519: 44 bytes, raw key at offset 12
+      return ed25519PubToX25519(Buffer.from(der.subarray(12, 44)));
+    });
+  }
+
+  /** Static-static (v2.0) AES key between our key and a peer's, for a sender/recipient pair. */
+  sharedKey(privateKey: KeyObject | IdentityKey, publicKeyBase64: string, senderId: string, recipientId: string): Buffer {
+    const own = toSigner(privateKey);
+    const ids = [senderId, recipientId].sort().join(':');
+    return this.memo(`shared\n${own.publicKey}\n${publicKeyBase64}\n${ids}`, publicKeyBase64, () =>
+      sharedKeyFromSecret(own.deriveSharedSecret(this.peerX25519(publicKeyBase64)), senderId, recipientId));
+  }
+
+  /** Drop every entry derived from a peer public key. Returns the number dropped. */
+  invalidate(publicKeyBase64: string): number {
+    let dropped = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.peerKey !== publicKeyBase64) continue;
+      this.entries.delete(key);
+      dropped++;
+    }
+    return dropped;
+  }
+
+  /** Drop all entries. */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /** Number of cached peer-derived entries. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Number of derivations run so far (cache misses, or every call when disabled). */
+  get derivations(): number {
+    return this.derived;
+  }
+
+  private memo(key: string, peerKey: string, derive: () => Buffer): Buffer {
+    const cached = this.entries.get(key);
+    if (cached) {
+      // Re-insert at the end to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return cached.value;
+    }
+    const value = derive();
+    this.derived++;
+    if (this.maxEntries === 0) return value;
+    this.entries.set(key, { value, peerKey });
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Keystore — identity keys in a passphrase-encrypted file.
+ *
+ * Holds the default identity key and any community-specific keys. Each
+ * private key is encrypted with AES-256-GCM under a key derived from the
+ * passphrase with scrypt; the public keys are stored in the clear so the
+ * keystore can be listed without the passphrase. The entry name and public
+ * key are bound into each ciphertext (AAD), so entries can't be swapped.
+ *
+ * Default location: {dataDir}/keystore.json, written with mode 0600 via
+ * write-then-rename, so an update (a key rotation, a passphrase change) either
+ * lands completely or not at all.
+ *
+ * File format:
+ *   {
+ *     "version": 1,
+ *     "kdf": { "name": "scrypt", "salt": <base64>, "N": 131072, "r": 8, "p": 1 },
+ *     "identity": <entry>,
+ *     "communities": { "<name>": <entry>, ... }
+ *   }
+ *   entry: { "publicKey": <base64 SPKI DER>, "nonce": <base64>,
+ *            "ciphertext": <base64 PKCS8 DER + GCM tag>, "updatedAt": <ISO-8601> }
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync, renameSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { randomBytes, scryptSync } from 'node:crypto';
+import { encrypt, decrypt, keyFingerprint } from './crypto.js';
+import { LocalSigner } from './signer.js';
+
+/** Default scrypt cost (N): ~128 MB and a few hundred ms per unlock. */
+export const DEFAULT_KEYSTORE_COST = 2 ** 17;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+/** Largest scrypt memory (128 * N * r bytes) a keystore file may ask for. */
+const MAX_SCRYPT_MEMORY = 1024 * 1024 * 1024;
+
+/** Private keys held in a keystore (PKCS8 DER). */
+export interface KeystoreKeys {
+  /** Default identity key */
+  privateKey: Buffer;
+  /** Community-specific keys, by community name */
+  communities?: Record<string, Buffer>;
+}
+
+/** Public view of one stored key. */
+export interface KeystoreEntry {
+  /** Community name, or undefined for the default identity key */
+  community?: string;
+  publicKey: string;
+  fingerprint: string;
+  updatedAt: string;
+}
+
+export interface KeystoreOptions {
+  /** scrypt cost N, a power of two. Default: 2^17 */
+  cost?: number;
+}
+
+interface ScryptParams {
+  name: 'scrypt';
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+}
+
+interface StoredKey {
+  publicKey: string;
+  nonce: string;
+  ciphertext: string;
+  updatedAt: string;
+}
+
+interface KeystoreFile {
+  version: 1;
+  kdf: ScryptParams;
+  identity: StoredKey;
+  communities: Record<string, StoredKey>;
+}
+
+/** An unlocked keystore. Open with Keystore.open(), or Keystore.create() a new one. */
+export class Keystore {
+  private constructor(
+    readonly path: string,
+    private file: KeystoreFile,
+    private key: Buffer,
+  ) {}
+
+  /** Write a new keystore. Throws if the file already exists. */
+  static create(path: string, passphrase: string, keys: KeystoreKeys, options: KeystoreOptions = {}): Keystore {
+    if (existsSync(path)) {
+      throw new Error(`Keystore already exists: ${path}`);
+    }
+    const kdf = newKdf(options.cost);
+    const key = deriveKey(passphrase, kdf);
+    const file = sealKeys(kdf, key, keys);
+    writeKeystoreFile(path, file);
+    return new Keystore(path, file, key);
+  }
+
+  /**
+   * Unlock an existing keystore. Throws 'Wrong passphrase or corrupted keystore'
+   * if any entry fails to decrypt.
+   */
+  static open(path: string, passphrase: string): Keystore {
+    const file = readKeystoreFile(path);
+    const keystore = new Keystore(path, file, deriveKey(passphrase, file.kdf));
+    keystore.keys(); // fail now rather than on first use
+    return keystore;
+  }
+
+  /** List the stored public keys. Needs no passphrase. */
+  static list(path: string): KeystoreEntry[] {
+    const file = readKeystoreFile(path);
+    return [
+      toEntry(file.identity),
+      ...Object.entries(file.communities).map(([community, stored]) => toEntry(stored, community)),
+    ];
+  }
+
+  /** Decrypt all stored private keys. */
+  keys(): KeystoreKeys {
+    const communities: Record<string, Buffer> = {};
+    for (const [name, stored] of Object.entries(this.file.communities)) {
+      communities[name] = this.decryptKey(stored, communityLabel(name));
+    }
+    return { privateKey: this.decryptKey(this.file.identity, 'identity'), communities };
+  }
+
+  /**
+   * Replace the default key and/or community keys (others are kept), in one
+   * atomic write. Throws for a key that isn't an Ed25519 PKCS8 DER key.
+   */
+  update(keys: Partial<KeystoreKeys>): void {
+    const file: KeystoreFile = { ...this.file, communities: { ...this.file.communities } };
+    if (keys.privateKey) file.identity = encryptKey(this.key, keys.privateKey, 'identity');
+    for (const [name, privateKey] of Object.entries(keys.communities ?? {})) {
+      file.communities[name] = encryptKey(this.key, privateKey, communityLabel(name));
+    }
+    writeKeystoreFile(this.path, file);
+    this.file = file;
+  }
+
+  /** Re-encrypt every key under a new passphrase (and a fresh salt). */
+  changePassphrase(newPassphrase: string, options: KeystoreOptions = {}): void {
+    const kdf = newKdf(options.cost ?? this.file.kdf.N);
+    const key = deriveKey(newPassphrase, kdf);
+    const file = sealKeys(kdf, key, this.keys());
+    writeKeystoreFile(this.path, file);
+    this.file = file;
+    this.key = key;
+  }
+
+  private decryptKey(stored: StoredKey, label: string): Buffer {
+    try {
+      return decrypt(
+        Buffer.from(stored.ciphertext, 'base64'),
+        Buffer.from(stored.nonce, 'base64'),
+        this.key,
+        aad(label, stored.publicKey),
+      );
+    } catch {
+      throw new Error('Wrong passphrase or corrupted keystore');
+    }
+  }
+}
+
+/**
+ * Get the keystore file path for a data directory.
+ * Returns: {dataDir}/keystore.json
+ */
+export function getKeystorePath(dataDir: string): string {
+  return join(dataDir, 'keystore.json');
+}
+
+function newKdf(cost = DEFAULT_KEYSTORE_COST): ScryptParams {
+  const kdf: ScryptParams = { name: 'scrypt', salt: randomBytes(16).toString('base64'), N: cost, r: SCRYPT_R, p: SCRYPT_P };
+  validateKdf(kdf);
+  return kdf;
+}
+
+function deriveKey(passphrase: string, kdf: ScryptParams): Buffer {
+  if (!passphrase) {
+    throw new Error('Passphrase must not be empty');
+  }
+  return scryptSync(passphrase.normalize('NFC'), Buffer.from(kdf.salt, 'base64'), 32, {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    maxmem: 2 * 128 * kdf.N * kdf.r,
+  });
+}
+
+/** Throws unless the parameters are scrypt with a power-of-two cost within the memory limit. */
+function validateKdf(kdf: ScryptParams): void {
+  const { N, r, p } = kdf;
+  const valid = kdf.name === 'scrypt' && typeof kdf.salt === 'string'
+    && Number.isSafeInteger(N) && N > 1 && (N & (N - 1)) === 0
+    && Number.isSafeInteger(r) && r > 0 && Number.isSafeInteger(p) && p > 0 && p <= 16
+    && 128 * N * r <= MAX_SCRYPT_MEMORY;
+  if (!valid) {
+    throw new Error('Unsupported keystore parameters');
+  }
+}
+
+/** Encrypt a full set of keys into a new keystore file. */
+function sealKeys(kdf: ScryptParams, key: Buffer, keys: KeystoreKeys): KeystoreFile {
+  const communities: Record<string, StoredKey> = {};
+  for (const [name, privateKey] of Object.entries(keys.communities ?? {})) {
+    communities[name] = encryptKey(key, privateKey, communityLabel(name));
+  }
+  return { version: 1, kdf, identity: encryptKey(key, keys.privateKey, 'identity'), communities };
+}
+
+function encryptKey(key: Buffer, privateKey: Buffer, label: string): StoredKey {
+  const { publicKey } = new LocalSigner(privateKey);
+  const { ciphertext, nonce } = encrypt(Buffer.from(privateKey), key, aad(label, publicKey));
+  return {
+    publicKey,
+    nonce: nonce.toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+function communityLabel(name: string): string {
+  return `community:${name}`;
+}
+
+function aad(label: string, publicKey: string): string {
+  return `a2a-keystore-v1\n${label}\n${publicKey}`;
+}
+
+function toEntry(stored: StoredKey, community?: string): KeystoreEntry {
+  return {
+    ...(community !== undefined && { community }),
+    publicKey: stored.publicKey,
+    fingerprint: keyFingerprint(stored.publicKey),
+    updatedAt: stored.updatedAt,
+  };
+}
+
+function readKeystoreFile(path: string): KeystoreFile {
+  if (!existsSync(path)) {
+    throw new Error(`Keystore not found: ${path}`);
+  }
+  let file: KeystoreFile;
+  try {
+    file = JSON.parse(readFileSync(path, 'utf-8')) as KeystoreFile;
+  } catch {
+    throw new Error('Malformed keystore');
+  }
+  const isStored = (s: unknown): s is StoredKey => !!s && typeof s === 'object'
+    && ['publicKey', 'nonce', 'ciphertext', 'updatedAt'].every((k) => typeof (s as Record<string, unknown>)[k] === 'string');
+  if (file?.version !== 1 || !file.kdf || !isStored(file.identity)
+    || !file.communities || typeof file.communities !== 'object'
+    || !Object.values(file.communities).every(isStored)) {
+    throw new Error('Malformed keystore');
+  }
+  validateKdf(file.kdf);
+  return file;
+}
+
+/** Write-then-rename so a crash mid-write never leaves a truncated keystore. */
+function writeKeystoreFile(path: string, file: KeystoreFile): void {
+  mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(file, null, 2), { mode: 0o600 });
+  renameSync(tmp, path);
+}
@@ -5,23 +5,72 @@
  * Receive flow: WireEnvelope → Ed25519 verify → AES-256-GCM decrypt → JSON parse → payload
  *
  * Key exchange: Ed25519 keys → X25519 conversion → ECDH → HKDF → AES-256 key
+ *
+ * Our own identity key is only used through a Signer/KeyAgreement (see
+ * signer.ts), so it may live outside this process.
+ *
+ * Version 2.0 uses static-static ECDH between both identity keys. Version 2.1
+ * (forward-secret) uses a fresh ephemeral X25519 sender key per message,
+ * carried in payload.ephemeralKey, so the sender's long-term key alone can no
+ * longer decrypt what it sent. Version 2.2 (ratchet) encrypts with a per-contact
+ * double-ratchet session (see ratchet.ts) whose header travels in
+ * payload.header. Version 2.3 (sender-key, group only) encrypts the payload
+ * once with a random content key; each member's envelope carries the same
+ * ciphertext plus the content key wrapped for that member with an
+ * ephemeral-static key shared by the whole fan-out. Version 2.4 adds no scheme
+ * of its own: it advertises that the plaintext of any scheme may be compressed,
+ * as named by payload.compression (see compression.ts). Version 2.5 likewise
+ * only advertises support for 'file-chunk' envelopes (see transfer.ts), and
+ * version 2.6 that the plaintext may be padded to hide its length, as named by
+ * payload.padding (see padPayload). Every envelope advertises the highest version its sender can process in
+ * payload.maxVersion.
  */
 
-import { randomUUID, createPublicKey, createPrivateKey, type KeyObject } from 'node:crypto';
+import { randomUUID, randomBytes, createHash, createPublicKey, createPrivateKey, type KeyObject } from 'node:crypto';
 import {
-  getEd25519RawKeys,
-  ed25519PubToX25519,
-  ed25519PrivToX25519,
   deriveSharedKey,
+  sharedKeyFromSecret,
+  generateX25519Keypair,
   encrypt,
   decrypt,
-  sign,
   verify,
 } from './crypto.js';
-import { signablePayload, validateEnvelope, isVersionCompatible } from './wire.js';
-import type { WireEnvelope } from './types.js';
+import { signablePayload, validateEnvelope, isVersionCompatible, parseVersion } from './wire.js';
+import { KeyCache } from './key-cache.js';
+import { toSigner, type IdentityKey } from './signer.js';
+import { compressPayload, decompressPayload, DEFAULT_MAX_DECOMPRESSED_BYTES, type CompressOptions } from './compression.js';
+import type { SessionCipher, RatchetHeader } from './ratchet.js';
+import type { WireEnvelope, EnvelopeEncryption, PayloadCompression, PayloadPadding } from './types.js';
 
-const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000; // 5 minutes
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000; // 5 minutes
+
+/** Envelope version for static-key encryption. */
+export const WIRE_VERSION = '2.0';
+/** Envelope version with per-message ephemeral sender keys. */
+export const FORWARD_SECRET_VERSION = '2.1';
+/** Envelope version encrypted with a double-ratchet session. */
+export const RATCHET_VERSION = '2.2';
+/** Group envelope version with a shared content key wrapped per member. */
+export const SENDER_KEY_VERSION = '2.3';
+/** Version from which peers accept compressed payloads (envelopes keep their scheme's version). */
+export const COMPRESSION_VERSION = '2.4';
+/** Version from which peers accept 'file-chunk' envelopes. */
+export const FILE_TRANSFER_VERSION = '2.5';
+/** Version from which peers accept padded payloads (envelopes keep their scheme's version). */
+export const PADDING_VERSION = '2.6';
+/** Highest version this SDK processes, advertised in every envelope's payload.maxVersion. */
+export const MAX_SUPPORTED_VERSION = PADDING_VERSION;
+/** Encryption scheme by minor version. */
+const SCHEMES: EnvelopeEncryption[] = ['static', 'forward-secret', 'ratchet', 'sender-key'];
+/** Smallest and largest power-of-two size for 'bucket' padding (larger plaintexts pad to multiples of the largest). */
+const MIN_PADDING_BUCKET = 256;
+const MAX_PADDING_BUCKET = 64 * 1024;
+/** HKDF salt for ephemeral-static keys (static-static keeps the deriveSharedKey default). */
+const EPHEMERAL_KEY_SALT = 'a2a-e2e-v2.1-ephemeral';
+/** HKDF salt for the per-member keys that wrap a sender-key content key. */
+const SENDER_KEY_SALT = 'a2a-e2e-v2.3-sender-key';
+/** Stand-in when the caller passes no keyCache: derives every time. */
+const UNCACHED = new KeyCache(0);
 
 /**
  * Decode a base64 SPKI DER public key to raw 32-byte Ed25519 key.
@@ -51,36 +100,182 @@ export interface BuildEnvelopeOptions {
   sender: string;
   recipient: string;
   payload: Record<string, unknown>;
-  senderPrivateKey: KeyObject;
+  senderPrivateKey: KeyObject | IdentityKey; // Ed25519 private key, or a signer holding it
   recipientPublicKeyBase64: string;
   messageId?: string; // Optional: reuse for retries
   type?: WireEnvelope['type']; // Default: 'direct'
   groupId?: string; // Required when type='group'
+  forwardSecret?: boolean; // Version 2.1 with an ephemeral sender key (recipient must support it)
+  session?: SessionCipher; // Version 2.2 via a ratchet session (takes precedence over forwardSecret)
+  senderKey?: SealedGroupPayload; // Version 2.3: wrap this pre-encrypted group payload (ignores payload/messageId/compress)
+  compress?: CompressOptions; // Compress the plaintext before encryption (recipient must support 2.4)
+  pad?: PayloadPadding; // Pad the (compressed) plaintext before encryption (recipient must support 2.6)
+  keyCache?: KeyCache; // Reuse derived keys across envelopes
+}
+
+/**
+ * A group payload encrypted once for a sender-key (2.3) fan-out. Holds the
+ * content key and the fan-out's ephemeral private key: keep it only for the
+ * duration of the send.
+ */
+export interface SealedGroupPayload {
+  messageId: string;
+  contentKey: Buffer;
+  ciphertext: string;
+  nonce: string;
+  ephemeral: { privateKey: Buffer; publicKey: Buffer };
+  compression?: PayloadCompression;
+  padding?: PayloadPadding;
+}
+
+/**
+ * Encrypt a group payload once with a random content key (see buildEnvelope's
+ * senderKey). Every member receiving it must support sealedGroupVersion().
+ */
+export function sealGroupPayload(
+  payload: Record<string, unknown>,
+  messageId: string = randomUUID(),
+  compress?: CompressOptions,
+  pad?: PayloadPadding,
+): SealedGroupPayload {
+  const contentKey = randomBytes(32);
+  const plaintext = Buffer.from(JSON.stringify(payload));
+  const { data, compression } = compress ? compressPayload(plaintext, compress) : { data: plaintext };
+  const { ciphertext, nonce } = encrypt(pad ? padPayload(data, pad) : data, contentKey, messageId);
+  return {
+    messageId,
+    contentKey,
+    ciphertext: ciphertext.toString('base64'),
+    nonce: nonce.toString('base64'),
+    ephemeral: generateX25519Keypair(),
+    ...(compression && { compression }),
+    ...(pad && { padding: pad }),
+  };
+}
+
+/** Lowest version a member must advertise to receive a sealed group payload. */
+export function sealedGroupVersion(sealed: SealedGroupPayload): string {
+  if (sealed.padding) return PADDING_VERSION;
+  return sealed.compression ? COMPRESSION_VERSION : SENDER_KEY_VERSION;
+}
+
+/**
+ * Pad a plaintext to hide its exact length: a 0x80 marker byte, then zeros up
+ * to the size the scheme picks for length + 1. 'padme' keeps only the top
+ * bits of the length (at most ~12% overhead, less for longer plaintexts);
+ * 'bucket' rounds up to a power of two between 256 bytes and 64 KB, and
+ * beyond that to a multiple of 64 KB.
+ */
+export function padPayload(plaintext: Buffer, padding: PayloadPadding): Buffer {
+  if (!isPayloadPadding(padding)) {
+    throw new Error(`Unsupported payload padding: ${String(padding)}`);
+  }
+  const padded = Buffer.alloc(paddedLength(plaintext.length + 1, padding));
+  plaintext.copy(padded);
+  padded[plaintext.length] = 0x80;
+  return padded;
+}
+
+/**
+ * Strip padPayload() padding. Throws on an unknown scheme or when the
+ * plaintext doesn't end in a 0x80 marker followed only by zeros.
+ */
+export function unpadPayload(data: Buffer, padding: unknown): Buffer {
+  if (!isPayloadPadding(padding)) {
+    throw new Error(`Unsupported payload padding: ${String(padding)}`);
+  }
+  let end = data.length - 1;
+  while (end >= 0 && data[end] === 0) end--;
+  if (end < 0 || data[end] !== 0x80) {
+    throw new Error('Invalid payload padding');
+  }
+  return data.subarray(0, end);
+}
+
+function isPayloadPadding(value: unknown): value is PayloadPadding {
+  return value === 'padme' || value === 'bucket';
+}
+
+function paddedLength(length: number, padding: PayloadPadding): number {
+  if (padding === 'bucket') {
+    if (length > MAX_PADDING_BUCKET) return Math.ceil(length / MAX_PADDING_BUCKET) * MAX_PADDING_BUCKET;
+    return Math.max(MIN_PADDING_BUCKET, 2 ** Math.ceil(Math.log2(length)));
+  }
+  // Padmé: with E = floor(log2(length)), only the top floor(log2(E)) + 1 bits may be set
+  if (length < 2) return length;
+  const e = Math.floor(Math.log2(length));
+  const step = 2 ** (e - Math.floor(Math.log2(e)) - 1);
+  return Math.ceil(length / step) * step;
 }
 
 /**
  * Build a signed, encrypted wire envelope.
  */
 export function buildEnvelope(opts: BuildEnvelopeOptions): WireEnvelope {
-  const messageId = opts.messageId || randomUUID();
+  const messageId = opts.senderKey?.messageId || opts.messageId || randomUUID();
   const timestamp = new Date().toISOString();
+  const keys = opts.keyCache ?? UNCACHED;
+  const identity = toSigner(opts.senderPrivateKey);
 
-  // Get sender's raw keys for X25519 derivation
-  const { seed: senderSeed } = getEd25519RawKeys(opts.senderPrivateKey);
-  const recipientPubRaw = decodePublicKeyRaw(opts.recipientPublicKeyBase64);
-
-  // Derive X25519 keys and shared AES key
-  const senderX25519Priv = ed25519PrivToX25519(senderSeed);
-  const recipientX25519Pub = ed25519PubToX25519(recipientPubRaw);
-  const sharedKey = deriveSharedKey(senderX25519Priv, recipientX25519Pub, opts.sender, opts.recipient);
-
-  // Encrypt payload
-  const plaintext = Buffer.from(JSON.stringify(opts.payload));
-  const { ciphertext, nonce } = encrypt(plaintext, sharedKey, messageId);
+  // Encrypt payload: pre-sealed group payload with a wrapped content key (2.3),
+  // ratchet session (2.2), or a shared AES key from ephemeral-static (2.1) or
+  // static-static (2.0) ECDH
+  let version: string;
+  let encrypted: Record<string, unknown>;
+  let compression: PayloadCompression | undefined;
+  let padding: PayloadPadding | undefined;
+  if (opts.senderKey) {
+    const { ephemeral, contentKey } = opts.senderKey;
+    const wrapKey = deriveSharedKey(ephemeral.privateKey, keys.peerX25519(opts.recipientPublicKeyBase64), opts.sender, opts.recipient, SENDER_KEY_SALT);
+    const wrapped = encrypt(contentKey, wrapKey, messageId);
+    version = SENDER_KEY_VERSION;
+    encrypted = {
+      ciphertext: opts.senderKey.ciphertext,
+      nonce: opts.senderKey.nonce,
+      ephemeralKey: ephemeral.publicKey.toString('base64'),
+      wrappedKey: wrapped.ciphertext.toString('base64'),
+      wrapNonce: wrapped.nonce.toString('base64'),
+    };
+    compression = opts.senderKey.compression;
+    padding = opts.senderKey.padding;
+  } else {
+    let plaintext: Buffer = Buffer.from(JSON.stringify(opts.payload));
+    if (opts.compress) {
+      ({ data: plaintext, compression } = compressPayload(plaintext, opts.compress));
+    }
+    if (opts.pad) {
+      plaintext = padPayload(plaintext, opts.pad);
+      padding = opts.pad;
+    }
+    let sealed: { ciphertext: Buffer; nonce: Buffer };
+    let extra: Record<string, unknown> = {};
+    if (opts.session) {
+      let header: RatchetHeader;
+      ({ header, ...sealed } = opts.session.encrypt(plaintext, messageId));
+      version = RATCHET_VERSION;
+      extra = { header };
+    } else if (opts.forwardSecret) {
+      const ephemeral = generateX25519Keypair();
+      const recipientX25519Pub = keys.peerX25519(opts.recipientPublicKeyBase64);
+      const sharedKey = deriveSharedKey(ephemeral.privateKey, recipientX25519Pub, opts.sender, opts.recipient, EPHEMERAL_KEY_SALT);
+      sealed = encrypt(plaintext, sharedKey, messageId);
+      version = FORWARD_SECRET_VERSION;
+      extra = { ephemeralKey: ephemeral.publicKey.toString('base64') };
+    } else {
+      const sharedKey = keys.sharedKey(identity, opts.recipientPublicKeyBase64, opts.sender, opts.recipient);
+      sealed = encrypt(plaintext, sharedKey, messageId);
+      version = WIRE_VERSION;
+    }
+    encrypted = {
+      ciphertext: sealed.ciphertext.toString('base64'),
+      nonce: sealed.nonce.toString('base64'),
+      ...extra,
+    };
+  }
 
   // Build envelope (signature placeholder)
   const envelope: WireEnvelope = {
-    version: '2.0',
+    version,
     type: opts.type || 'direct',
     messageId,
     sender: opts.sender,
@@ -88,15 +283,17 @@ export function buildEnvelope(opts: BuildEnvelopeOptions): WireEnvelope {
     timestamp,
     ...(opts.groupId ? { groupId: opts.groupId } : {}),
     payload: {
-      ciphertext: ciphertext.toString('base64'),
-      nonce: nonce.toString('base64'),
+      ...encrypted,
+      ...(compression && { compression }),
+      ...(padding && { padding }),
+      maxVersion: MAX_SUPPORTED_VERSION,
     },
     signature: '',
   };
 
   // Sign the envelope (everything except `signature` field)
   const signable = signablePayload(envelope);
-  const sig = sign(Buffer.from(signable), opts.senderPrivateKey);
+  const sig = identity.sign(Buffer.from(signable));
   envelope.signature = sig.toString('base64');
 
   return envelope;
@@ -104,9 +301,12 @@ export function buildEnvelope(opts: BuildEnvelopeOptions): WireEnvelope {
 
 export interface ProcessEnvelopeOptions {
   envelope: WireEnvelope;
-  recipientPrivateKey: KeyObject;
+  recipientPrivateKey: KeyObject | IdentityKey; // Ed25519 private key, or a signer holding it
   senderPublicKeyBase64: string;
   now?: number;
+  session?: SessionCipher; // Required to decrypt version 2.2 (ratchet) envelopes
+  keyCache?: KeyCache; // Reuse derived keys across envelopes
+  maxDecompressedBytes?: number; // Limit for compressed payloads (default: 4 MB)
 }
 
 export interface ProcessedMessage {
@@ -115,6 +315,7 @@ export interface ProcessedMessage {
   timestamp: string;
   payload: Record<string, unknown>;
   verified: boolean;
+  encryption: EnvelopeEncryption;
 }
 
 /**
@@ -123,9 +324,16 @@ export interface ProcessedMessage {
  * Throws on invalid envelope, incompatible version, clock skew, bad signature, or decryption failure.
  */
 export function processEnvelope(opts: ProcessEnvelopeOptions): ProcessedMessage {
-  const { envelope, recipientPrivateKey, senderPublicKeyBase64 } = opts;
-  const now = opts.now ?? Date.now();
+  verifyEnvelope(opts.envelope, opts.senderPublicKeyBase64, opts.now);
+  return decryptEnvelope(opts);
+}
 
+/**
+ * Validate structure, version, clock skew and Ed25519 signature of an envelope.
+ *
+ * Throws on invalid envelope, incompatible version, clock skew, or bad signature.
+ */
+export function verifyEnvelope(envelope: WireEnvelope, senderPublicKeyBase64: string, now = Date.now()): void {
   // Validate structure
   if (!validateEnvelope(envelope)) {
     throw new Error('Invalid envelope structure');
@@ -151,17 +359,85 @@ export function processEnvelope(opts: ProcessEnvelopeOptions): ProcessedMessage
   if (!verified) {
     throw new Error('Invalid signature');
   }
+}
+
+/**
+ * Encryption scheme of an envelope version: 2.0 static, 2.1 forward-secret,
+ * 2.2 ratchet, 2.3 sender-key. Undefined for versions this SDK can't decrypt.
+ */
+export function envelopeScheme(version: string): EnvelopeEncryption | undefined {
+  const parsed = parseVersion(version);
+  return parsed?.major === 2 ? SCHEMES[parsed.minor] : undefined;
+}
 
-  // Decrypt
-  const { seed: recipientSeed } = getEd25519RawKeys(recipientPrivateKey);
-  const senderPubRaw = decodePublicKeyRaw(senderPublicKeyBase64);
-  const recipientX25519Priv = ed25519PrivToX25519(recipientSeed);
-  const senderX25519Pub = ed25519PubToX25519(senderPubRaw);
-  const sharedKey = deriveSharedKey(recipientX25519Priv, senderX25519Pub, envelope.sender, envelope.recipient);
+/** Whether an envelope is encrypted with a ratchet session (version 2.2). */
+export function isSessionEnvelope(envelope: WireEnvelope): boolean {
+  return envelopeScheme(envelope.version) === 'ratchet';
+}
 
+/**
+ * Decrypt an envelope already checked with verifyEnvelope().
+ *
+ * Throws on an unsupported version, a missing session or key, decryption
+ * failure, invalid padding, or a compressed payload that is invalid or
+ * inflates past the limit.
+ */
+export function decryptEnvelope(opts: ProcessEnvelopeOptions): ProcessedMessage {
+  const { envelope, senderPublicKeyBase64 } = opts;
+  const keys = opts.keyCache ?? UNCACHED;
+  const identity = toSigner(opts.recipientPrivateKey);
   const ciphertext = Buffer.from(envelope.payload.ciphertext as string, 'base64');
   const nonce = Buffer.from(envelope.payload.nonce as string, 'base64');
-  const plaintext = decrypt(ciphertext, nonce, sharedKey, envelope.messageId);
+  const ephemeralKey = typeof envelope.payload.ephemeralKey === 'string'
+    ? Buffer.from(envelope.payload.ephemeralKey, 'base64')
+    : null;
+
+  const encryption = envelopeScheme(envelope.version);
+  let plaintext: Buffer;
+  switch (encryption) {
+    case 'static': {
+      const sharedKey = keys.sharedKey(identity, senderPublicKeyBase64, envelope.sender, envelope.recipient);
+      plaintext = decrypt(ciphertext, nonce, sharedKey, envelope.messageId);
+      break;
+    }
+    case 'forward-secret': {
+      if (ephemeralKey?.length !== 32) {
+        throw new Error('Missing or invalid ephemeral key');
+      }
+      const sharedKey = sharedKeyFromSecret(identity.deriveSharedSecret(ephemeralKey), envelope.sender, envelope.recipient, EPHEMERAL_KEY_SALT);
+      plaintext = decrypt(ciphertext, nonce, sharedKey, envelope.messageId);
+      break;
+    }
+    case 'ratchet': {
+      if (!opts.session) {
+        throw new Error('No ratchet session for this sender');
+      }
+      plaintext = opts.session.decrypt(envelope.payload.header, ciphertext, nonce, envelope.messageId);
+      break;
+    }
+    case 'sender-key': {
+      if (envelope.type !== 'group') {
+        throw new Error('Sender-key encryption is only valid for group envelopes');
+      }
+      const { wrappedKey, wrapNonce } = envelope.payload;
+      if (ephemeralKey?.length !== 32 || typeof wrappedKey !== 'string' || typeof wrapNonce !== 'string') {
+        throw new Error('Missing or invalid wrapped content key');
+      }
+      const wrapKey = sharedKeyFromSecret(identity.deriveSharedSecret(ephemeralKey), envelope.sender, envelope.recipient, SENDER_KEY_SALT);
+      const contentKey = decrypt(Buffer.from(wrappedKey, 'base64'), Buffer.from(wrapNonce, 'base64'), wrapKey, envelope.messageId);
+      plaintext = decrypt(ciphertext, nonce, contentKey, envelope.messageId);
+      break;
+    }
+    default:
+      throw new Error(`Unsupported envelope version: ${envelope.version}`);
+  }
+
+  if (envelope.payload.padding !== undefined) {
+    plaintext = unpadPayload(plaintext, envelope.payload.padding);
+  }
+  if (envelope.payload.compression !== undefined) {
+    plaintext = decompressPayload(plaintext, envelope.payload.compression, opts.maxDecompressedBytes ?? DEFAULT_MAX_DECOMPRESSED_BYTES);
+  }
 
   const payload = JSON.parse(plaintext.toString()) as Record<string, unknown>;
 
@@ -171,11 +447,25 @@ export function processEnvelope(opts: ProcessEnvelopeOptions): ProcessedMessage
     timestamp: envelope.timestamp,
     payload,
     verified: true,
+    encryption,
   };
 }
 
+/**
+ * SHA-256 digest (base64) of a payload's JSON serialization.
+ *
+ * Receipts carry the digest of the decrypted plaintext so the sender can
+ * check the recipient saw exactly what was sent.
+ */
+export function payloadDigest(payload: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(payload)).digest('base64');
+}
+
 /**
  * Default delivery function — HTTP POST to recipient's endpoint.
+ *
+ * 409 counts as delivered: the recipient already processed this messageId
+ * (e.g. an earlier attempt arrived but its response was lost).
  */
 export async function httpDeliver(endpoint: string, envelope: WireEnvelope): Promise<boolean> {
   try {
@@ -184,7 +474,7 @@ export async function httpDeliver(endpoint: string, envelope: WireEnvelope): Pro
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(envelope),
     });
-    return res.ok;
+    return res.ok || res.status === 409;
   } catch {
     return false;
   }
@@ -0,0 +1,431 @@
+/**
+ * Double-ratchet sessions — per-contact forward secrecy and post-compromise
+ * security for v2.2 envelopes.
+ *
+ * Bootstrap (X3DH-style, no prekey server): the initiator picks an ephemeral
+ * X25519 key EK and derives the session secret from DH(IK_a, IK_b) and
+ * DH(EK, IK_b), where IK are the X25519 forms of both Ed25519 identity keys.
+ * EK's public half is the session id and is sent with every message until the
+ * peer replies, so the responder can set up its side from any of them. The
+ * responder's identity key serves as its first ratchet key.
+ *
+ * After that it is the Signal Double Ratchet: a DH ratchet step whenever the
+ * peer's ratchet key changes, and a symmetric chain step per message. Message
+ * keys for skipped messages are kept (bounded) so out-of-order delivery and
+ * lost messages still decrypt. Until the responder replies, messages are only
+ * as strong as the identity keys (there is no one-time prekey).
+ *
+ * When both sides start a session at once, each ends up with both; both agree
+ * to send on the one started by the lexicographically smaller username.
+ *
+ * Persisted to {dataDir}/sessions.json (mode 0600) after every change — a
+ * stale ratchet state after a crash would desynchronize the session. Loaded
+ * lazily on first use. Also holds the per-contact ratchet preference.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync, renameSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { createHmac, hkdfSync } from 'node:crypto';
+import { x25519, generateX25519Keypair, encrypt, decrypt } from './crypto.js';
+import type { KeyAgreement } from './signer.js';
+
+/** Max message keys derived ahead in one chain for skipped messages. */
+const MAX_SKIP = 1000;
+/** Max stored skipped-message keys per session (oldest dropped first). */
+const MAX_SKIPPED_KEYS = 2000;
+/** Max sessions kept per contact (oldest inactive dropped first). */
+const MAX_SESSIONS_PER_PEER = 3;
+
+const X3DH_SALT = 'a2a-x3dh-v2.2';
+const ROOT_KDF_INFO = 'a2a-ratchet-root';
+
+/** Ratchet header carried in a v2.2 envelope's payload.header (signed with the envelope). */
+export interface RatchetHeader {
+  /** Session id: the initiator's base64 ephemeral X25519 public key */
+  sid: string;
+  /** Sender's current ratchet public key (base64, 32 bytes) */
+  dh: string;
+  /** Length of the sender's previous sending chain */
+  pn: number;
+  /** Message number in the current sending chain */
+  n: number;
+  /** Set by the initiator until the peer replies: `sid` doubles as the X3DH ephemeral key */
+  init?: boolean;
+}
+
+/** Encrypts and decrypts one contact's v2.2 payloads (see SessionStore.cipher). */
+export interface SessionCipher {
+  encrypt(plaintext: Buffer, messageId: string): { ciphertext: Buffer; nonce: Buffer; header: RatchetHeader };
+  /** Throws on an unknown session, a malformed header or a failed decryption; state is unchanged then. */
+  decrypt(header: unknown, ciphertext: Buffer, nonce: Buffer, messageId: string): Buffer;
+}
+
+/** The two parties of a session. */
+export interface SessionParties {
+  self: string;
+  peer: string;
+  /** Key agreement with our identity key (its X25519 form) */
+  identity: KeyAgreement;
+  /** The peer's X25519 identity public key (derived from its Ed25519 key) */
+  peerIdentityKey: Buffer;
+}
+
+/** One ratchet session; keys are base64. */
+interface RatchetState {
+  initiator: string;
+  rootKey: string;
+  dhPriv: string;
+  dhPub: string;
+  remoteDh: string | null;
+  sendChain: string | null;
+  recvChain: string | null;
+  sendN: number;
+  recvN: number;
+  prevN: number;
+  /** `${dh}:${n}` → message key, in insertion order */
+  skipped: Record<string, string>;
+  /** A message from the peer has been decrypted on this session */
+  confirmed: boolean;
+}
+
+interface PeerSessions {
+  /** Per-contact preference; undefined follows the client default */
+  enabled?: boolean;
+  /** Peer identity key the sessions belong to; a new key drops them */
+  peerKey?: string;
+  /** Session id used for sending */
+  active?: string;
+  sessions: Record<string, RatchetState>;
+}
+
+interface SessionFile {
+  peers: Record<string, PeerSessions>;
+}
+
+export class SessionStore {
+  private peers: Map<string, PeerSessions> = new Map();
+  private loaded = false;
+
+  constructor(private filePath: string | null) {}
+
+  /** Per-contact ratchet preference (undefined when following the default). */
+  isEnabled(peer: string): boolean | undefined {
+    this.ensureLoaded();
+    return this.peers.get(peer)?.enabled;
+  }
+
+  /** Set or clear (undefined) the per-contact ratchet preference and persist. */
+  setEnabled(peer: string, enabled: boolean | undefined): void {
+    const entry = this.entry(peer);
+    if (enabled === undefined) delete entry.enabled;
+    else entry.enabled = enabled;
+    this.save();
+  }
+
+  /** Whether a session with this contact exists. */
+  hasSession(peer: string): boolean {
+    this.ensureLoaded();
+    return Object.keys(this.peers.get(peer)?.sessions ?? {}).length > 0;
+  }
+
+  /** Drop all sessions with a contact (the preference is kept). Returns false if there were none. */
+  reset(peer: string): boolean {
+    if (!this.hasSession(peer)) return false;
+    const entry = this.entry(peer);
+    entry.sessions = {};
+    delete entry.active;
+    this.save();
+    return true;
+  }
+
+  /**
+   * Start a new session with every contact on its next send, after our
+   * identity key changed: peers drop sessions made for our old key. The old
+   * sessions stay to decrypt messages already in flight.
+   */
+  restartAll(): void {
+    this.ensureLoaded();
+    for (const entry of this.peers.values()) delete entry.active;
+    this.save();
+  }
+
+  /** Bind the store to one contact for buildEnvelope/processEnvelope. */
+  cipher(parties: SessionParties): SessionCipher {
+    return {
+      encrypt: (plaintext, messageId) => this.encrypt(parties, plaintext, messageId),
+      decrypt: (header, ciphertext, nonce, messageId) => this.decrypt(parties, header, ciphertext, nonce, messageId),
+    };
+  }
+
+  /** Encrypt on the active session, starting one if there is none. */
+  encrypt(parties: SessionParties, plaintext: Buffer, messageId: string): { ciphertext: Buffer; nonce: Buffer; header: RatchetHeader } {
+    const entry = this.entryFor(parties);
+    let sid = entry.active;
+    let state = sid ? entry.sessions[sid] : undefined;
+    if (!sid || !state?.sendChain) {
+      ({ sid, state } = initiate(parties));
+      entry.sessions[sid] = state;
+      entry.active = sid;
+      prune(entry);
+    }
+
+    const [chain, messageKey] = kdfChain(b64(state.sendChain!));
+    const header: RatchetHeader = { sid, dh: state.dhPub, pn: state.prevN, n: state.sendN };
+    if (!state.confirmed && state.initiator === parties.self) header.init = true;
+    state.sendChain = chain.toString('base64');
+    state.sendN++;
+    this.save();
+
+    return { ...encrypt(plaintext, messageKey, messageId), header };
+  }
+
+  /** Decrypt with the session named in the header, setting it up from an init header. */
+  decrypt(parties: SessionParties, header: unknown, ciphertext: Buffer, nonce: Buffer, messageId: string): Buffer {
+    if (!isRatchetHeader(header)) {
+      throw new Error('Invalid ratchet header');
+    }
+    const entry = this.entryFor(parties);
+    const existing = entry.sessions[header.sid];
+    if (!existing && !header.init) {
+      throw new Error('Unknown ratchet session');
+    }
+
+    // Work on a copy so a failed decryption leaves the session untouched
+    const state: RatchetState = existing
+      ? { ...existing, skipped: { ...existing.skipped } }
+      : respond(parties, b64(header.sid));
+    const plaintext = ratchetDecrypt(state, header, ciphertext, nonce, messageId, parties.identity);
+    state.confirmed = true;
+
+    entry.sessions[header.sid] = state;
+    if (!existing) {
+      // A new session from the peer replaces ours, unless ours is still
+      // unanswered and wins the tie-break (smaller initiator username)
+      const active = entry.active ? entry.sessions[entry.active] : undefined;
+      if (!active || active.confirmed || parties.peer < parties.self) entry.active = header.sid;
+      prune(entry);
+    }
+    this.save();
+    return plaintext;
+  }
+
+  /** Entry for a contact, dropping sessions made for a previous identity key. */
+  private entryFor(parties: SessionParties): PeerSessions {
+    const entry = this.entry(parties.peer);
+    const peerKey = parties.peerIdentityKey.toString('base64');
+    if (entry.peerKey !== peerKey) {
+      entry.peerKey = peerKey;
+      entry.sessions = {};
+      delete entry.active;
+    }
+    return entry;
+  }
+
+  private entry(peer: string): PeerSessions {
+    this.ensureLoaded();
+    let entry = this.peers.get(peer);
+    if (!entry) {
+      entry = { sessions: {} };
+      this.peers.set(peer, entry);
+    }
+    return entry;
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    if (!this.filePath) return;
+    try {
+      if (!existsSync(this.filePath)) return;
+      const data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as SessionFile;
+      if (!data || typeof data.peers !== 'object') return;
+      for (const [peer, entry] of Object.entries(data.peers)) {
+        if (entry && typeof entry.sessions === 'object') this.peers.set(peer, entry);
+      }
+    } catch {
+      // Corrupt file — start empty; sessions are re-established on next use
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+    const data: SessionFile = { peers: Object.fromEntries(this.peers) };
+    // Write-then-rename so a crash mid-write never leaves a truncated file
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.tmp`;
+    writeFileSync(tmp, JSON.stringify(data), { mode: 0o600 });
+    renameSync(tmp, this.filePath);
+  }
+}
+
+/**
+ * Get the session store file path for a data directory.
+ * Returns: {dataDir}/sessions.json
+ */
+export function getSessionStorePath(dataDir: string): string {
+  return join(dataDir, 'sessions.json');
+}
+
+/** Start a session as initiator: X3DH secret, then the first sending chain. */
+function initiate(parties: SessionParties): { sid: string; state: RatchetState } {
+  const ephemeral = generateX25519Keypair();
+  const secret = x3dhSecret(
+    parties,
+    parties.identity.deriveSharedSecret(parties.peerIdentityKey),
+    x25519(ephemeral.privateKey, parties.peerIdentityKey),
+  );
+  const ratchetKey = generateX25519Keypair();
+  const [rootKey, sendChain] = kdfRoot(secret, x25519(ratchetKey.privateKey, parties.peerIdentityKey));
+  return {
+    sid: ephemeral.publicKey.toString('base64'),
+    state: {
+      initiator: parties.self,
+      rootKey: rootKey.toString('base64'),
+      dhPriv: ratchetKey.privateKey.toString('base64'),
+      dhPub: ratchetKey.publicKey.toString('base64'),
+      remoteDh: parties.peerIdentityKey.toString('base64'),
+      sendChain: sendChain.toString('base64'),
+      recvChain: null,
+      sendN: 0,
+      recvN: 0,
+      prevN: 0,
+      skipped: {},
+      confirmed: false,
+    },
+  };
+}
+
+/**
+ * Set up the responder side from the initiator's ephemeral key. The identity
+ * key is the first ratchet key (an empty dhPriv); the DH ratchet step on the
+ * first message replaces it before the state is ever stored.
+ */
+function respond(parties: SessionParties, ephemeralKey: Buffer): RatchetState {
+  const secret = x3dhSecret(
+    parties,
+    parties.identity.deriveSharedSecret(parties.peerIdentityKey),
+    parties.identity.deriveSharedSecret(ephemeralKey),
+  );
+  return {
+    initiator: parties.peer,
+    rootKey: secret.toString('base64'),
+    dhPriv: '',
+    dhPub: '',
+    remoteDh: null,
+    sendChain: null,
+    recvChain: null,
+    sendN: 0,
+    recvN: 0,
+    prevN: 0,
+    skipped: {},
+    confirmed: false,
+  };
+}
+
+function x3dhSecret(parties: SessionParties, identityDh: Buffer, ephemeralDh: Buffer): Buffer {
+  const info = [parties.self, parties.peer].sort().join(':');
+  return Buffer.from(hkdfSync('sha256', Buffer.concat([identityDh, ephemeralDh]), X3DH_SALT, info, 32));
+}
+
+function ratchetDecrypt(state: RatchetState, header: RatchetHeader, ciphertext: Buffer, nonce: Buffer, messageId: string, identity: KeyAgreement): Buffer {
+  const skippedId = `${header.dh}:${header.n}`;
+  const skippedKey = state.skipped[skippedId];
+  if (skippedKey) {
+    delete state.skipped[skippedId];
+    return decrypt(ciphertext, nonce, b64(skippedKey), messageId);
+  }
+
+  if (header.dh !== state.remoteDh) {
+    skipMessages(state, header.pn);
+    dhRatchet(state, header.dh, identity);
+  }
+  skipMessages(state, header.n);
+  if (!state.recvChain || header.n < state.recvN) {
+    throw new Error('Ratchet message key not available');
+  }
+
+  const [chain, messageKey] = kdfChain(b64(state.recvChain));
+  state.recvChain = chain.toString('base64');
+  state.recvN++;
+  return decrypt(ciphertext, nonce, messageKey, messageId);
+}
+
+/** Store message keys for the current receiving chain up to (not including) `until`. */
+function skipMessages(state: RatchetState, until: number): void {
+  if (!state.recvChain) return;
+  if (until - state.recvN > MAX_SKIP) {
+    throw new Error('Too many skipped ratchet messages');
+  }
+  let chain = b64(state.recvChain);
+  while (state.recvN < until) {
+    const [next, messageKey] = kdfChain(chain);
+    state.skipped[`${state.remoteDh}:${state.recvN}`] = messageKey.toString('base64');
+    chain = next;
+    state.recvN++;
+  }
+  state.recvChain = chain.toString('base64');
+
+  const ids = Object.keys(state.skipped);
+  for (const id of ids.slice(0, Math.max(0, ids.length - MAX_SKIPPED_KEYS))) {
+    delete state.skipped[id];
+  }
+}
+
+/**
+ * DH ratchet step on a new peer ratchet key: new receiving chain, new own key,
+ * new sending chain. `identity` stands in for a responder's first ratchet key.
+ */
+function dhRatchet(state: RatchetState, remoteDh: string, identity: KeyAgreement): void {
+  const remote = b64(remoteDh);
+  state.prevN = state.sendN;
+  state.sendN = 0;
+  state.recvN = 0;
+  state.remoteDh = remoteDh;
+
+  const ownDh = state.dhPriv ? x25519(b64(state.dhPriv), remote) : identity.deriveSharedSecret(remote);
+  const [rootKey, recvChain] = kdfRoot(b64(state.rootKey), ownDh);
+  const ratchetKey = generateX25519Keypair();
+  const [nextRoot, sendChain] = kdfRoot(rootKey, x25519(ratchetKey.privateKey, remote));
+
+  state.rootKey = nextRoot.toString('base64');
+  state.recvChain = recvChain.toString('base64');
+  state.sendChain = sendChain.toString('base64');
+  state.dhPriv = ratchetKey.privateKey.toString('base64');
+  state.dhPub = ratchetKey.publicKey.toString('base64');
+}
+
+/** Root KDF: (root key, DH output) → (new root key, chain key). */
+function kdfRoot(rootKey: Buffer, dhOut: Buffer): [Buffer, Buffer] {
+  const out = Buffer.from(hkdfSync('sha256', dhOut, rootKey, ROOT_KDF_INFO, 64));
+  return [out.subarray(0, 32), out.subarray(32)];
+}
+
+/** Chain KDF: chain key → (next chain key, message key). */
+function kdfChain(chainKey: Buffer): [Buffer, Buffer] {
+  return [
+    createHmac('sha256', chainKey).update(Buffer.from([2])).digest(),
+    createHmac('sha256', chainKey).update(Buffer.from([1])).digest(),
+  ];
+}
+
+/** Drop the oldest inactive sessions beyond MAX_SESSIONS_PER_PEER. */
+function prune(entry: PeerSessions): void {
+  const ids = Object.keys(entry.sessions).filter((id) => id !== entry.active);
+  for (const id of ids.slice(0, Math.max(0, ids.length + 1 - MAX_SESSIONS_PER_PEER))) {
+    delete entry.sessions[id];
+  }
+}
+
+function isRatchetHeader(header: unknown): header is RatchetHeader {
+  if (!header || typeof header !== 'object') return false;
+  const h = header as Record<string, unknown>;
+  return typeof h.sid === 'string' && b64(h.sid).length === 32
+    && typeof h.dh === 'string' && b64(h.dh).length === 32
+    && Number.isSafeInteger(h.pn) && (h.pn as number) >= 0
+    && Number.isSafeInteger(h.n) && (h.n as number) >= 0
+    && (h.init === undefined || typeof h.init === 'boolean');
+}
+
+function b64(value: string): Buffer {
+  return Buffer.from(value, 'base64');
+}
@@ -0,0 +1,153 @@
+/**
+ * Receipt store — the payload digests delivery receipts are built and checked
+ * against, kept across restarts.
+ *
+ * Two bounded maps (oldest evicted first):
+ * - expected: messages we sent that await a receipt (messageId → recipient +
+ *   digest), so a receipt arriving after a restart still acknowledges them.
+ * - received: messages we acknowledged ((sender, messageId) → digest), so a
+ *   duplicate whose receipt was lost gets it again, even when the duplicate
+ *   can't be decrypted a second time (a ratchet envelope).
+ *
+ * Persisted to {dataDir}/receipts.json (write-then-rename). Writes are
+ * debounced by `saveDelay` because both maps change on every message; call
+ * flush() on shutdown. Loaded lazily on first use.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync, renameSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+
+/** A sent message awaiting its receipt. */
+export interface ExpectedReceipt {
+  recipient: string;
+  digest: string;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+/** Persisted form: entries in insertion order. */
+interface ReceiptFile {
+  expected: Array<[string, ExpectedReceipt]>;
+  received: Array<[string, string]>;
+}
+
+export class ReceiptStore {
+  private expected: Map<string, ExpectedReceipt> = new Map();
+  private received: Map<string, string> = new Map();
+  private loaded = false;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private filePath: string | null,
+    private saveDelay = 1000,
+    private maxEntries = DEFAULT_MAX_ENTRIES,
+  ) {}
+
+  /** Remember a sent message so its receipt can be matched. */
+  expect(messageId: string, receipt: ExpectedReceipt): void {
+    this.ensureLoaded();
+    this.expected.delete(messageId);
+    this.expected.set(messageId, receipt);
+    evict(this.expected, this.maxEntries);
+    this.scheduleSave();
+  }
+
+  getExpected(messageId: string): ExpectedReceipt | undefined {
+    this.ensureLoaded();
+    return this.expected.get(messageId);
+  }
+
+  /** Stop expecting a receipt (acknowledged or cancelled). */
+  settle(messageId: string): void {
+    this.ensureLoaded();
+    if (this.expected.delete(messageId)) this.scheduleSave();
+  }
+
+  /** Remember the digest we acknowledged a received message with. */
+  recordReceived(sender: string, messageId: string, digest: string): void {
+    this.ensureLoaded();
+    const key = receivedKey(sender, messageId);
+    this.received.delete(key);
+    this.received.set(key, digest);
+    evict(this.received, this.maxEntries);
+    this.scheduleSave();
+  }
+
+  getReceived(sender: string, messageId: string): string | undefined {
+    this.ensureLoaded();
+    return this.received.get(receivedKey(sender, messageId));
+  }
+
+  /** Write pending changes now. */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      this.save();
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.filePath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, this.saveDelay);
+    this.saveTimer.unref();
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    if (!this.filePath) return;
+    try {
+      if (!existsSync(this.filePath)) return;
+      const data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as ReceiptFile;
+      for (const [messageId, receipt] of Array.isArray(data?.expected) ? data.expected : []) {
+        if (typeof receipt?.recipient === 'string' && typeof receipt.digest === 'string') {
+          this.expected.set(messageId, receipt);
+        }
+      }
+      for (const [key, digest] of Array.isArray(data?.received) ? data.received : []) {
+        if (typeof digest === 'string') this.received.set(key, digest);
+      }
+    } catch {
+      // Corrupt file — start empty, next save rewrites it
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+    const data: ReceiptFile = { expected: [...this.expected], received: [...this.received] };
+    try {
+      // Write-then-rename so a crash mid-write never leaves a truncated file
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      const tmp = `${this.filePath}.tmp`;
+      writeFileSync(tmp, JSON.stringify(data), { mode: 0o600 });
+      renameSync(tmp, this.filePath);
+    } catch {
+      // Best effort, like receipts themselves — the maps stay valid in memory
+    }
+  }
+}
+
+/**
+ * Get the receipt store file path for a data directory.
+ * Returns: {dataDir}/receipts.json
+ */
+export function getReceiptStorePath(dataDir: string): string {
+  return join(dataDir, 'receipts.json');
+}
+
+function receivedKey(sender: string, messageId: string): string {
+  return `${sender}\n${messageId}`;
+}
+
+/** Drop the oldest entries beyond the bound. */
+function evict<V>(map: Map<string, V>, max: number): void {
+  while (map.size > max) {
+    const first = map.keys().next().value;
+    if (first === undefined) break;
+    map.delete(first);
+  }
+}
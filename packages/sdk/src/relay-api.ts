@@ -7,7 +7,8 @@
  *   Signing string: <METHOD> <PATH>\n<TIMESTAMP>\n<BODY_SHA256>
  */
 
-import { createHash, sign as cryptoSign, type KeyObject } from 'node:crypto';
+import { createHash, type KeyObject } from 'node:crypto';
+import { toSigner, type Signer } from './signer.js';
 
 export interface RelayContact {
   agent: string;
@@ -133,14 +134,24 @@ function hashBody(body: string): string {
 }
 
 /**
- * HTTP-based relay API client.
+ * HTTP-based relay API client. Requests are signed with the agent's Ed25519
+ * key, given as a KeyObject or a Signer.
  */
 export class HttpRelayAPI implements IRelayAPI {
+  private signer: Signer;
+
   constructor(
     private relayUrl: string,
     private username: string,
-    private privateKey: KeyObject,
-  ) {}
+    privateKey: KeyObject | Signer,
+  ) {
+    this.signer = toSigner(privateKey);
+  }
+
+  /** Sign later requests with another key (after a key rotation). */
+  setSigner(privateKey: KeyObject | Signer): void {
+    this.signer = toSigner(privateKey);
+  }
 
   private async request<T = unknown>(
     method: string,
@@ -153,7 +164,7 @@ export class HttpRelayAPI implements IRelayAPI {
       const timestamp = new Date().toISOString();
       const bodyHash = hashBody(bodyStr);
       const signingString = buildSigningString(method, path, timestamp, bodyHash);
-      const sig = cryptoSign(null, Buffer.from(signingString), this.privateKey);
+      const sig = this.signer.sign(Buffer.from(signingString));
       const authHeader = `Signature ${this.username}:${Buffer.from(sig).toString('base64')}`;
 
       const url = `${this.relayUrl}${path}`;
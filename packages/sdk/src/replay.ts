@@ -0,0 +1,191 @@
+/**
+ * Replay cache — remembers (sender, messageId) pairs of processed envelopes.
+ *
+ * Shared by the direct and group receive paths. An envelope is accepted while
+ * its timestamp is within MAX_CLOCK_SKEW_MS of the local clock, so a captured
+ * envelope stays replayable for up to twice the skew; the window is clamped to
+ * at least that. The default (1 hour) also covers the retry queue's message
+ * lifetime, because retried envelopes are re-signed with a fresh timestamp but
+ * keep their messageId.
+ *
+ * Persisted so a daemon restart does not reopen the window: each record is
+ * appended as one line to {dataDir}/replay-cache.json.journal, and the journal
+ * is folded into the {dataDir}/replay-cache.json snapshot on load, on
+ * compact(), and once it outgrows the snapshot. Recording stays O(1) on
+ * the receive path (a file transfer records every chunk). Loaded lazily on
+ * first use. A failed write doesn't fail the receive: the cache keeps working
+ * in memory and emits 'persist-error' (once, until a write succeeds again);
+ * the next successful write is a full snapshot, so nothing recorded meanwhile
+ * is lost from disk.
+ */
+
+import { EventEmitter } from 'node:events';
+import { readFileSync, writeFileSync, appendFileSync, mkdirSync, existsSync, renameSync, rmSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { MAX_CLOCK_SKEW_MS } from './messaging.js';
+
+const DEFAULT_REPLAY_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+const DEFAULT_MAX_ENTRIES = 10_000;
+/** Journal lines always allowed before compaction, however few entries are live. */
+const MIN_JOURNAL_LINES = 1000;
+
+/** Persisted form: [sender, messageId, expiresAt] tuples in insertion order. */
+interface ReplayCacheFile {
+  entries: Array<[string, string, number]>;
+}
+
+export class ReplayCache extends EventEmitter {
+  /** key → expiresAt (ms). Insertion order == expiry order (fixed window). */
+  private entries: Map<string, number> = new Map();
+  private loaded = false;
+  private windowMs: number;
+  /** Lines appended to the journal since the last compaction. */
+  private journalLines = 0;
+  /** Entries in the snapshot at the last compaction. */
+  private snapshotSize = 0;
+  /** Whether the last write failed ('persist-error' already emitted). */
+  private persistFailed = false;
+
+  constructor(
+    private filePath: string | null,
+    windowMs = DEFAULT_REPLAY_WINDOW_MS,
+    private maxEntries = DEFAULT_MAX_ENTRIES,
+  ) {
+    super();
+    this.windowMs = Math.max(windowMs, 2 * MAX_CLOCK_SKEW_MS);
+  }
+
+  /** Whether (sender, messageId) has already been processed within the window. */
+  has(sender: string, messageId: string, now = Date.now()): boolean {
+    this.ensureLoaded();
+    const expiresAt = this.entries.get(cacheKey(sender, messageId));
+    return expiresAt !== undefined && expiresAt > now;
+  }
+
+  /** Record (sender, messageId) as processed and persist. */
+  record(sender: string, messageId: string, now = Date.now()): void {
+    this.ensureLoaded();
+    const key = cacheKey(sender, messageId);
+    const expiresAt = now + this.windowMs;
+    this.entries.delete(key); // Re-insert at the end to keep expiry order
+    this.entries.set(key, expiresAt);
+    this.prune(now);
+    if (!this.filePath) return;
+    // After a failed write the journal may be missing entries: rewrite it all
+    if (this.persistFailed || this.journalLines >= Math.max(this.snapshotSize, MIN_JOURNAL_LINES)) {
+      this.compact();
+      return;
+    }
+    const filePath = this.filePath;
+    this.persist(() => {
+      mkdirSync(dirname(filePath), { recursive: true });
+      appendFileSync(journalPath(filePath), JSON.stringify([sender, messageId, expiresAt]) + '\n');
+      this.journalLines++;
+    });
+  }
+
+  /** Rewrite the snapshot from the live entries and empty the journal. */
+  compact(): void {
+    if (!this.filePath || !this.loaded) return;
+    const data: ReplayCacheFile = { entries: [] };
+    for (const [key, expiresAt] of this.entries) {
+      const [sender, messageId] = splitKey(key);
+      data.entries.push([sender, messageId, expiresAt]);
+    }
+    // Write-then-rename so a crash mid-write never leaves a truncated file;
+    // a crash before the journal is removed only replays entries already saved
+    const filePath = this.filePath;
+    this.persist(() => {
+      mkdirSync(dirname(filePath), { recursive: true });
+      const tmp = `${filePath}.tmp`;
+      writeFileSync(tmp, JSON.stringify(data));
+      renameSync(tmp, filePath);
+      rmSync(journalPath(filePath), { force: true });
+      this.journalLines = 0;
+      this.snapshotSize = this.entries.size;
+    });
+  }
+
+  /** Number of live entries. */
+  get size(): number {
+    this.ensureLoaded();
+    return this.entries.size;
+  }
+
+  /** Drop expired entries (front of the map) and enforce the size bound. */
+  private prune(now: number): void {
+    for (const [key, expiresAt] of this.entries) {
+      if (expiresAt > now && this.entries.size <= this.maxEntries) break;
+      this.entries.delete(key);
+    }
+  }
+
+  /** Run a disk write; a failure is reported, never thrown. */
+  private persist(write: () => void): void {
+    try {
+      write();
+      this.persistFailed = false;
+    } catch (err) {
+      if (this.persistFailed) return;
+      this.persistFailed = true;
+      this.emit('persist-error', err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    if (!this.filePath) return;
+    try {
+      if (existsSync(this.filePath)) {
+        const data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as ReplayCacheFile;
+        if (data && Array.isArray(data.entries)) {
+          for (const [sender, messageId, expiresAt] of data.entries) {
+            this.entries.set(cacheKey(sender, messageId), expiresAt);
+          }
+        }
+      }
+    } catch {
+      // Corrupt snapshot — start from the journal alone, next compaction rewrites it
+    }
+    const journal = journalPath(this.filePath);
+    if (!existsSync(journal)) {
+      this.prune(Date.now());
+      this.snapshotSize = this.entries.size;
+      return;
+    }
+    for (const line of readFileSync(journal, 'utf-8').split('\n')) {
+      try {
+        const [sender, messageId, expiresAt] = JSON.parse(line) as [string, string, number];
+        const key = cacheKey(sender, messageId);
+        this.entries.delete(key);
+        this.entries.set(key, expiresAt);
+      } catch {
+        // Blank or torn line (crash mid-append) — skip it
+      }
+    }
+    this.prune(Date.now());
+    this.compact();
+  }
+}
+
+/**
+ * Get the replay cache file path for a data directory.
+ * Returns: {dataDir}/replay-cache.json
+ */
+export function getReplayCachePath(dataDir: string): string {
+  return join(dataDir, 'replay-cache.json');
+}
+
+function journalPath(filePath: string): string {
+  return `${filePath}.journal`;
+}
+
+function cacheKey(sender: string, messageId: string): string {
+  return `${sender}\n${messageId}`;
+}
+
+function splitKey(key: string): [string, string] {
+  const idx = key.indexOf('\n');
+  return [key.slice(0, idx), key.slice(idx + 1)];
+}
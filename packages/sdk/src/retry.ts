@@ -1,12 +1,31 @@
 /**
  * Local retry queue — exponential backoff for failed message deliveries.
  *
- * Schedule: 10s, 30s, 90s (3 attempts). Messages expire after 1 hour.
- * Queue bounded at configurable max (default: 100 messages).
+ * Default schedule: 10s, 30s, 90s (3 attempts). Messages expire after 1 hour.
+ * Both are configurable via RetryPolicy (backoff factor, cap, jitter, max
+ * attempts, max age), and each message can carry its own expiry and attempt
+ * limit. Queue bounded at configurable max (default: 100 messages).
+ *
+ * Messages that expire or run out of attempts move to a bounded dead-letter
+ * list, where they can be inspected and resubmitted.
+ *
+ * Entries are keyed by (messageId, recipient): a group message fanned out to
+ * several members keeps its one messageId, with one entry per member. A file
+ * transfer is one entry (kind 'file', messageId = transferId) whose attempts
+ * resend the chunks not yet delivered.
+ *
+ * When given a file path, the queue snapshots itself to disk after every
+ * enqueue and state change so queued messages survive a restart. Call
+ * restore() before start() to reload them with createdAt/attempts intact.
+ * The snapshot holds plaintext payloads and is written with mode 0600.
+ * A failed write doesn't fail the operation: the queue keeps working in
+ * memory and emits 'persist-error' (once, until a write succeeds again).
  */
 
 import { EventEmitter } from 'node:events';
-import type { DeliveryStatus } from './types.js';
+import { readFileSync, writeFileSync, mkdirSync, existsSync, renameSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import type { DeliveryStatus, PayloadPadding, RetryPolicy } from './types.js';
 
 export interface QueuedMessage {
   messageId: string;
@@ -16,26 +35,92 @@ export interface QueuedMessage {
   attempts: number;
   createdAt: number;
   nextRetryAt: number;
+  /** Absolute expiry (ms). Defaults to createdAt + policy.maxAgeMs. */
+  expiresAt: number;
+  /** Retry attempts allowed for this message. Defaults to policy.maxAttempts. */
+  maxAttempts: number;
   groupId?: string;
+  /** 'file' for a file transfer (payload: { transferId }); absent for messages */
+  kind?: 'file';
+  /** Per-message padding override from send() */
+  padding?: PayloadPadding | 'none';
+  /** Why the message expired or failed (dead letters only) */
+  reason?: string;
+  /** When the message moved to the dead-letter list (dead letters only) */
+  deadLetteredAt?: number;
+}
+
+/** Per-message overrides for enqueue(). */
+export interface EnqueueOptions {
+  /** Absolute expiry time in ms since epoch */
+  expiresAt?: number;
+  /** Retry attempts allowed for this message */
+  maxAttempts?: number;
+  /** Queue a file transfer rather than a message */
+  kind?: 'file';
+  /** Padding override to use on every retry */
+  padding?: PayloadPadding | 'none';
 }
 
-const DEFAULT_RETRY_DELAYS = [10_000, 30_000, 90_000]; // 10s, 30s, 90s
+/** Default policy: 10s, 30s, 90s (3 attempts), no jitter, 1 hour max age. */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  initialDelayMs: 10_000,
+  backoffFactor: 3,
+  maxDelayMs: 15 * 60 * 1000,
+  jitter: 0,
+  maxAgeMs: 60 * 60 * 1000,
+};
+
 const DEFAULT_PROCESS_INTERVAL = 1000; // 1s
-const MAX_AGE = 60 * 60 * 1000; // 1 hour
+const MAX_DEAD_LETTERS = 100;
+
+/** Persisted form of the queue. */
+interface RetryQueueFile {
+  messages: QueuedMessage[];
+  deadLetters?: QueuedMessage[];
+}
 
 export class RetryQueue extends EventEmitter {
   private queue: Map<string, QueuedMessage> = new Map();
+  /** Expired/failed messages, oldest first. */
+  private deadLetters: Map<string, QueuedMessage> = new Map();
   private timer: ReturnType<typeof setInterval> | null = null;
   private maxSize: number;
+  private policy: Required<RetryPolicy>;
+  /** Base delay per attempt, before jitter: the explicit schedule, or the policy's backoff. */
   private retryDelays: number[];
+  /** Whether retryDelays was given explicitly (reused past its end instead of extended). */
+  private explicitDelays: boolean;
   private processInterval: number;
   private sendFn: ((msg: QueuedMessage) => Promise<boolean>) | null = null;
+  private filePath: string | null;
+  /** The pass in progress; passes never overlap. */
+  private processing: Promise<void> | null = null;
+  /** Set when a pass is requested while one is running: run another when it ends. */
+  private processAgain = false;
+  /** Whether the last snapshot write failed ('persist-error' already emitted). */
+  private persistFailed = false;
 
-  constructor(maxSize = 100, retryDelays?: number[], processInterval?: number) {
+  /**
+   * @param retryPolicy - A RetryPolicy, or an explicit delay schedule where
+   *   each entry is one attempt (e.g. [10000, 30000, 90000]).
+   */
+  constructor(maxSize = 100, retryPolicy?: RetryPolicy | number[], processInterval?: number, filePath?: string | null) {
     super();
     this.maxSize = maxSize;
-    this.retryDelays = retryDelays || DEFAULT_RETRY_DELAYS;
+    if (Array.isArray(retryPolicy)) {
+      this.policy = { ...DEFAULT_RETRY_POLICY, maxAttempts: retryPolicy.length };
+      this.retryDelays = retryPolicy;
+      this.explicitDelays = true;
+    } else {
+      this.policy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+      this.retryDelays = Array.from({ length: this.policy.maxAttempts }, (_, i) => this.backoff(i));
+      this.explicitDelays = false;
+    }
+    this.policy.jitter = Math.min(Math.max(this.policy.jitter, 0), 1);
     this.processInterval = processInterval || DEFAULT_PROCESS_INTERVAL;
+    this.filePath = filePath ?? null;
   }
 
   /** Set the send function that will be called on retry. */
@@ -43,27 +128,77 @@ export class RetryQueue extends EventEmitter {
     this.sendFn = fn;
   }
 
-  /** Add a message to the retry queue. */
-  enqueue(messageId: string, recipient: string, payload: Record<string, unknown>, groupId?: string): boolean {
+  /**
+   * Add a message to the retry queue. Re-enqueueing a (messageId, recipient)
+   * pair that is already queued is a no-op that returns true.
+   */
+  enqueue(
+    messageId: string,
+    recipient: string,
+    payload: Record<string, unknown>,
+    groupId?: string,
+    options: EnqueueOptions = {},
+  ): boolean {
+    const key = queueKey(messageId, recipient);
+    if (this.queue.has(key)) return true;
     if (this.queue.size >= this.maxSize) return false;
 
     const now = Date.now();
-    this.queue.set(messageId, {
+    const msg: QueuedMessage = {
       messageId,
       recipient,
       payload,
       status: 'pending',
       attempts: 0,
       createdAt: now,
-      nextRetryAt: now + this.retryDelays[0]!,
+      nextRetryAt: now + this.delayFor(0),
+      expiresAt: options.expiresAt ?? now + this.policy.maxAgeMs,
+      maxAttempts: options.maxAttempts ?? this.policy.maxAttempts,
       groupId,
-    });
+      ...(options.kind && { kind: options.kind }),
+      ...(options.padding && { padding: options.padding }),
+    };
+    this.queue.set(key, msg);
+    this.save();
 
-    this.emitStatus(messageId, 'pending', 0);
+    this.emitStatus(msg, 'pending');
     this.ensureTimer();
     return true;
   }
 
+  /**
+   * Reload messages persisted by a previous process.
+   *
+   * Messages already in the queue are kept as-is. A message that was mid-send
+   * when the process died is restored as 'pending' (the attempt still counts).
+   * Emits a delivery-status event for each restored message and returns them.
+   * A missing or corrupt file restores nothing.
+   */
+  restore(): QueuedMessage[] {
+    const { messages, deadLetters } = this.load();
+    for (const msg of deadLetters) {
+      const key = queueKey(msg.messageId, msg.recipient);
+      if (!this.deadLetters.has(key)) this.deadLetters.set(key, msg);
+    }
+
+    const restored: QueuedMessage[] = [];
+    for (const msg of messages) {
+      const key = queueKey(msg.messageId, msg.recipient);
+      if (this.queue.has(key) || this.queue.size >= this.maxSize) continue;
+      if (msg.status === 'sending') msg.status = 'pending';
+      this.queue.set(key, msg);
+      restored.push(msg);
+    }
+    if (restored.length === 0) return restored;
+
+    this.save();
+    for (const msg of restored) {
+      this.emitStatus(msg, msg.status);
+    }
+    this.ensureTimer();
+    return restored;
+  }
+
   /** Start processing the queue. */
   start(): void {
     this.ensureTimer();
@@ -82,44 +217,175 @@ export class RetryQueue extends EventEmitter {
     return this.queue.size;
   }
 
+  /** Snapshot of queued messages in enqueue order. */
+  list(): QueuedMessage[] {
+    return [...this.queue.values()].map((msg) => ({ ...msg }));
+  }
+
+  /**
+   * Remove a queued message without delivering it — every recipient's entry,
+   * or only `recipient`'s. Emits 'cancelled' per entry. Returns false if
+   * nothing matched.
+   */
+  cancel(messageId: string, recipient?: string): boolean {
+    const cancelled: QueuedMessage[] = [];
+    for (const [key, msg] of this.queue) {
+      if (msg.messageId !== messageId || (recipient !== undefined && msg.recipient !== recipient)) continue;
+      msg.status = 'cancelled';
+      this.queue.delete(key);
+      cancelled.push(msg);
+    }
+    if (cancelled.length === 0) return false;
+
+    this.save();
+    for (const msg of cancelled) {
+      this.emitStatus(msg, 'cancelled', 'Cancelled');
+    }
+    return true;
+  }
+
+  /**
+   * Make matching queued messages due immediately and process the queue now
+   * instead of waiting for their backoff. Returns how many were scheduled.
+   */
+  retryNow(match: (msg: QueuedMessage) => boolean): number {
+    const now = Date.now();
+    let count = 0;
+    for (const msg of this.queue.values()) {
+      if (msg.status !== 'pending' || !match(msg)) continue;
+      msg.nextRetryAt = now;
+      count++;
+    }
+    if (count > 0) {
+      this.save();
+      this.ensureTimer();
+      void this.process();
+    }
+    return count;
+  }
+
+  /** Snapshot of expired/failed messages, oldest first. */
+  listDeadLetters(): QueuedMessage[] {
+    return [...this.deadLetters.values()].map((msg) => ({ ...msg }));
+  }
+
+  /**
+   * Move a dead letter (every recipient's entry for messageId) back into the
+   * queue as fresh messages (attempts reset, new expiry). Returns false if it
+   * is not a dead letter or the queue had no room for any entry.
+   */
+  resubmit(messageId: string, options: EnqueueOptions = {}): boolean {
+    let resubmitted = 0;
+    for (const [key, dead] of this.deadLetters) {
+      if (dead.messageId !== messageId) continue;
+      if (!this.enqueue(dead.messageId, dead.recipient, dead.payload, dead.groupId, { ...options, kind: dead.kind, padding: dead.padding })) continue;
+      this.deadLetters.delete(key);
+      resubmitted++;
+    }
+    if (resubmitted === 0) return false;
+    this.save();
+    return true;
+  }
+
+  /** Drop a dead letter (every recipient's entry). Returns false if it is not a dead letter. */
+  discardDeadLetter(messageId: string): boolean {
+    let discarded = 0;
+    for (const [key, dead] of this.deadLetters) {
+      if (dead.messageId !== messageId) continue;
+      this.deadLetters.delete(key);
+      discarded++;
+    }
+    if (discarded === 0) return false;
+    this.save();
+    return true;
+  }
+
   private ensureTimer(): void {
     if (this.timer) return;
-    this.timer = setInterval(() => this.process(), this.processInterval);
+    this.timer = setInterval(() => {
+      if (!this.processing) void this.process();
+    }, this.processInterval);
   }
 
-  private async process(): Promise<void> {
+  /** Move a message from the queue to the dead-letter list. */
+  private toDeadLetter(msg: QueuedMessage, status: 'expired' | 'failed', reason: string): void {
+    msg.status = status;
+    msg.reason = reason;
+    msg.deadLetteredAt = Date.now();
+    const key = queueKey(msg.messageId, msg.recipient);
+    this.queue.delete(key);
+    this.deadLetters.delete(key);
+    this.deadLetters.set(key, msg);
+    if (this.deadLetters.size > MAX_DEAD_LETTERS) {
+      const first = this.deadLetters.keys().next().value;
+      if (first) this.deadLetters.delete(first);
+    }
+    this.save();
+    this.emitStatus(msg, status, reason);
+  }
+
+  /**
+   * Run a pass over the queue. If one is already running, another pass
+   * follows it (so a retryNow() during a slow send isn't lost) and the
+   * returned promise covers both.
+   */
+  private process(): Promise<void> {
+    if (this.processing) {
+      this.processAgain = true;
+      return this.processing;
+    }
+    this.processing = (async () => {
+      try {
+        do {
+          this.processAgain = false;
+          await this.processPass();
+        } while (this.processAgain);
+      } finally {
+        this.processing = null;
+      }
+    })();
+    return this.processing;
+  }
+
+  private async processPass(): Promise<void> {
     const now = Date.now();
 
-    for (const [id, msg] of this.queue) {
+    for (const [key, msg] of this.queue) {
+      // In flight: its attempt decides the outcome, not the clock
+      if (msg.status === 'sending') continue;
+
       // Expire old messages
-      if (now - msg.createdAt > MAX_AGE) {
-        msg.status = 'expired';
-        this.emitStatus(id, 'expired', msg.attempts);
-        this.queue.delete(id);
+      if (now > msg.expiresAt) {
+        this.toDeadLetter(msg, 'expired',
+          `Expired at ${new Date(msg.expiresAt).toISOString()} after ${msg.attempts} retry attempt(s)`);
         continue;
       }
 
       // Skip if not ready for retry
-      if (now < msg.nextRetryAt || msg.status === 'sending') continue;
+      if (now < msg.nextRetryAt) continue;
 
       // Attempt delivery
       msg.status = 'sending';
       msg.attempts++;
-      this.emitStatus(id, 'sending', msg.attempts);
+      this.save();
+      this.emitStatus(msg, 'sending');
 
-      const success = this.sendFn ? await this.sendFn(msg) : false;
+      const success = this.sendFn ? await this.sendFn(msg).catch(() => false) : false;
+
+      // Cancelled while the attempt was in flight
+      if (this.queue.get(key) !== msg) continue;
 
       if (success) {
         msg.status = 'delivered';
-        this.emitStatus(id, 'delivered', msg.attempts);
-        this.queue.delete(id);
-      } else if (msg.attempts >= this.retryDelays.length) {
-        msg.status = 'failed';
-        this.emitStatus(id, 'failed', msg.attempts);
-        this.queue.delete(id);
+        this.queue.delete(key);
+        this.save();
+        this.emitStatus(msg, 'delivered');
+      } else if (msg.attempts >= msg.maxAttempts) {
+        this.toDeadLetter(msg, 'failed', `Gave up after ${msg.attempts} retry attempt(s)`);
       } else {
         msg.status = 'pending';
-        msg.nextRetryAt = now + this.retryDelays[msg.attempts]!;
+        msg.nextRetryAt = now + this.delayFor(msg.attempts);
+        this.save();
       }
     }
 
@@ -129,7 +395,98 @@ export class RetryQueue extends EventEmitter {
     }
   }
 
-  private emitStatus(messageId: string, status: DeliveryStatus['status'], attempts: number): void {
-    this.emit('delivery-status', { messageId, status, attempts } satisfies DeliveryStatus);
+  /** Policy backoff for retry number `attempt` (0-based): initialDelayMs × backoffFactor^attempt, capped. */
+  private backoff(attempt: number): number {
+    const { initialDelayMs, backoffFactor, maxDelayMs } = this.policy;
+    return Math.min(initialDelayMs * backoffFactor ** attempt, maxDelayMs);
+  }
+
+  /**
+   * Delay before retry number `attempt` (0-based), randomized by ±jitter so
+   * restarted agents don't retry in lockstep. Messages allowed more attempts
+   * than the schedule has entries keep backing off (or reuse the last
+   * explicit delay).
+   */
+  private delayFor(attempt: number): number {
+    let delay: number;
+    if (attempt < this.retryDelays.length) {
+      delay = this.retryDelays[attempt]!;
+    } else if (this.explicitDelays) {
+      delay = this.retryDelays.at(-1) ?? 0;
+    } else {
+      delay = this.backoff(attempt);
+    }
+    if (this.policy.jitter > 0) {
+      delay *= 1 + this.policy.jitter * (2 * Math.random() - 1);
+    }
+    return Math.round(delay);
+  }
+
+  private load(): Required<RetryQueueFile> {
+    const empty = { messages: [], deadLetters: [] };
+    if (!this.filePath) return empty;
+    try {
+      if (!existsSync(this.filePath)) return empty;
+      const data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as RetryQueueFile;
+      if (!data || !Array.isArray(data.messages)) return empty;
+      return {
+        messages: this.sanitize(data.messages),
+        deadLetters: Array.isArray(data.deadLetters) ? this.sanitize(data.deadLetters) : [],
+      };
+    } catch {
+      return empty; // Corrupt file — next save() rewrites it
+    }
+  }
+
+  /** Drop malformed entries and fill fields missing from older snapshots. */
+  private sanitize(messages: QueuedMessage[]): QueuedMessage[] {
+    return messages
+      .filter((m) =>
+        m && typeof m.messageId === 'string' && typeof m.recipient === 'string'
+        && typeof m.createdAt === 'number' && typeof m.attempts === 'number')
+      .map((m) => ({
+        ...m,
+        expiresAt: m.expiresAt ?? m.createdAt + this.policy.maxAgeMs,
+        maxAttempts: m.maxAttempts ?? this.policy.maxAttempts,
+      }));
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+    const data: RetryQueueFile = {
+      messages: [...this.queue.values()],
+      deadLetters: [...this.deadLetters.values()],
+    };
+    // Write-then-rename so a crash mid-write never leaves a truncated file
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      const tmp = `${this.filePath}.tmp`;
+      writeFileSync(tmp, JSON.stringify(data), { mode: 0o600 });
+      renameSync(tmp, this.filePath);
+      this.persistFailed = false;
+    } catch (err) {
+      if (this.persistFailed) return;
+      this.persistFailed = true;
+      this.emit('persist-error', err instanceof Error ? err : new Error(String(err)));
+    }
   }
+
+  private emitStatus(msg: QueuedMessage, status: DeliveryStatus['status'], reason?: string): void {
+    const event: DeliveryStatus = { messageId: msg.messageId, status, attempts: msg.attempts, recipient: msg.recipient };
+    if (msg.groupId) event.groupId = msg.groupId;
+    if (reason) event.reason = reason;
+    this.emit('delivery-status', event);
+  }
+}
+
+function queueKey(messageId: string, recipient: string): string {
+  return `${messageId}\n${recipient}`;
+}
+
+/**
+ * Get the retry queue file path for a data directory.
+ * Returns: {dataDir}/retry-queue.json
+ */
+export function getRetryQueuePath(dataDir: string): string {
+  return join(dataDir, 'retry-queue.json');
 }
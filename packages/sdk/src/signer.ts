@@ -0,0 +1,77 @@
+/**
+ * Identity key abstraction — what the client, relay auth and envelope code
+ * need from the agent's Ed25519 key, without needing the key itself.
+ *
+ * - Signer: Ed25519 signatures (envelopes, relay request auth) and the public key
+ * - KeyAgreement: X25519 ECDH with the same key (its seed converted to X25519),
+ *   for static-key envelopes, ephemeral-key decryption and ratchet bootstrap
+ *
+ * LocalSigner holds the key in process memory. AgentSigner (key-agent.ts)
+ * forwards both operations to another process over a Unix socket, so the
+ * process running the SDK never sees the key bytes.
+ *
+ * Both operations are synchronous: the envelope code they serve is.
+ */
+
+import { createPrivateKey, createPublicKey, KeyObject } from 'node:crypto';
+import { sign, x25519, ed25519PrivToX25519, getEd25519RawKeys } from './crypto.js';
+
+/** Signs with an Ed25519 identity key. */
+export interface Signer {
+  /** The Ed25519 public key (base64 SPKI DER) */
+  readonly publicKey: string;
+  /** Ed25519 signature over `data` */
+  sign(data: Buffer): Buffer;
+}
+
+/** X25519 key agreement with the identity key. */
+export interface KeyAgreement {
+  /** Raw 32-byte X25519 shared secret with a peer's 32-byte X25519 public key */
+  deriveSharedSecret(peerPublicKey: Buffer): Buffer;
+}
+
+/** An agent identity key: both operations, backed by the same key. */
+export interface IdentityKey extends Signer, KeyAgreement {}
+
+/** Identity key held in process memory. */
+export class LocalSigner implements IdentityKey {
+  readonly publicKey: string;
+  private key: KeyObject;
+  private x25519Key: Buffer;
+
+  /** Accepts a PKCS8 DER Ed25519 private key or a KeyObject; throws for other key types. */
+  constructor(privateKey: Buffer | KeyObject) {
+    this.key = privateKey instanceof KeyObject
+      ? privateKey
+      : createPrivateKey({ key: Buffer.from(privateKey), format: 'der', type: 'pkcs8' });
+    if (this.key.asymmetricKeyType !== 'ed25519') {
+      throw new Error(`Expected Ed25519 private key, got '${this.key.asymmetricKeyType}'`);
+    }
+    this.publicKey = createPublicKey(this.key).export({ type: 'spki', format: 'der' }).toString('base64');
+    this.x25519Key = ed25519PrivToX25519(getEd25519RawKeys(this.key).seed);
+  }
+
+  sign(data: Buffer): Buffer {
+    return sign(data, this.key);
+  }
+
+  deriveSharedSecret(peerPublicKey: Buffer): Buffer {
+    return x25519(this.x25519Key, peerPublicKey);
+  }
+}
+
+const wrapped: WeakMap<KeyObject, LocalSigner> = new WeakMap();
+
+/**
+ * The LocalSigner for a KeyObject (one per KeyObject, so caches keyed by
+ * signer keep working); a Signer is returned as is.
+ */
+export function toSigner<T extends Signer>(key: KeyObject | T): T | LocalSigner {
+  if (!(key instanceof KeyObject)) return key;
+  let signer = wrapped.get(key);
+  if (!signer) {
+    signer = new LocalSigner(key);
+    wrapped.set(key, signer);
+  }
+  return signer;
+}
@@ -0,0 +1,372 @@
+/**
+ * File transfer store — staging, chunking and reassembly for sendFile().
+ *
+ * A file travels as 'file-chunk' envelopes sharing a transferId. Every chunk
+ * carries the whole file header (name, size, SHA-256, chunk layout, metadata),
+ * so the recipient can start from whichever chunk arrives first. Each chunk is
+ * encrypted and signed like any other envelope; the SHA-256 of the whole file
+ * is checked once all chunks are in.
+ *
+ * Sender: the content is copied to {dataDir}/transfers/outgoing/<transferId>/
+ * before the first chunk goes out, so a stream source can be re-read for
+ * retries and a restart resumes from the chunks not yet delivered.
+ *
+ * Recipient: chunks are written to {dataDir}/transfers/incoming/<transferId>/
+ * as they arrive, so a restart keeps what was already received; a chunk
+ * counts as received once its part file exists. Completed files move to
+ * {dataDir}/files/<transferId>/<name>. The sender controls the chunk layout,
+ * so the recipient bounds it: multi-chunk transfers need chunks of at least
+ * MIN_CHUNK_SIZE, a sender may have MAX_INCOMING_PER_SENDER unfinished
+ * transfers, and an unfinished transfer idle for INCOMING_TRANSFER_TTL_MS is
+ * deleted.
+ *
+ * Manifests and chunks are written with mode 0600 (directories 0700).
+ */
+
+import {
+  readFileSync, writeFileSync, mkdirSync, existsSync, renameSync, rmSync,
+  openSync, readSync, closeSync, appendFileSync, createReadStream, createWriteStream,
+  readdirSync, statSync,
+} from 'node:fs';
+import { basename, join } from 'node:path';
+import { createHash, randomUUID } from 'node:crypto';
+import { pipeline } from 'node:stream/promises';
+import type { Readable } from 'node:stream';
+
+export const DEFAULT_CHUNK_SIZE = 256 * 1024; // 256 KB: ~460 KB on the wire, under the inbox's 1 MB body limit
+export const DEFAULT_MAX_FILE_BYTES = 100 * 1024 * 1024; // 100 MB
+/** Smallest chunk of a multi-chunk transfer: at most 6400 chunks for a 100 MB file. */
+export const MIN_CHUNK_SIZE = 16 * 1024;
+/** Unfinished incoming transfers allowed per sender. */
+export const MAX_INCOMING_PER_SENDER = 4;
+/** An unfinished incoming transfer with no new chunk for this long is deleted. */
+export const INCOMING_TRANSFER_TTL_MS = 24 * 60 * 60 * 1000;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SHA256_RE = /^[0-9a-f]{64}$/;
+
+/** File header repeated in every chunk. */
+export interface FileHeader {
+  transferId: string;
+  name: string;
+  size: number;
+  /** Hex SHA-256 of the whole file */
+  sha256: string;
+  chunkSize: number;
+  count: number;
+  metadata: Record<string, unknown>;
+}
+
+/** Decrypted payload of a 'file-chunk' envelope. */
+export interface FileChunkPayload extends FileHeader {
+  index: number;
+  /** Base64 chunk content */
+  data: string;
+}
+
+/** Sender-side state of a transfer. */
+export interface OutgoingTransfer extends FileHeader {
+  recipient: string;
+  /** Indexes the recipient has accepted */
+  delivered: number[];
+}
+
+/** Recipient-side manifest of a transfer. */
+interface IncomingTransfer extends FileHeader {
+  sender: string;
+}
+
+/** Result of accepting a chunk. `path` is set once the file is complete and verified. */
+export interface AcceptedChunk {
+  header: FileHeader;
+  received: number;
+  path?: string;
+}
+
+export class TransferStore {
+  /** Unfinished incoming transfers seen since startup, with the chunks already stored. */
+  private incoming: Map<string, { transfer: IncomingTransfer; received: Set<number> }> = new Map();
+
+  constructor(private dataDir: string) {}
+
+  /**
+   * Copy a file or stream into the outgoing area and record its header.
+   * The transfer is addressed to `recipient`; nothing is sent yet. Throws
+   * 'File exceeds <maxBytes> bytes' (and keeps nothing) for a larger source.
+   */
+  async stage(
+    recipient: string,
+    source: Readable | string,
+    opts: { name?: string; chunkSize?: number; metadata?: Record<string, unknown>; maxBytes?: number } = {},
+  ): Promise<OutgoingTransfer> {
+    const maxBytes = opts.maxBytes ?? Infinity;
+    const transferId = randomUUID();
+    const dir = this.outgoingDir(transferId);
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+
+    const hash = createHash('sha256');
+    let size = 0;
+    try {
+      await pipeline(
+        typeof source === 'string' ? createReadStream(source) : source,
+        async function* (chunks: AsyncIterable<Buffer | string>) {
+          for await (const chunk of chunks) {
+            const buf = Buffer.from(chunk);
+            hash.update(buf);
+            size += buf.length;
+            if (size > maxBytes) throw new Error(`File exceeds ${maxBytes} bytes`);
+            yield buf;
+          }
+        },
+        createWriteStream(join(dir, 'data'), { mode: 0o600 }),
+      );
+    } catch (err) {
+      rmSync(dir, { recursive: true, force: true });
+      throw err;
+    }
+
+    const chunkSize = opts.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const transfer: OutgoingTransfer = {
+      transferId,
+      recipient,
+      name: opts.name ?? (typeof source === 'string' ? basename(source) : transferId),
+      size,
+      sha256: hash.digest('hex'),
+      chunkSize,
+      count: chunkCount(size, chunkSize),
+      metadata: opts.metadata ?? {},
+      delivered: [],
+    };
+    writeJson(join(dir, 'manifest.json'), transfer);
+    return transfer;
+  }
+
+  /** A staged transfer, or undefined if it finished or was removed. */
+  outgoing(transferId: string): OutgoingTransfer | undefined {
+    return readJson<OutgoingTransfer>(join(this.outgoingDir(transferId), 'manifest.json'));
+  }
+
+  /** Build the payload of one chunk of a staged transfer. */
+  chunkPayload(transfer: OutgoingTransfer, index: number): FileChunkPayload {
+    const { recipient: _, delivered: __, ...header } = transfer;
+    const length = chunkLength(transfer, index);
+    const data = Buffer.alloc(length);
+    const fd = openSync(join(this.outgoingDir(transfer.transferId), 'data'), 'r');
+    try {
+      readSync(fd, data, 0, length, index * transfer.chunkSize);
+    } finally {
+      closeSync(fd);
+    }
+    return { ...header, index, data: data.toString('base64') };
+  }
+
+  /** Record that the recipient accepted a chunk. */
+  markDelivered(transfer: OutgoingTransfer, index: number): void {
+    if (transfer.delivered.includes(index)) return;
+    transfer.delivered.push(index);
+    writeJson(join(this.outgoingDir(transfer.transferId), 'manifest.json'), transfer);
+  }
+
+  /** Delete a staged transfer (after delivery, or when cancelled). */
+  removeOutgoing(transferId: string): void {
+    if (!UUID_RE.test(transferId)) return;
+    rmSync(this.outgoingDir(transferId), { recursive: true, force: true });
+  }
+
+  /**
+   * Store a received chunk. Once every chunk is in, concatenate them, check
+   * the SHA-256 and move the file under {dataDir}/files.
+   *
+   * Throws on a malformed chunk, a file over `maxBytes`, a new transfer from
+   * a sender that already has MAX_INCOMING_PER_SENDER unfinished, a chunk
+   * that contradicts the header of earlier chunks or comes from another
+   * sender, or a hash mismatch (the partial transfer is discarded then).
+   */
+  accept(sender: string, payload: Record<string, unknown>, maxBytes: number): AcceptedChunk {
+    const chunk = parseChunk(payload);
+    if (chunk.size > maxBytes) {
+      throw new Error(`File exceeds ${maxBytes} bytes`);
+    }
+    const { index, data, ...header } = chunk;
+
+    const dir = this.incomingDir(chunk.transferId);
+    let state = this.loadIncoming(chunk.transferId);
+    if (!state) {
+      this.admitIncoming(sender);
+      state = { transfer: { ...header, sender }, received: new Set() };
+      mkdirSync(dir, { recursive: true, mode: 0o700 });
+      writeJson(join(dir, 'manifest.json'), state.transfer);
+      this.incoming.set(chunk.transferId, state);
+    }
+    const { transfer, received } = state;
+    if (transfer.sender !== sender || !sameHeader(transfer, header)) {
+      throw new Error('File chunk does not match its transfer');
+    }
+
+    if (!received.has(index)) {
+      // Write-then-rename: the part file's existence is what marks the chunk received
+      const part = join(dir, `${index}.part`);
+      writeFileSync(`${part}.tmp`, Buffer.from(data, 'base64'), { mode: 0o600 });
+      renameSync(`${part}.tmp`, part);
+      received.add(index);
+    }
+    if (received.size < transfer.count) {
+      return { header, received: received.size };
+    }
+    this.incoming.delete(transfer.transferId);
+    return { header, received: transfer.count, path: this.assemble(transfer) };
+  }
+
+  /**
+   * Delete unfinished incoming transfers with no new chunk for `ttlMs`.
+   * Runs before each new incoming transfer; call it on startup too.
+   * Returns the number deleted.
+   */
+  expireIncoming(ttlMs = INCOMING_TRANSFER_TTL_MS, now = Date.now()): number {
+    let expired = 0;
+    for (const transferId of this.incomingIds()) {
+      const dir = this.incomingDir(transferId);
+      try {
+        if (now - statSync(dir).mtimeMs <= ttlMs) continue;
+      } catch {
+        continue;
+      }
+      rmSync(dir, { recursive: true, force: true });
+      this.incoming.delete(transferId);
+      expired++;
+    }
+    return expired;
+  }
+
+  /** Throws if `sender` already has the maximum of unfinished incoming transfers. */
+  private admitIncoming(sender: string): void {
+    this.expireIncoming();
+    const active = this.incomingIds().filter((id) => this.loadIncoming(id)?.transfer.sender === sender);
+    if (active.length >= MAX_INCOMING_PER_SENDER) {
+      throw new Error(`Too many unfinished file transfers from '${sender}'`);
+    }
+  }
+
+  /** An unfinished incoming transfer, from memory or (after a restart) its directory. */
+  private loadIncoming(transferId: string): { transfer: IncomingTransfer; received: Set<number> } | undefined {
+    const cached = this.incoming.get(transferId);
+    if (cached) return cached;
+    const dir = this.incomingDir(transferId);
+    const transfer = readJson<IncomingTransfer>(join(dir, 'manifest.json'));
+    if (!transfer) return undefined;
+    const received = new Set<number>();
+    for (const file of readdirSync(dir)) {
+      const match = /^(\d+)\.part$/.exec(file);
+      if (match) received.add(Number(match[1]));
+    }
+    const state = { transfer, received };
+    this.incoming.set(transferId, state);
+    return state;
+  }
+
+  /** TransferIds with an incoming directory. */
+  private incomingIds(): string[] {
+    try {
+      return readdirSync(join(this.dataDir, 'transfers', 'incoming')).filter((id) => UUID_RE.test(id));
+    } catch {
+      return [];
+    }
+  }
+
+  /** Concatenate and verify a complete incoming transfer; returns the final path. */
+  private assemble(transfer: IncomingTransfer): string {
+    const dir = this.incomingDir(transfer.transferId);
+    const assembled = join(dir, 'data');
+    const hash = createHash('sha256');
+    writeFileSync(assembled, Buffer.alloc(0), { mode: 0o600 });
+    for (let i = 0; i < transfer.count; i++) {
+      const part = readFileSync(join(dir, `${i}.part`));
+      hash.update(part);
+      appendFileSync(assembled, part);
+    }
+    if (hash.digest('hex') !== transfer.sha256) {
+      rmSync(dir, { recursive: true, force: true });
+      this.incoming.delete(transfer.transferId);
+      throw new Error(`File hash mismatch for transfer ${transfer.transferId}`);
+    }
+
+    const targetDir = join(this.dataDir, 'files', transfer.transferId);
+    mkdirSync(targetDir, { recursive: true, mode: 0o700 });
+    const target = join(targetDir, safeFileName(transfer.name));
+    renameSync(assembled, target);
+    rmSync(dir, { recursive: true, force: true });
+    return target;
+  }
+
+  private outgoingDir(transferId: string): string {
+    return join(this.dataDir, 'transfers', 'outgoing', transferId);
+  }
+
+  private incomingDir(transferId: string): string {
+    return join(this.dataDir, 'transfers', 'incoming', transferId);
+  }
+}
+
+/** Indexes of a staged transfer not yet delivered, in order. */
+export function pendingChunks(transfer: OutgoingTransfer): number[] {
+  const delivered = new Set(transfer.delivered);
+  return Array.from({ length: transfer.count }, (_, i) => i).filter((i) => !delivered.has(i));
+}
+
+/** An empty file is still one (empty) chunk. */
+function chunkCount(size: number, chunkSize: number): number {
+  return Math.max(1, Math.ceil(size / chunkSize));
+}
+
+function chunkLength(header: FileHeader, index: number): number {
+  return Math.min(header.chunkSize, header.size - index * header.chunkSize);
+}
+
+/** Validate a decrypted chunk payload; throws 'Malformed file chunk' otherwise. */
+function parseChunk(payload: Record<string, unknown>): FileChunkPayload {
+  const { transferId, name, size, sha256, chunkSize, count, index, metadata, data } = payload;
+  const isCount = (n: unknown): n is number => Number.isSafeInteger(n) && (n as number) >= 0;
+  const valid = typeof transferId === 'string' && UUID_RE.test(transferId)
+    && typeof name === 'string'
+    && typeof sha256 === 'string' && SHA256_RE.test(sha256)
+    && isCount(size) && isCount(chunkSize) && chunkSize > 0
+    && isCount(count) && count === chunkCount(size, chunkSize)
+    && (count === 1 || chunkSize >= MIN_CHUNK_SIZE)
+    && isCount(index) && index < count
+    && !!metadata && typeof metadata === 'object' && !Array.isArray(metadata)
+    && typeof data === 'string';
+  if (!valid) {
+    throw new Error('Malformed file chunk');
+  }
+  const chunk = payload as unknown as FileChunkPayload;
+  if (Buffer.byteLength(data, 'base64') !== chunkLength(chunk, index)) {
+    throw new Error('Malformed file chunk');
+  }
+  return chunk;
+}
+
+function sameHeader(a: FileHeader, b: FileHeader): boolean {
+  return a.name === b.name && a.size === b.size && a.sha256 === b.sha256
+    && a.chunkSize === b.chunkSize && a.count === b.count;
+}
+
+/** The sender's file name without directories or unusual characters. */
+function safeFileName(name: string): string {
+  const safe = basename(name.replace(/\\/g, '/')).replace(/[^\w.\- ]/g, '_');
+  return /^\.*$/.test(safe) ? 'file' : safe;
+}
+
+function readJson<T>(path: string): T | undefined {
+  try {
+    return existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) as T : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Write-then-rename so a crash mid-write never leaves a truncated manifest. */
+function writeJson(path: string, data: unknown): void {
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(data), { mode: 0o600 });
+  renameSync(tmp, path);
+}
@@ -2,6 +2,8 @@
  * SDK type definitions.
  */
 
+import type { IdentityKey, Signer } from './signer.js';
+
 /**
  * Community relay configuration — one entry per relay community.
  */
@@ -14,6 +16,8 @@ export interface CommunityConfig {
   failover?: string;
   /** Community-specific Ed25519 private key (PKCS8 DER). Defaults to top-level privateKey. */
   privateKey?: Buffer;
+  /** Community-specific relay signer instead of privateKey (e.g. an AgentSigner) */
+  signer?: Signer;
 }
 
 /**
@@ -29,8 +33,10 @@ export interface A2ANetworkOptions {
   relayUrl?: string;
   /** Agent's username on the network */
   username: string;
-  /** Ed25519 private key (PKCS8 DER format) — default key, communities can override */
-  privateKey: Buffer;
+  /** Ed25519 private key (PKCS8 DER format) — default key, communities can override. Mutually exclusive with signer. */
+  privateKey?: Buffer;
+  /** Identity key held elsewhere, e.g. an AgentSigner for a key agent — used instead of privateKey */
+  signer?: IdentityKey;
   /** Agent's reachable HTTPS endpoint for receiving messages */
   endpoint: string;
   /** Directory for persisting local cache (contacts, keys) */
@@ -43,12 +49,165 @@ export interface A2ANetworkOptions {
   communities?: CommunityConfig[];
   /** Consecutive failures before failover (default: 3) */
   failoverThreshold?: number;
+  /** How long processed messageIds are remembered for replay protection, in ms (default: 3600000 = 1 hour, minimum 10 min) */
+  replayWindow?: number;
+  /** Send a signed receipt back to the sender after each received direct message (default: true) */
+  receipts?: boolean;
+  /** Retry queue backoff, attempt limit and message lifetime (default: 10s/30s/90s, 3 attempts, 1 hour) */
+  retryPolicy?: RetryPolicy;
+  /** How long relay contact/presence data is reused before send() re-fetches it, in ms (default: 0 = every send) */
+  presenceTtl?: number;
+  /** Debounce for writing the contacts cache after presence refreshes, in ms (default: 1000) */
+  cacheSaveDelay?: number;
+  /** Poll every community's contacts for presence changes this often, in ms (default: 0 = off) */
+  presencePollInterval?: number;
+  /** Re-fetch every community's contacts this often to emit contact-added/removed/updated, in ms (default: 300000 = 5 min, 0 = off) */
+  rosterRefreshInterval?: number;
+  /** What to do when the relay reports a new key for a pinned contact (default: 'warn') */
+  keyChangePolicy?: KeyChangePolicy;
+  /** What to do when sending to a contact whose key recovery is in progress (default: 'warn') */
+  recoveryPolicy?: RecoveryPolicy;
+  /** Send forward-secret (v2.1, ephemeral key) envelopes to contacts that advertise support (default: true) */
+  forwardSecrecy?: boolean;
+  /** Send double-ratchet (v2.2) envelopes to contacts that advertise support; setRatchet() overrides per contact (default: false) */
+  ratchet?: boolean;
+  /** Max derived pairwise keys kept in memory for reuse across envelopes (default: 1000, 0 = off) */
+  keyCacheSize?: number;
+  /** How sendToGroup() encrypts for members (default: 'pairwise') */
+  groupEncryption?: GroupEncryption;
+  /** Compress payloads before encryption for contacts that advertise support (v2.4) (default: 'none') */
+  compression?: PayloadCompression | 'none';
+  /** Only compress payloads of at least this many bytes of JSON (default: 1024) */
+  compressionThreshold?: number;
+  /** Reject received compressed payloads that inflate beyond this many bytes (default: 4194304 = 4 MB) */
+  maxDecompressedBytes?: number;
+  /** Reject incoming file transfers larger than this many bytes (default: 104857600 = 100 MB) */
+  maxFileBytes?: number;
+  /** Pad plaintexts before encryption to hide their length, for contacts that advertise support (v2.6) (default: 'none') */
+  padding?: PayloadPadding | 'none';
+  /** How long a key replaced by rotateIdentity() still decrypts incoming envelopes, in ms (default: 86400000 = 24 hours) */
+  rotationGracePeriod?: number;
+  /** Key lifecycle: maximum key age, expiry warnings and automatic rotation (default: none) */
+  keyPolicy?: KeyPolicy;
+}
+
+/**
+ * Key lifecycle policy. Each key (the default key and every community key)
+ * expires maxKeyAge after it went into use; see checkKeys().
+ */
+export interface KeyPolicy {
+  /** Maximum key age, in ms */
+  maxKeyAge: number;
+  /** With autoRotate, rotate this long before a key expires, in ms (default: 0 = at expiry) */
+  rotationWindow?: number;
+  /** Emit 'key:expiring' this long before a key expires, in ms (default: 604800000 = 7 days) */
+  notifyBefore?: number;
+  /** Rotate keys automatically when they reach the rotation window (default: false) */
+  autoRotate?: boolean;
+  /** How often to check key ages while started, in ms (default: 3600000 = 1 hour, 0 = only at start()) */
+  checkInterval?: number;
+}
+
+/**
+ * 'pairwise' encrypts the payload separately for every member. 'sender-key'
+ * encrypts it once and wraps only the content key per member (v2.3; members
+ * without support fall back to pairwise).
+ */
+export type GroupEncryption = 'pairwise' | 'sender-key';
+
+/** Payload compression algorithm, as carried in payload.compression: gzip or Brotli. */
+export type PayloadCompression = 'gzip' | 'br';
+
+/**
+ * Length-hiding padding, as carried in payload.padding. 'padme' rounds the
+ * length up by at most ~12%; 'bucket' rounds up to a power of two (256 bytes
+ * to 64 KB), then to a multiple of 64 KB.
+ */
+export type PayloadPadding = 'padme' | 'bucket';
+
+/**
+ * 'warn' emits contact:key-changed and trusts the new key. 'block-until-approved'
+ * emits the event and refuses to encrypt to the contact until approveContactKey().
+ */
+export type KeyChangePolicy = 'warn' | 'block-until-approved';
+
+/**
+ * Sending to a contact the relay reports with recoveryInProgress, whose key
+ * may be about to change. 'allow' sends as usual; 'warn' sends and sets
+ * SendResult.warning; 'refuse' fails sends, and retry attempts, until the
+ * recovery is over.
+ */
+export type RecoveryPolicy = 'allow' | 'warn' | 'refuse';
+
+/**
+ * Retry queue policy. Delay before retry n (0-based) is
+ * min(initialDelayMs × backoffFactor^n, maxDelayMs), randomized by ±jitter.
+ */
+export interface RetryPolicy {
+  /** Retry attempts after the initial send before giving up, at least 1 (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in ms (default: 10000) */
+  initialDelayMs?: number;
+  /** Multiplier applied to the delay after each attempt (default: 3) */
+  backoffFactor?: number;
+  /** Upper bound on a single delay in ms (default: 900000 = 15 min) */
+  maxDelayMs?: number;
+  /** Randomize each delay by ±this fraction, 0–1 (default: 0) */
+  jitter?: number;
+  /** How long a message may stay queued before it expires, in ms (default: 3600000 = 1 hour) */
+  maxAgeMs?: number;
+}
+
+/** Per-message overrides for send(). */
+export interface SendOptions {
+  /** Expire the message this many ms after sending, instead of retryPolicy.maxAgeMs */
+  ttl?: number;
+  /** Absolute expiry (Date, ISO-8601 string, or ms since epoch). The earlier of ttl and deadline wins. */
+  deadline?: Date | string | number;
+  /** Retry attempts for this message, instead of retryPolicy.maxAttempts */
+  maxAttempts?: number;
+  /** Re-fetch the recipient's presence from the relay even if the cached copy is within presenceTtl */
+  forceRefresh?: boolean;
+  /** Padding for this message (or transfer), instead of the `padding` option; kept for its retries */
+  padding?: PayloadPadding | 'none';
 }
 
 export interface SendResult {
   status: 'delivered' | 'queued' | 'failed';
   messageId: string;
   error?: string;
+  /** Set when the message was sent despite a reason for caution (see recoveryPolicy) */
+  warning?: string;
+}
+
+/** Per-transfer options for sendFile(); ttl/deadline/maxAttempts apply to the whole transfer. */
+export interface SendFileOptions extends SendOptions {
+  /** File name shown to the recipient (default: the source path's base name, else the transferId) */
+  name?: string;
+  /** Bytes per chunk (default: 262144 = 256 KB, minimum: 16384 = 16 KB) */
+  chunkSize?: number;
+}
+
+export interface FileSendResult {
+  /** 'delivered' once every chunk was accepted; 'queued' if the rest is left to the retry queue */
+  status: 'delivered' | 'queued' | 'failed';
+  transferId: string;
+  size: number;
+  chunks: number;
+  error?: string;
+}
+
+/** A completed, hash-verified incoming file transfer. */
+export interface ReceivedFile {
+  transferId: string;
+  sender: string;
+  name: string;
+  size: number;
+  /** Hex SHA-256 of the content */
+  sha256: string;
+  metadata: Record<string, unknown>;
+  /** Where the file was saved: {dataDir}/files/<transferId>/<name> */
+  path: string;
 }
 
 export interface Message {
@@ -57,8 +216,16 @@ export interface Message {
   timestamp: string;
   payload: Record<string, unknown>;
   verified: boolean;
+  /** How the envelope was encrypted (static 2.0, forward-secret 2.1, ratchet 2.2, sender-key 2.3) */
+  encryption: EnvelopeEncryption;
 }
 
+/**
+ * Envelope encryption scheme; 'ratchet' is a per-contact double-ratchet session,
+ * 'sender-key' a group payload encrypted once with a per-member wrapped key.
+ */
+export type EnvelopeEncryption = 'static' | 'forward-secret' | 'ratchet' | 'sender-key';
+
 export interface ContactRequest {
   from: string;
   requesterEmail: string;
@@ -74,8 +241,27 @@ export interface Broadcast {
 
 export interface DeliveryStatus {
   messageId: string;
-  status: 'pending' | 'sending' | 'delivered' | 'expired' | 'failed';
+  status: 'pending' | 'sending' | 'delivered' | 'acknowledged' | 'expired' | 'failed' | 'cancelled';
   attempts: number;
+  /** Agent this status is about (set for retry queue events) */
+  recipient?: string;
+  /** Group the message was sent to (group messages only) */
+  groupId?: string;
+  /** Why the message expired, failed or was cancelled (only on those statuses) */
+  reason?: string;
+}
+
+/**
+ * Signed end-to-end delivery receipt — proof the recipient decrypted a message.
+ * Carried encrypted in a type='receipt' envelope.
+ */
+export interface DeliveryReceipt {
+  /** messageId of the acknowledged message */
+  messageId: string;
+  /** Agent that decrypted the message and signed the receipt */
+  from: string;
+  /** When the recipient processed the message (recipient's clock) */
+  receivedAt: string;
 }
 
 export interface DeliveryReport {
@@ -88,7 +274,11 @@ export interface DeliveryReport {
     error?: string;
     durationMs: number;
   }>;
-  finalStatus: 'delivered' | 'expired' | 'failed';
+  finalStatus: 'delivered' | 'expired' | 'failed' | 'cancelled';
+  /** Why delivery expired, failed or was cancelled, including the last attempt's error when known */
+  reason?: string;
+  /** Set when a signed receipt from the recipient is verified (recipient's clock) */
+  acknowledgedAt?: string;
 }
 
 export interface Contact {
@@ -100,6 +290,8 @@ export interface Contact {
   lastSeen: string | null;
   keyUpdatedAt: string | null;
   recoveryInProgress: boolean;
+  /** Pinned key was verified out-of-band via markVerified() */
+  verified: boolean;
 }
 
 export interface GroupMessage {
@@ -109,6 +301,8 @@ export interface GroupMessage {
   timestamp: string;
   payload: Record<string, unknown>;
   verified: boolean;
+  /** How the envelope was encrypted (static 2.0, forward-secret 2.1, ratchet 2.2, sender-key 2.3) */
+  encryption: EnvelopeEncryption;
 }
 
 export interface ContactActionResult {
@@ -123,6 +317,28 @@ export interface GroupSendResult {
   failed: string[];
 }
 
+/** One member's delivery of a group message. */
+export interface GroupMemberDelivery {
+  recipient: string;
+  /** 'queued' until the retry queue delivers it or gives up */
+  status: 'delivered' | 'queued' | 'failed' | 'expired' | 'cancelled';
+  attempts: DeliveryReport['attempts'];
+  /** Why delivery failed, expired or was cancelled */
+  reason?: string;
+}
+
+/** Delivery of one group message to every member, updated as retries complete. */
+export interface GroupDeliveryReport {
+  messageId: string;
+  groupId: string;
+  sentAt: string;
+  members: GroupMemberDelivery[];
+  /** Every member has reached a final status (nothing left in the retry queue) */
+  complete: boolean;
+  /** Every member has received the message */
+  allDelivered: boolean;
+}
+
 /** Per-community result from a multi-community key rotation. */
 export interface KeyRotationCommunityResult {
   community: string;
@@ -135,12 +351,45 @@ export interface KeyRotationResult {
   results: KeyRotationCommunityResult[];
 }
 
+/** A contact that didn't get the 'key-rotation' notice from rotateIdentity(). */
+export interface KeyRotationNoticeFailure {
+  contact: string;
+  error: string;
+}
+
+/** Result from rotateIdentity(). */
+export interface IdentityRotationResult extends KeyRotationResult {
+  /** The new Ed25519 public key (base64 SPKI DER) */
+  publicKey: string;
+  /** The new Ed25519 private key (PKCS8 DER) — store it unless the client has a keystore */
+  privateKey: Buffer;
+  /** Contacts that accepted the 'key-rotation' notice */
+  notified: string[];
+  /** Contacts the notice couldn't be built for or delivered to; they pick up the key on their next roster refresh */
+  noticeFailures: KeyRotationNoticeFailure[];
+}
+
+/** Age of one of our keys under the keyPolicy, from checkKeys() and 'key:expiring'. */
+export interface KeyStatus {
+  /** The community of a community-specific key; undefined for the default key */
+  community?: string;
+  /** Communities whose relays hold this key */
+  communities: string[];
+  /** Ed25519 public key (base64 SPKI DER) */
+  publicKey: string;
+  fingerprint: string;
+  /** When the key went into use (ISO-8601) */
+  createdAt: string;
+  /** createdAt + maxKeyAge (ISO-8601) */
+  expiresAt: string;
+}
+
 /**
  * Wire format envelope — every P2P message uses this structure.
  */
 export interface WireEnvelope {
   version: string;
-  type: 'direct' | 'group' | 'broadcast' | 'contact-request' | 'contact-response' | 'revocation' | 'receipt';
+  type: 'direct' | 'group' | 'broadcast' | 'contact-request' | 'contact-response' | 'revocation' | 'receipt' | 'file-chunk' | 'key-rotation';
   messageId: string;
   sender: string;
   recipient: string;
@@ -72,9 +72,29 @@ export function validateEnvelope(data: unknown): data is WireEnvelope {
 }
 
 /**
- * Check if the major version is compatible.
+ * Parse a "major.minor" version string. A missing minor counts as 0.
+ * Returns null if there is no leading major number.
+ */
+export function parseVersion(version: string): { major: number; minor: number } | null {
+  const match = /^(\d+)(?:\.(\d+))?/.exec(version);
+  if (!match) return null;
+  return { major: Number(match[1]), minor: Number(match[2] ?? 0) };
+}
+
+/**
+ * Check if the major version is compatible. Minor versions are
+ * forward-compatible: a 2.x receiver accepts any 2.y envelope.
  */
 export function isVersionCompatible(version: string): boolean {
-  const major = parseInt(version.split('.')[0]!, 10);
-  return major === 2;
+  return parseVersion(version)?.major === 2;
+}
+
+/**
+ * Whether `version` has the same major as `minimum` and at least its minor —
+ * i.e. a peer on `version` understands features introduced in `minimum`.
+ */
+export function isAtLeastVersion(version: string, minimum: string): boolean {
+  const v = parseVersion(version);
+  const min = parseVersion(minimum);
+  return !!v && !!min && v.major === min.major && v.minor >= min.minor;
 }